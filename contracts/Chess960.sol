@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Chess960 start positions. Deployed on its own and linked into ChessBet, which
+// would otherwise be over the 24KB contract size limit.
+library Chess960 {
+    uint16 internal constant POSITIONS = 960;
+    uint16 internal constant STANDARD_POSITION = 518; // RNBQKBNR
+
+    // Knight placements among the five free squares (Scharnagl numbering), one nibble each
+    bytes10 private constant KNIGHT_PLACEMENTS = 0x01020304121314232434;
+
+    // Start position for a game. The index is derived from the game id so both
+    // players (and the off-chain engine) can reproduce it.
+    function startPosition(bytes32 gameId) external pure returns (uint16 index, string memory fen) {
+        index = uint16(uint256(keccak256(abi.encodePacked(gameId))) % POSITIONS);
+        fen = startFen(index);
+    }
+
+    // Build the start FEN for a chess960 index (X-FEN castling, so always KQkq)
+    function startFen(uint16 index) public pure returns (string memory) {
+        bytes memory rank = new bytes(8);
+        uint256 n = index;
+
+        rank[(n % 4) * 2 + 1] = "B"; // light-squared bishop
+        n /= 4;
+        rank[(n % 4) * 2] = "B"; // dark-squared bishop
+        n /= 4;
+        _placeOnFreeSquare(rank, n % 6, "Q");
+        n /= 6;
+
+        // Place the second knight first so the first knight's free-square index is unchanged
+        uint8 knights = uint8(KNIGHT_PLACEMENTS[n]);
+        _placeOnFreeSquare(rank, knights & 0x0f, "N");
+        _placeOnFreeSquare(rank, knights >> 4, "N");
+
+        // King always ends up between the rooks
+        _placeOnFreeSquare(rank, 0, "R");
+        _placeOnFreeSquare(rank, 0, "K");
+        _placeOnFreeSquare(rank, 0, "R");
+
+        bytes memory blackRank = new bytes(8);
+        for (uint256 i = 0; i < 8; i++) {
+            blackRank[i] = bytes1(uint8(rank[i]) + 32); // lower-case
+        }
+
+        return string(abi.encodePacked(blackRank, "/pppppppp/8/8/8/8/PPPPPPPP/", rank, " w KQkq - 0 1"));
+    }
+
+    function _placeOnFreeSquare(bytes memory rank, uint256 freeIndex, bytes1 piece) private pure {
+        uint256 seen = 0;
+        for (uint256 i = 0; i < 8; i++) {
+            if (rank[i] != 0) continue;
+            if (seen == freeIndex) {
+                rank[i] = piece;
+                return;
+            }
+            seen++;
+        }
+    }
+}
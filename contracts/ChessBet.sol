@@ -6,8 +6,10 @@ import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./Chess960.sol";
+import "./ChessBetOrderbook.sol";
 
-contract ChessBet is ReentrancyGuard, Ownable, Pausable {
+contract ChessBet is ReentrancyGuard, Ownable, Pausable, IOrderMatchHandler {
     using SafeERC20 for IERC20;
     
     // USDC Constants
@@ -20,6 +22,18 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
     uint8 private constant RESULT_WHITE = 0;
     uint8 private constant RESULT_BLACK = 1;
     uint8 private constant RESULT_DRAW = 2;
+
+    // Settlement markets and outcomes (see SettlementPolicy)
+    uint8 private constant MARKET_PLAYER = 0;
+    uint8 private constant MARKET_SPECTATOR = 1;
+    uint8 private constant SETTLE_PAY_WINNERS = 0;
+    uint8 private constant SETTLE_REFUND = 1;
+    uint8 private constant SETTLE_HOUSE_KEEPS = 2;
+
+    // Game Variant Constants
+    uint8 public constant VARIANT_STANDARD = 0;
+    uint8 public constant VARIANT_CHESS960 = 1;
+
     
     // Events
     event GameCreated(
@@ -30,6 +44,8 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
     );
     
     event GameStarted(bytes32 indexed gameId);
+
+    event VariantGameCreated(bytes32 indexed gameId, uint8 variant, uint16 startPosition);
     
     event MoveMade(bytes32 indexed gameId, string move);
     
@@ -38,6 +54,14 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
         uint8 result // 0 = white wins, 1 = black wins, 2 = draw
     );
     
+    event GameResigned(bytes32 indexed gameId, address indexed player);
+    
+    event DrawOffered(bytes32 indexed gameId, address indexed player);
+    
+    event DrawDeclined(bytes32 indexed gameId, address indexed player);
+    
+    event GameAborted(bytes32 indexed gameId, address indexed player);
+    
     event GameResolved(
         bytes32 indexed gameId,
         address indexed winner,
@@ -63,8 +87,72 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
         uint256 amount
     );
     
+    event SpectatorBetPlaced(
+        bytes32 indexed gameId,
+        address indexed bettor,
+        uint8 side, // 0 = white, 1 = black, 2 = draw
+        uint256 amount
+    );
+    
+    event SpectatorBetResolved(
+        bytes32 indexed gameId,
+        address indexed bettor,
+        uint256 amount,
+        uint256 payout,
+        uint8 result // 0 = won, 1 = lost, 2 = refunded
+    );
+    
+    event SpectatorPoolResolved(
+        bytes32 indexed gameId,
+        uint8 result, // 0 = white wins, 1 = black wins, 2 = draw
+        uint256 totalAmount,
+        uint256 houseFee,
+        bool refunded
+    );
+    
     event HouseFeePercentageUpdated(uint256 newFeePercentage);
+    event SettlementPolicyUpdated(
+        uint8 market, // 0 = players' escrow, 1 = spectator pool
+        bool refundOnDraw,
+        bool feeOnDraw,
+        bool refundWhenNoWinners
+    );
     event BettingTierAmountsUpdated(uint256 lowTierAmount, uint256 mediumTierAmount);
+    event OrderClosed(bytes32 indexed orderId, uint8 status, uint256 refund); // emitted by ChessBetOrderbook
+
+    // Errors
+    error NotGamePlayer();
+    error GameDoesNotExist();
+    error GameAlreadyFinished();
+    error ZeroTokenAddress();
+    error InvalidBlackPlayer();
+    error CannotPlayYourself();
+    error InvalidBettingTier();
+    error InvalidVariant();
+    error GameNotWaiting();
+    error GameAlreadyStarted();
+    error GameNotActive();
+    error MoveTooLong();
+    error InvalidResult();
+    error GameAlreadyResolved();
+    error ResultsNotSubmitted();
+    error NoDrawOffer();
+    error BothPlayersMoved();
+    error InvalidBetAmount();
+    error AlreadyBet();
+    error BetsAlreadyResolved();
+    error BetsIncomplete();
+    error InvalidSide();
+    error PlayersMustUsePlaceBet();
+    error SpectatorBetTooSmall();
+    error SpectatorBettingClosed();
+    error NoPendingPayout();
+    error NoTokenFees();
+    error OnlyOrderbook();
+    error ZeroMatch();
+    error FeeTooHigh();
+    error InvalidMarket();
+    error InvalidTierAmounts();
 
     // Structs
     struct Game {
@@ -81,6 +169,8 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
         uint256 startedAt;
         uint256 finishedAt;
         uint16 moveCount; // track moves for O(1) counting and PGN cap
+        uint8 variant; // 0 = standard, 1 = chess960
+        uint16 startPosition; // chess960 start position index (518 for standard)
     }
 
     struct GameBet {
@@ -101,13 +191,49 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
         address winner; // Address of winner, address(0) for draw
     }
 
+    struct SpectatorBet {
+        bytes32 gameId;
+        address bettor;
+        uint8 side; // 0 = white, 1 = black, 2 = draw
+        uint256 amount;
+        uint8 status; // 0 = pending, 1 = won, 2 = lost, 3 = refunded
+        uint256 createdAt;
+        uint256 resolvedAt;
+        uint256 payout;
+    }
+
+    // Third-party pool for a game, accounted separately from the players' escrow
+    struct SpectatorPool {
+        bytes32 gameId;
+        uint256 whiteAmount;
+        uint256 blackAmount;
+        uint256 drawAmount;
+        uint256 totalAmount;
+        uint256 houseFee;
+        bool resolved;
+    }
+
+    // How a market's pool is paid out; the off-chain BettingEngine settles with
+    // the same flags (src/lib/betting/SettlementPolicy.ts)
+    struct SettlementPolicy {
+        bool refundOnDraw; // a draw returns every stake instead of paying draw backers
+        bool feeOnDraw; // charge the house fee when the game is drawn, whether paid out or refunded
+        bool refundWhenNoWinners; // return stakes when nobody backed the result; otherwise the house keeps the pool
+    }
+
     // State variables
-    mapping(bytes32 => Game) public games;
-    mapping(bytes32 => BettingPool) public bettingPools;
-    mapping(bytes32 => GameBet[]) public gameBets;
+    mapping(bytes32 => Game) internal games; // read via getGame; a public getter for every field is too deep for the stack
+    mapping(bytes32 => BettingPool) internal bettingPools; // read via getBettingPool
+    mapping(bytes32 => GameBet[]) internal gameBets; // read via getGameBets
     mapping(address => uint256) public pendingPayouts;
+    mapping(bytes32 => SpectatorPool) internal spectatorPools; // read via getSpectatorPool
+    mapping(bytes32 => SpectatorBet[]) internal spectatorBets; // read via getSpectatorBets
+    mapping(address => bytes32[]) public spectatorGameIndex; // bettor => gameIds
+    mapping(address => mapping(bytes32 => bool)) private _spectatorSeenGame; // bettor => gameId => seen
     
     uint256 public houseFeePercentage = 500; // 5% in basis points
+    SettlementPolicy public playerSettlementPolicy = SettlementPolicy(true, false, true);
+    SettlementPolicy public spectatorSettlementPolicy = SettlementPolicy(false, true, true);
     
     // Betting tier amounts (in USDC units)
     uint256 public lowTierAmount = 5 * USDC_UNIT; // 5 USDC
@@ -117,69 +243,57 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
     // Betting tier enum
     enum BettingTier { Low, Medium, Unlimited }
     
-    // Orderbook system for unlimited tier
-    struct Order {
-        bytes32 id;
-        address player;
-        uint8 side; // 0 = white, 1 = black
-        uint256 amount;
-        uint256 tickAmount; // quantized amount
-        uint256 timeControl; // encoded time control
-        uint256 createdAt;
-        uint256 filledAmount;
-        uint8 status; // 0 = open, 1 = partially_filled, 2 = filled, 3 = cancelled
-    }
-    
-    struct OrderbookLevel {
-        uint256 tickAmount;
-        bytes32[] orderIds; // queue (not strictly FIFO; gas-optimized swap-pop removal)
-        uint256 totalAmount; // stored in token units (not tick amounts)
-    }
-    
-    // Orderbook state
-    mapping(bytes32 => Order) public orders;
-    mapping(uint256 => mapping(uint8 => mapping(uint256 => OrderbookLevel))) public orderbookLevels; // timeControl => side => tickAmount => level
-    mapping(address => bytes32[]) public playerOrders;
+    // Orderbook for the unlimited tier (see ChessBetOrderbook)
+    ChessBetOrderbook.Book internal orderbook;
     
     // Game result confirmation tracking
     mapping(bytes32 => mapping(address => bool)) public resultSubmitted; // gameId => player => submitted
     mapping(bytes32 => mapping(address => uint8)) public resultValue; // gameId => player => result value
     mapping(bytes32 => bool) public resultResolved; // gameId => resolved
     mapping(bytes32 => uint8) public resultFinal; // gameId => final result (0=white, 1=black, 2=draw)
+    mapping(bytes32 => address) public drawOfferedBy; // gameId => player with an open draw offer
     
     // Player game indexing for efficient bet lookup
     mapping(address => bytes32[]) public playerGameIndex; // player => gameIds
     mapping(address => mapping(bytes32 => bool)) private _playerSeenGame; // player => gameId => seen
     
-    uint256 public tickSize = 10 * USDC_UNIT; // $10 USDC tick size (in token units)
-    uint256 public tolerancePercentage = 5; // 5% tolerance for nearest-level matching
-    
     IERC20 public immutable token; // ERC20 token for betting (USDC)
     uint256 public tokenFeeBalance; // Accumulated ERC-20 fees
 
-    // Modifiers
+    // Modifiers (checks live in functions so they aren't inlined at every use)
     modifier onlyGamePlayer(bytes32 gameId) {
-        Game storage game = games[gameId];
-        require(
-            msg.sender == game.whitePlayer || msg.sender == game.blackPlayer,
-            "Not a game player"
-        );
+        _checkGamePlayer(gameId);
         _;
     }
 
     modifier gameExists(bytes32 gameId) {
-        require(games[gameId].id != bytes32(0), "Game does not exist");
+        _checkGameExists(gameId);
         _;
     }
 
     modifier gameNotFinished(bytes32 gameId) {
-        require(games[gameId].status != 2, "Game already finished");
+        _checkGameNotFinished(gameId);
         _;
     }
 
+    function _checkGamePlayer(bytes32 gameId) internal view {
+        Game storage game = games[gameId];
+        if (msg.sender != game.whitePlayer && msg.sender != game.blackPlayer) revert NotGamePlayer();
+    }
+
+    function _checkGameExists(bytes32 gameId) internal view {
+        if (games[gameId].id == bytes32(0)) revert GameDoesNotExist();
+    }
+
+    function _checkGameNotFinished(bytes32 gameId) internal view {
+        if (games[gameId].status == 2) revert GameAlreadyFinished();
+    }
+
     constructor(address _token) Ownable(msg.sender) {
-        require(_token != address(0), "token addr zero");
+        if (_token == address(0)) revert ZeroTokenAddress();
         token = IERC20(_token);
+        orderbook.tickSize = 10 * USDC_UNIT; // $10 USDC tick size (in token units)
+        orderbook.tolerancePercentage = 5; // 5% tolerance for nearest-level matching
     }
 
     // Game Management Functions
@@ -188,46 +302,40 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
         uint256 timeControl,
         uint8 bettingTier
     ) external nonReentrant whenNotPaused returns (bytes32) {
-        require(blackPlayer != address(0), "Invalid black player");
-        require(blackPlayer != msg.sender, "Cannot play against yourself");
-        require(bettingTier <= 2, "Invalid betting tier");
+        return _createGame(blackPlayer, timeControl, bettingTier, VARIANT_STANDARD);
+    }
+
+    function createVariantGame(
+        address blackPlayer,
+        uint256 timeControl,
+        uint8 bettingTier,
+        uint8 variant
+    ) external nonReentrant whenNotPaused returns (bytes32) {
+        return _createGame(blackPlayer, timeControl, bettingTier, variant);
+    }
+
+    function _createGame(
+        address blackPlayer,
+        uint256 timeControl,
+        uint8 bettingTier,
+        uint8 variant
+    ) internal returns (bytes32) {
+        if (blackPlayer == address(0)) revert InvalidBlackPlayer();
+        if (blackPlayer == msg.sender) revert CannotPlayYourself();
+        if (bettingTier > 2) revert InvalidBettingTier();
+        if (variant > VARIANT_CHESS960) revert InvalidVariant();
         
         bytes32 gameId = keccak256(
             abi.encodePacked(msg.sender, blackPlayer, block.timestamp, block.number)
         );
         
-        games[gameId] = Game({
-            id: gameId,
-            whitePlayer: msg.sender,
-            blackPlayer: blackPlayer,
-            fen: "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
-            pgn: "",
-            status: 0, // waiting
-            result: 0,
-            bettingTier: bettingTier,
-            timeControl: timeControl,
-            createdAt: block.timestamp,
-            startedAt: 0,
-            finishedAt: 0,
-            moveCount: 0
-        });
-
-        // Create betting pool
-        bettingPools[gameId] = BettingPool({
-            gameId: gameId,
-            totalAmount: 0,
-            houseFee: 0,
-            resolved: false,
-            winner: address(0)
-        });
-
-        emit GameCreated(gameId, msg.sender, blackPlayer, timeControl);
+        _newGame(gameId, msg.sender, blackPlayer, bettingTier, timeControl, variant);
         return gameId;
     }
 
     function startGame(bytes32 gameId) external gameExists(gameId) onlyGamePlayer(gameId) {
         Game storage game = games[gameId];
-        require(game.status == 0, "Game not in waiting status");
+        if (game.status != 0) revert GameNotWaiting();
         
         game.status = 1; // active
         game.startedAt = block.timestamp;
@@ -240,12 +348,17 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
         string memory move
     ) external gameExists(gameId) onlyGamePlayer(gameId) {
         Game storage game = games[gameId];
-        require(game.status == 1, "Game not active");
-        require(bytes(move).length <= MAX_MOVE_BYTES, "move too long");
+        if (game.status != 1) revert GameNotActive();
+        if (bytes(move).length > MAX_MOVE_BYTES) revert MoveTooLong();
         
         // Emit move event for off-chain tracking
         emit MoveMade(gameId, move);
         
+        // Moving instead of answering declines the opponent's draw offer
+        if (drawOfferedBy[gameId] != address(0) && drawOfferedBy[gameId] != msg.sender) {
+            delete drawOfferedBy[gameId];
+        }
+        
         // Update PGN with move cap to prevent griefing (O(1) counting)
         if (game.moveCount < MAX_MOVES) {
             if (bytes(game.pgn).length > 0) {
@@ -261,11 +374,11 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
         bytes32 gameId,
         uint8 result
     ) external gameExists(gameId) onlyGamePlayer(gameId) {
-        require(result <= 2, "Invalid result");
+        if (result > 2) revert InvalidResult();
         
         Game storage game = games[gameId];
-        require(game.status == 1, "Game not active");
-        require(!resultResolved[gameId], "Game already resolved");
+        if (game.status != 1) revert GameNotActive();
+        if (resultResolved[gameId]) revert GameAlreadyResolved();
         
         // Record player's result submission
         resultSubmitted[gameId][msg.sender] = true;
@@ -284,8 +397,9 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
             game.result = result;
             game.finishedAt = block.timestamp;
             
-            // Resolve betting pool
+            // Resolve betting pools
             _resolveBets(gameId, result);
+            _resolveSpectatorBets(gameId, result);
             
             emit GameFinished(gameId, result);
         }
@@ -296,18 +410,16 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
         bytes32 gameId,
         uint8 result
     ) external onlyOwner gameExists(gameId) {
-        require(result <= 2, "Invalid result");
-        require(!resultResolved[gameId], "Game already resolved");
+        if (result > 2) revert InvalidResult();
+        if (resultResolved[gameId]) revert GameAlreadyResolved();
         
         Game storage game = games[gameId];
-        require(game.status == 1, "Game not active");
+        if (game.status != 1) revert GameNotActive();
         
         // Both players must have submitted results
-        require(
-            resultSubmitted[gameId][game.whitePlayer] && 
-            resultSubmitted[gameId][game.blackPlayer],
-            "Both players must submit results first"
-        );
+        if (!resultSubmitted[gameId][game.whitePlayer] || !resultSubmitted[gameId][game.blackPlayer]) {
+            revert ResultsNotSubmitted();
+        }
         
         resultResolved[gameId] = true;
         resultFinal[gameId] = result;
@@ -315,8 +427,88 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
         game.result = result;
         game.finishedAt = block.timestamp;
         
-        // Resolve betting pool
+        // Resolve betting pools
         _resolveBets(gameId, result);
+        _resolveSpectatorBets(gameId, result);
+        
+        emit GameFinished(gameId, result);
+    }
+
+    // Resign - the opponent wins and bets settle immediately
+    function resign(bytes32 gameId) external gameExists(gameId) onlyGamePlayer(gameId) {
+        Game storage game = games[gameId];
+        if (game.status != 1) revert GameNotActive();
+        if (resultResolved[gameId]) revert GameAlreadyResolved();
+        
+        uint8 result = msg.sender == game.whitePlayer ? RESULT_BLACK : RESULT_WHITE;
+        
+        emit GameResigned(gameId, msg.sender);
+        _finishGame(gameId, result);
+    }
+    
+    function offerDraw(bytes32 gameId) external gameExists(gameId) onlyGamePlayer(gameId) {
+        if (games[gameId].status != 1) revert GameNotActive();
+        if (resultResolved[gameId]) revert GameAlreadyResolved();
+        
+        drawOfferedBy[gameId] = msg.sender;
+        
+        emit DrawOffered(gameId, msg.sender);
+    }
+    
+    function acceptDraw(bytes32 gameId) external gameExists(gameId) onlyGamePlayer(gameId) {
+        if (games[gameId].status != 1) revert GameNotActive();
+        if (resultResolved[gameId]) revert GameAlreadyResolved();
+        
+        address offeredBy = drawOfferedBy[gameId];
+        if (offeredBy == address(0) || offeredBy == msg.sender) revert NoDrawOffer();
+        
+        delete drawOfferedBy[gameId];
+        _finishGame(gameId, RESULT_DRAW);
+    }
+    
+    function declineDraw(bytes32 gameId) external gameExists(gameId) onlyGamePlayer(gameId) {
+        address offeredBy = drawOfferedBy[gameId];
+        if (offeredBy == address(0) || offeredBy == msg.sender) revert NoDrawOffer();
+        
+        delete drawOfferedBy[gameId];
+        
+        emit DrawDeclined(gameId, msg.sender);
+    }
+    
+    // Abort - only allowed before both sides have moved; all bets are refunded
+    function abortGame(bytes32 gameId) external gameExists(gameId) onlyGamePlayer(gameId) {
+        Game storage game = games[gameId];
+        if (game.status == 2) revert GameAlreadyFinished();
+        if (resultResolved[gameId]) revert GameAlreadyResolved();
+        if (game.moveCount >= 2) revert BothPlayersMoved();
+        
+        game.status = 2; // finished
+        game.result = RESULT_DRAW;
+        game.finishedAt = block.timestamp;
+        resultResolved[gameId] = true;
+        resultFinal[gameId] = RESULT_DRAW;
+        delete drawOfferedBy[gameId];
+        
+        _refundBets(gameId);
+        _refundSpectatorBets(gameId);
+        
+        emit GameAborted(gameId, msg.sender);
+        emit GameFinished(gameId, RESULT_DRAW);
+    }
+    
+    function _finishGame(bytes32 gameId, uint8 result) internal {
+        Game storage game = games[gameId];
+        
+        resultResolved[gameId] = true;
+        resultFinal[gameId] = result;
+        game.status = 2; // finished
+        game.result = result;
+        game.finishedAt = block.timestamp;
+        delete drawOfferedBy[gameId];
+        
+        // Resolve betting pools
+        _resolveBets(gameId, result);
+        _resolveSpectatorBets(gameId, result);
         
         emit GameFinished(gameId, result);
     }
@@ -327,19 +519,16 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
         uint256 amount
     ) external gameExists(gameId) gameNotFinished(gameId) nonReentrant whenNotPaused {
         Game storage game = games[gameId];
-        require(game.status == 0, "Game already started or finished");
-        require(
-            msg.sender == game.whitePlayer || msg.sender == game.blackPlayer,
-            "Only game players can bet"
-        );
+        if (game.status != 0) revert GameAlreadyStarted();
+        if (msg.sender != game.whitePlayer && msg.sender != game.blackPlayer) revert NotGamePlayer();
         
         // Validate bet amount based on betting tier
-        require(_isValidBetAmount(game.bettingTier, amount), "Invalid bet amount for tier");
+        if (!_isValidBetAmount(game.bettingTier, amount)) revert InvalidBetAmount();
         
         // Check if player already bet (one bet per player)
         GameBet[] storage bets = gameBets[gameId];
         for (uint256 i = 0; i < bets.length; i++) {
-            require(bets[i].player != msg.sender, "Player already bet");
+            if (bets[i].player == msg.sender) revert AlreadyBet();
         }
         
         // Transfer USDC tokens from player to contract
@@ -377,91 +566,216 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
         }
     }
 
+    // Settle the players' escrow under playerSettlementPolicy. Each player's stake
+    // backs their own colour, so only a decisive result has a winning stake.
     function _resolveBets(bytes32 gameId, uint8 result) internal {
         BettingPool storage pool = bettingPools[gameId];
-        require(!pool.resolved, "Bets already resolved");
+        if (pool.resolved) revert BetsAlreadyResolved();
         
         pool.resolved = true;
         
         GameBet[] storage bets = gameBets[gameId];
-        require(bets.length == 2, "Must have exactly 2 bets");
+        if (bets.length != 2) revert BetsIncomplete();
+        
+        address winner = result == RESULT_WHITE
+            ? games[gameId].whitePlayer
+            : result == RESULT_BLACK ? games[gameId].blackPlayer : address(0);
+        uint256 winningStake = 0;
+        for (uint256 i = 0; i < bets.length; i++) {
+            if (winner != address(0) && bets[i].player == winner) {
+                winningStake += bets[i].amount;
+            }
+        }
+        
+        (uint8 action, uint256 netPool, uint256 base) = _planPool(
+            playerSettlementPolicy, result, pool.totalAmount, pool.houseFee, winningStake
+        );
+        pool.winner = action == SETTLE_PAY_WINNERS ? winner : address(0);
+        pool.houseFee = action == SETTLE_HOUSE_KEEPS ? pool.totalAmount : pool.totalAmount - netPool;
+        
+        // Emit game resolution event for better indexing
+        emit GameResolved(gameId, pool.winner, result);
+        
+        uint256 paid = 0;
+        for (uint256 i = 0; i < bets.length; i++) {
+            bets[i].resolvedAt = block.timestamp;
+            if (action == SETTLE_REFUND || (action == SETTLE_PAY_WINNERS && bets[i].player == winner)) {
+                uint256 payout = (bets[i].amount * netPool) / base;
+                bets[i].status = action == SETTLE_REFUND ? 3 : 1; // refunded : won
+                bets[i].payout = payout;
+                paid += payout;
+                pendingPayouts[bets[i].player] += payout;
+                emit BetResolved(gameId, bets[i].player, bets[i].amount, payout, action == SETTLE_REFUND ? 2 : 0);
+            } else {
+                bets[i].status = 2; // lost
+                emit BetResolved(gameId, bets[i].player, bets[i].amount, 0, 1);
+            }
+        }
         
-        if (result == RESULT_DRAW) {
-            // Draw - refund both players (no fees charged)
-            for (uint256 i = 0; i < bets.length; i++) {
+        // Fee plus rounding dust (or the whole pool when the house keeps it)
+        _creditFee(pool.totalAmount - paid);
+    }
+
+    // Refund any existing bets without the "exactly 2" requirement
+    function _refundBets(bytes32 gameId) internal {
+        GameBet[] storage bets = gameBets[gameId];
+        for (uint256 i = 0; i < bets.length; i++) {
+            if (bets[i].status == 0) {
                 bets[i].status = 3; // refunded
-                bets[i].payout = bets[i].amount; // Full refund
+                bets[i].payout = bets[i].amount;
                 bets[i].resolvedAt = block.timestamp;
-                
                 pendingPayouts[bets[i].player] += bets[i].amount;
-                
-                emit BetResolved(
-                    gameId,
-                    bets[i].player,
-                    bets[i].amount,
-                    bets[i].amount,
-                    2 // refunded
-                );
+                emit BetResolved(gameId, bets[i].player, bets[i].amount, bets[i].amount, RESULT_DRAW);
             }
-            pool.winner = address(0); // No winner in draw
-            pool.houseFee = 0; // No fees charged on draws
-            
-            // Emit game resolution event for draw
-            emit GameResolved(gameId, address(0), result);
+        }
+        BettingPool storage pool = bettingPools[gameId];
+        pool.resolved = true;
+        pool.winner = address(0);
+        pool.houseFee = 0; // keep semantics identical to draw/no-fee
+        emit GameResolved(gameId, address(0), RESULT_DRAW); // treat as draw-style resolution
+    }
+
+    // Spectator Betting Functions
+    function placeSpectatorBet(
+        bytes32 gameId,
+        uint8 side,
+        uint256 amount
+    ) external gameExists(gameId) gameNotFinished(gameId) nonReentrant whenNotPaused {
+        Game storage game = games[gameId];
+        if (game.status != 1) revert GameNotActive();
+        // The pool closes with the first move, so nobody can back a side once it is already winning
+        if (game.moveCount > 0) revert SpectatorBettingClosed();
+        if (side > RESULT_DRAW) revert InvalidSide();
+        if (msg.sender == game.whitePlayer || msg.sender == game.blackPlayer) revert PlayersMustUsePlaceBet();
+        if (amount < 1 * USDC_UNIT) revert SpectatorBetTooSmall();
+        
+        token.safeTransferFrom(msg.sender, address(this), amount);
+        
+        spectatorBets[gameId].push(SpectatorBet({
+            gameId: gameId,
+            bettor: msg.sender,
+            side: side,
+            amount: amount,
+            status: 0, // pending
+            createdAt: block.timestamp,
+            resolvedAt: 0,
+            payout: 0
+        }));
+        
+        if (!_spectatorSeenGame[msg.sender][gameId]) {
+            _spectatorSeenGame[msg.sender][gameId] = true;
+            spectatorGameIndex[msg.sender].push(gameId);
+        }
+        
+        SpectatorPool storage pool = spectatorPools[gameId];
+        pool.gameId = gameId;
+        if (side == RESULT_WHITE) {
+            pool.whiteAmount += amount;
+        } else if (side == RESULT_BLACK) {
+            pool.blackAmount += amount;
         } else {
-            // Determine winner
-            address winner;
-            if (result == RESULT_WHITE) {
-                winner = games[gameId].whitePlayer;
+            pool.drawAmount += amount;
+        }
+        pool.totalAmount += amount;
+        pool.houseFee = (pool.totalAmount * houseFeePercentage) / 10000;
+        
+        emit SpectatorBetPlaced(gameId, msg.sender, side, amount);
+    }
+
+    // Settle the spectator pool under spectatorSettlementPolicy, paying eligible
+    // stakes pro rata; rounding dust goes to the fee balance.
+    function _resolveSpectatorBets(bytes32 gameId, uint8 result) internal {
+        SpectatorPool storage pool = spectatorPools[gameId];
+        if (pool.resolved || pool.totalAmount == 0) return;
+        
+        uint256 winningAmount = result == RESULT_WHITE
+            ? pool.whiteAmount
+            : result == RESULT_BLACK ? pool.blackAmount : pool.drawAmount;
+        (uint8 action, uint256 netPool, uint256 base) = _planPool(
+            spectatorSettlementPolicy, result, pool.totalAmount, pool.houseFee, winningAmount
+        );
+        
+        pool.resolved = true;
+        pool.houseFee = action == SETTLE_HOUSE_KEEPS ? pool.totalAmount : pool.totalAmount - netPool;
+        uint256 paid = 0;
+        
+        SpectatorBet[] storage bets = spectatorBets[gameId];
+        for (uint256 i = 0; i < bets.length; i++) {
+            bets[i].resolvedAt = block.timestamp;
+            if (action == SETTLE_REFUND || (action == SETTLE_PAY_WINNERS && bets[i].side == result)) {
+                uint256 payout = (bets[i].amount * netPool) / base;
+                bets[i].status = action == SETTLE_REFUND ? 3 : 1; // refunded : won
+                bets[i].payout = payout;
+                paid += payout;
+                pendingPayouts[bets[i].bettor] += payout;
+                emit SpectatorBetResolved(gameId, bets[i].bettor, bets[i].amount, payout, action == SETTLE_REFUND ? 2 : 0);
             } else {
-                winner = games[gameId].blackPlayer;
-            }
-            
-            pool.winner = winner;
-            
-            // Emit game resolution event for better indexing
-            emit GameResolved(gameId, winner, result);
-            
-            // Credit house fee before payouts
-            _creditFee(pool.houseFee);
-            uint256 netPool = pool.totalAmount - pool.houseFee;
-            
-            // Winner takes all
-            for (uint256 i = 0; i < bets.length; i++) {
-                if (bets[i].player == winner) {
-                    bets[i].status = 0; // won
-                    bets[i].payout = netPool; // Winner takes all
-                    bets[i].resolvedAt = block.timestamp;
-                    
-                    pendingPayouts[bets[i].player] += netPool;
-                    
-                    emit BetResolved(
-                        gameId,
-                        bets[i].player,
-                        bets[i].amount,
-                        netPool,
-                        0 // won
-                    );
-                } else {
-                    bets[i].status = 1; // lost
-                    bets[i].payout = 0;
-                    bets[i].resolvedAt = block.timestamp;
-                    
-                    emit BetResolved(
-                        gameId,
-                        bets[i].player,
-                        bets[i].amount,
-                        0,
-                        1 // lost
-                    );
-                }
+                bets[i].status = 2; // lost
+                emit SpectatorBetResolved(gameId, bets[i].bettor, bets[i].amount, 0, 1);
             }
         }
+        
+        _creditFee(pool.totalAmount - paid);
+        emit SpectatorPoolResolved(gameId, result, pool.totalAmount, pool.houseFee, action == SETTLE_REFUND);
+    }
+
+    function _refundSpectatorBets(bytes32 gameId) internal {
+        SpectatorPool storage pool = spectatorPools[gameId];
+        if (pool.resolved || pool.totalAmount == 0) return;
+        
+        pool.resolved = true;
+        pool.houseFee = 0; // No fee is charged on refunds
+        
+        SpectatorBet[] storage bets = spectatorBets[gameId];
+        for (uint256 i = 0; i < bets.length; i++) {
+            bets[i].status = 3; // refunded
+            bets[i].payout = bets[i].amount;
+            bets[i].resolvedAt = block.timestamp;
+            pendingPayouts[bets[i].bettor] += bets[i].amount;
+            emit SpectatorBetResolved(gameId, bets[i].bettor, bets[i].amount, bets[i].amount, 2);
+        }
+        
+        emit SpectatorPoolResolved(gameId, RESULT_DRAW, pool.totalAmount, 0, true);
+    }
+
+    // Decide what happens to a pool for a result: pay the winning side, refund
+    // every stake, or let the house keep it. Mirrors planSettlement off-chain.
+    function _planSettlement(
+        SettlementPolicy memory policy,
+        uint8 result,
+        uint256 winningStake
+    ) internal pure returns (uint8 action, bool chargeFee) {
+        if (result == RESULT_DRAW && policy.refundOnDraw) {
+            return (SETTLE_REFUND, policy.feeOnDraw);
+        }
+        if (winningStake == 0) {
+            return policy.refundWhenNoWinners ? (SETTLE_REFUND, false) : (SETTLE_HOUSE_KEEPS, true);
+        }
+        return (SETTLE_PAY_WINNERS, result != RESULT_DRAW || policy.feeOnDraw);
+    }
+
+    // Plan a pool's settlement and return the amount to distribute and the stake
+    // it is divided by: each eligible stake gets amount * netPool / base.
+    // accruedFee is the fee taken on the pool as bets came in.
+    function _planPool(
+        SettlementPolicy memory policy,
+        uint8 result,
+        uint256 totalAmount,
+        uint256 accruedFee,
+        uint256 winningStake
+    ) internal pure returns (uint8 action, uint256 netPool, uint256 base) {
+        bool chargeFee;
+        (action, chargeFee) = _planSettlement(policy, result, winningStake);
+        if (action == SETTLE_HOUSE_KEEPS) {
+            return (action, 0, 1);
+        }
+        netPool = chargeFee ? totalAmount - accruedFee : totalAmount;
+        base = action == SETTLE_REFUND ? totalAmount : winningStake;
     }
 
     function claimPayout() external nonReentrant {
         uint256 amount = pendingPayouts[msg.sender];
-        require(amount > 0, "No pending payout");
+        if (amount == 0) revert NoPendingPayout();
         
         pendingPayouts[msg.sender] = 0;
         
@@ -472,7 +786,7 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
 
     // Fee Management
     function withdrawTokenFees() external onlyOwner {
-        require(tokenFeeBalance > 0, "No token fees to withdraw");
+        if (tokenFeeBalance == 0) revert NoTokenFees();
         uint256 amount = tokenFeeBalance;
         tokenFeeBalance = 0;
         token.safeTransfer(owner(), amount);
@@ -495,6 +809,18 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
         return gameBets[gameId];
     }
 
+    function getSpectatorPool(bytes32 gameId) external view returns (SpectatorPool memory) {
+        return spectatorPools[gameId];
+    }
+
+    function getSpectatorBets(bytes32 gameId) external view returns (SpectatorBet[] memory) {
+        return spectatorBets[gameId];
+    }
+
+    function getSpectatorGames(address bettor) external view returns (bytes32[] memory) {
+        return spectatorGameIndex[bettor];
+    }
+
     function getPlayerBets(address player) external view returns (GameBet[] memory) {
         // Count only the player's bets across all games
         uint256 count = 0;
@@ -540,230 +866,138 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
         uint256 timeControl,
         uint256 amount
     ) external nonReentrant whenNotPaused returns (bytes32) {
-        require(side <= 1, "Invalid side");
-        require(amount >= tickSize, "Amount below minimum tick size");
-        
-        uint256 quantizedAmount = _quantizeAmount(amount);
-        require(quantizedAmount > 0, "Amount too small after quantization");
-        
-        // Transfer USDC tokens from player to contract
-        token.safeTransferFrom(msg.sender, address(this), quantizedAmount);
-        
-        bytes32 orderId = keccak256(
-            abi.encodePacked(msg.sender, side, quantizedAmount, timeControl, block.timestamp, block.number)
-        );
-        
-        orders[orderId] = Order({
-            id: orderId,
-            player: msg.sender,
-            side: side,
-            amount: quantizedAmount,
-            tickAmount: quantizedAmount,
-            timeControl: timeControl,
-            createdAt: block.timestamp,
-            filledAmount: 0,
-            status: 0 // open
-        });
-        
-        playerOrders[msg.sender].push(orderId);
-        
-        // Add to orderbook level
-        OrderbookLevel storage level = orderbookLevels[timeControl][side][quantizedAmount];
-        if (level.tickAmount == 0) {
-            level.tickAmount = quantizedAmount;
-        }
-        level.orderIds.push(orderId);
-        level.totalAmount += quantizedAmount;
-        
-        // Try to match immediately
-        _attemptMatch(orderId);
-        
-        return orderId;
+        return _placeOrder(side, timeControl, amount, VARIANT_STANDARD, _defaultOrderOptions());
+    }
+
+    function placeVariantOrder(
+        uint8 side,
+        uint256 timeControl,
+        uint256 amount,
+        uint8 variant
+    ) external nonReentrant whenNotPaused returns (bytes32) {
+        return _placeOrder(side, timeControl, amount, variant, _defaultOrderOptions());
+    }
+
+    function placeOrderWithOptions(
+        uint8 side,
+        uint256 timeControl,
+        uint256 amount,
+        uint8 variant,
+        ChessBetOrderbook.OrderOptions calldata options
+    ) external nonReentrant whenNotPaused returns (bytes32) {
+        return _placeOrder(side, timeControl, amount, variant, options);
+    }
+
+    function _placeOrder(
+        uint8 side,
+        uint256 timeControl,
+        uint256 amount,
+        uint8 variant,
+        ChessBetOrderbook.OrderOptions memory options
+    ) internal returns (bytes32) {
+        if (variant > VARIANT_CHESS960) revert InvalidVariant();
+        return ChessBetOrderbook.placeOrder(orderbook, pendingPayouts, token, side, timeControl, amount, variant, options);
+    }
+
+    // Good-til-cancelled, cancel newest on self-trade
+    function _defaultOrderOptions() internal pure returns (ChessBetOrderbook.OrderOptions memory) {
+        return ChessBetOrderbook.OrderOptions(ChessBetOrderbook.TIF_GTC, 0, ChessBetOrderbook.STP_CANCEL_NEWEST);
     }
     
     function cancelOrder(bytes32 orderId) external nonReentrant {
-        Order storage order = orders[orderId];
-        require(order.player == msg.sender, "Not order owner");
-        require(order.status == 0 || order.status == 1, "Cannot cancel filled or cancelled order");
-        
-        order.status = 3; // cancelled
-        
-        // Remove from orderbook level
-        OrderbookLevel storage level = orderbookLevels[order.timeControl][order.side][order.tickAmount];
-        for (uint256 i = 0; i < level.orderIds.length; i++) {
-            if (level.orderIds[i] == orderId) {
-                level.orderIds[i] = level.orderIds[level.orderIds.length - 1];
-                level.orderIds.pop();
-                break;
-            }
-        }
-        level.totalAmount -= (order.amount - order.filledAmount);
-        
-        // Refund unfilled amount
-        uint256 refundAmount = order.amount - order.filledAmount;
-        if (refundAmount > 0) {
-            token.safeTransfer(msg.sender, refundAmount);
-        }
+        ChessBetOrderbook.cancelOrder(orderbook, token, orderId);
+    }
+
+    // Sweep expired good-til-time orders off the book; anyone can call this.
+    // Unfilled amounts are credited to the owners' pending payouts.
+    function expireOrders(bytes32[] calldata orderIds) external nonReentrant {
+        ChessBetOrderbook.expireOrders(orderbook, pendingPayouts, orderIds);
+    }
+
+    // Called back by ChessBetOrderbook (running in this contract) for each fill
+    function settleOrderMatch(
+        address whitePlayer,
+        address blackPlayer,
+        uint256 amount,
+        uint256 timeControl,
+        uint8 variant
+    ) external {
+        if (msg.sender != address(this)) revert OnlyOrderbook();
+        _createMatch(whitePlayer, blackPlayer, amount, timeControl, variant);
     }
     
-    function getOrder(bytes32 orderId) external view returns (Order memory) {
-        return orders[orderId];
+    function getOrder(bytes32 orderId) external view returns (ChessBetOrderbook.Order memory) {
+        return orderbook.orders[orderId];
     }
     
     function getPlayerOrders(address player) external view returns (bytes32[] memory) {
-        return playerOrders[player];
+        return orderbook.playerOrders[player];
     }
     
     function getOrderbookLevel(
         uint256 timeControl,
         uint8 side,
         uint256 tickAmount
-    ) external view returns (OrderbookLevel memory) {
-        return orderbookLevels[timeControl][side][tickAmount];
-    }
-    
-    function quantizeAmount(uint256 amount) external view returns (uint256) {
-        return _quantizeAmount(amount);
+    ) external view returns (ChessBetOrderbook.OrderbookLevel memory) {
+        return orderbook.levels[timeControl][side][tickAmount];
     }
-    
-    function _quantizeAmount(uint256 amount) internal view returns (uint256) {
-        return (amount / tickSize) * tickSize;
+
+    function getVariantOrderbookLevel(
+        uint256 timeControl,
+        uint8 variant,
+        uint8 side,
+        uint256 tickAmount
+    ) external view returns (ChessBetOrderbook.OrderbookLevel memory) {
+        return orderbook.levels[ChessBetOrderbook.bookKey(timeControl, variant)][side][tickAmount];
     }
-    
-    function _attemptMatch(bytes32 orderId) internal {
-        Order storage order = orders[orderId];
-        if (order.status != 0) return; // Order not open
-        
-        // Find opposite orders to match against
-        uint8 oppositeSide = order.side == 0 ? 1 : 0;
-        
-        // Try exact level first
-        OrderbookLevel storage exactLevel = orderbookLevels[order.timeControl][oppositeSide][order.tickAmount];
-        if (exactLevel.totalAmount > 0) {
-            uint256 remainingBefore = order.amount - order.filledAmount;
-            _matchAtLevel(orderId, exactLevel, remainingBefore);
-        }
-        
-        // Recompute remaining after exact match to avoid overfill
-        if (orders[orderId].status == 0 || orders[orderId].status == 1) {
-            uint256 remainingAfter = order.amount - order.filledAmount;
-            if (remainingAfter > 0) {
-                _matchNearestLevels(orderId, oppositeSide, remainingAfter);
-            }
-        }
+
+    function tickSize() external view returns (uint256) {
+        return orderbook.tickSize;
     }
-    
-    function _matchAtLevel(
-        bytes32 orderId,
-        OrderbookLevel storage level,
-        uint256 maxAmount
-    ) internal {
-        Order storage order = orders[orderId];
-        
-        // Clamp to the order's current remaining to be extra safe
-        uint256 orderRemaining = order.amount - order.filledAmount;
-        uint256 remainingAmount = maxAmount <= orderRemaining ? maxAmount : orderRemaining;
-        
-        while (remainingAmount > 0 && level.orderIds.length > 0) {
-            bytes32 oppositeOrderId = level.orderIds[0];
-            Order storage oppositeOrder = orders[oppositeOrderId];
-            
-            uint256 oppositeRemaining = oppositeOrder.amount - oppositeOrder.filledAmount;
-            uint256 matchAmount = remainingAmount < oppositeRemaining ? remainingAmount : oppositeRemaining;
-            
-            // No-op guard
-            if (matchAmount == 0) {
-                // If opposite is fully filled but still at head, pop it
-                if (oppositeRemaining == 0) {
-                    oppositeOrder.status = 2; // filled
-                    level.orderIds[0] = level.orderIds[level.orderIds.length - 1];
-                    level.orderIds.pop();
-                    continue;
-                }
-                break;
-            }
-            
-            // Create match
-            _createMatch(order, oppositeOrder, matchAmount);
-            
-            // Update fills
-            order.filledAmount += matchAmount;
-            oppositeOrder.filledAmount += matchAmount;
-            remainingAmount -= matchAmount;
-            
-            // Update level
-            level.totalAmount -= matchAmount;
-            
-            // Remove fully filled orders
-            if (oppositeOrder.filledAmount >= oppositeOrder.amount) {
-                oppositeOrder.status = 2; // filled
-                level.orderIds[0] = level.orderIds[level.orderIds.length - 1];
-                level.orderIds.pop();
-            }
-        }
-        
-        // Update order status
-        if (order.filledAmount >= order.amount) {
-            order.status = 2; // filled
-        } else if (order.filledAmount > 0) {
-            order.status = 1; // partially filled
-        }
+
+    function tolerancePercentage() external view returns (uint256) {
+        return orderbook.tolerancePercentage;
     }
     
-    function _matchNearestLevels(
-        bytes32 orderId,
-        uint8 oppositeSide,
-        uint256 maxAmount
-    ) internal {
-        Order storage order = orders[orderId];
-        uint256 toleranceAmount = (order.tickAmount * tolerancePercentage) / 100;
-        uint256 minTick = order.tickAmount > toleranceAmount ? order.tickAmount - toleranceAmount : 0;
-        uint256 maxTick = order.tickAmount + toleranceAmount;
-        
-        uint256 remainingAmount = maxAmount;
-        
-        // Search for matches within tolerance, starting above exact level (exact already handled)
-        for (uint256 tick = order.tickAmount + tickSize; tick <= maxTick && remainingAmount > 0; tick += tickSize) {
-            OrderbookLevel storage level = orderbookLevels[order.timeControl][oppositeSide][tick];
-            if (level.orderIds.length > 0) {
-                _matchAtLevel(orderId, level, remainingAmount);
-                remainingAmount = order.amount - order.filledAmount;
-                if (remainingAmount == 0) break;
-            }
-        }
-        
-        // If still not filled, search lower levels (with underflow protection)
-        if (order.tickAmount >= tickSize) {
-            uint256 tick = order.tickAmount - tickSize;
-            while (tick >= minTick && remainingAmount > 0) {
-                OrderbookLevel storage level = orderbookLevels[order.timeControl][oppositeSide][tick];
-                if (level.orderIds.length > 0) {
-                    _matchAtLevel(orderId, level, remainingAmount);
-                    remainingAmount = order.amount - order.filledAmount;
-                    if (remainingAmount == 0) break;
-                }
-                if (tick < tickSize) break; // prevent underflow
-                tick -= tickSize;
-            }
-        }
+    function quantizeAmount(uint256 amount) external view returns (uint256) {
+        return ChessBetOrderbook.quantize(orderbook, amount);
     }
     
     function _createMatch(
-        Order storage whiteOrder,
-        Order storage blackOrder,
-        uint256 amount
+        address whitePlayer,
+        address blackPlayer,
+        uint256 amount,
+        uint256 timeControl,
+        uint8 variant
     ) internal {
-        require(amount > 0, "zero match");
-        
-        // Determine which order is white and which is black
-        address whitePlayer = whiteOrder.side == 0 ? whiteOrder.player : blackOrder.player;
-        address blackPlayer = whiteOrder.side == 1 ? whiteOrder.player : blackOrder.player;
+        if (amount == 0) revert ZeroMatch();
         
         bytes32 gameId = keccak256(
             abi.encodePacked(whitePlayer, blackPlayer, amount, block.timestamp, block.number)
         );
         
-        // Create game
+        _newGame(gameId, whitePlayer, blackPlayer, uint8(BettingTier.Unlimited), timeControl, variant);
+        
+        // Record bets for both players (tokens already in contract)
+        _recordBet(gameId, whitePlayer, amount);
+        _recordBet(gameId, blackPlayer, amount);
+        
+        // Auto-start the game since both players have bet
+        games[gameId].status = 1; // active
+        games[gameId].startedAt = block.timestamp;
+        
+        emit GameStarted(gameId);
+    }
+
+    // Store a new waiting game with an empty betting pool and announce it
+    function _newGame(
+        bytes32 gameId,
+        address whitePlayer,
+        address blackPlayer,
+        uint8 bettingTier,
+        uint256 timeControl,
+        uint8 variant
+    ) internal {
         games[gameId] = Game({
             id: gameId,
             whitePlayer: whitePlayer,
@@ -772,14 +1006,16 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
             pgn: "",
             status: 0, // waiting
             result: 0,
-            bettingTier: uint8(BettingTier.Unlimited),
-            timeControl: whiteOrder.timeControl,
+            bettingTier: bettingTier,
+            timeControl: timeControl,
             createdAt: block.timestamp,
             startedAt: 0,
             finishedAt: 0,
-            moveCount: 0
+            moveCount: 0,
+            variant: VARIANT_STANDARD,
+            startPosition: Chess960.STANDARD_POSITION
         });
-        
+
         // Create betting pool
         bettingPools[gameId] = BettingPool({
             gameId: gameId,
@@ -788,17 +1024,19 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
             resolved: false,
             winner: address(0)
         });
-        
-        // Record bets for both players (tokens already in contract)
-        _recordBet(gameId, whitePlayer, amount);
-        _recordBet(gameId, blackPlayer, amount);
-        
-        // Auto-start the game since both players have bet
-        games[gameId].status = 1; // active
-        games[gameId].startedAt = block.timestamp;
-        
-        emit GameCreated(gameId, whitePlayer, blackPlayer, whiteOrder.timeControl);
-        emit GameStarted(gameId);
+
+        emit GameCreated(gameId, whitePlayer, blackPlayer, timeControl);
+        _applyVariant(gameId, variant);
+    }
+
+    // Set up a non-standard start position and announce it
+    function _applyVariant(bytes32 gameId, uint8 variant) internal {
+        if (variant != VARIANT_CHESS960) return;
+
+        Game storage game = games[gameId];
+        game.variant = variant;
+        (game.startPosition, game.fen) = Chess960.startPosition(gameId);
+        emit VariantGameCreated(gameId, variant, game.startPosition);
     }
     
     function _recordBet(bytes32 gameId, address player, uint256 amount) internal {
@@ -848,17 +1086,26 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
 
     // Admin Functions
     function setHouseFeePercentage(uint256 _houseFeePercentage) external onlyOwner {
-        require(_houseFeePercentage <= 1000, "Fee too high"); // Max 10%
-        require(_houseFeePercentage >= 0, "Fee cannot be negative");
+        if (_houseFeePercentage > 1000) revert FeeTooHigh(); // Max 10%
         houseFeePercentage = _houseFeePercentage;
         emit HouseFeePercentageUpdated(_houseFeePercentage);
     }
 
+    function setSettlementPolicy(uint8 market, SettlementPolicy calldata policy) external onlyOwner {
+        if (market > MARKET_SPECTATOR) revert InvalidMarket();
+        if (market == MARKET_PLAYER) {
+            playerSettlementPolicy = policy;
+        } else {
+            spectatorSettlementPolicy = policy;
+        }
+        emit SettlementPolicyUpdated(market, policy.refundOnDraw, policy.feeOnDraw, policy.refundWhenNoWinners);
+    }
+
     function setBettingTierAmounts(uint256 _lowTierAmount, uint256 _mediumTierAmount) external onlyOwner {
-        require(_lowTierAmount > 0, "Low tier amount must be positive");
-        require(_mediumTierAmount > _lowTierAmount, "Medium tier must be higher than low tier");
-        require(_lowTierAmount >= tickSize, "Low tier must be at least tick size");
-        require(_mediumTierAmount >= tickSize, "Medium tier must be at least tick size");
+        if (_lowTierAmount == 0) revert InvalidTierAmounts();
+        if (_mediumTierAmount <= _lowTierAmount) revert InvalidTierAmounts();
+        if (_lowTierAmount < orderbook.tickSize) revert InvalidTierAmounts();
+        if (_mediumTierAmount < orderbook.tickSize) revert InvalidTierAmounts();
         lowTierAmount = _lowTierAmount;
         mediumTierAmount = _mediumTierAmount;
         emit BettingTierAmountsUpdated(_lowTierAmount, _mediumTierAmount);
@@ -877,29 +1124,12 @@ contract ChessBet is ReentrancyGuard, Ownable, Pausable {
 
     function pauseGame(bytes32 gameId) external onlyOwner gameExists(gameId) {
         Game storage g = games[gameId];
-        require(g.status != 2, "Already finished");
+        if (g.status == 2) revert GameAlreadyFinished();
         g.status = 2;
 
-        GameBet[] storage bets = gameBets[gameId];
-        if (bets.length == 2) {
-            _resolveBets(gameId, RESULT_DRAW); // Force draw/refund
-        } else {
-            // Refund any existing bets without the "exactly 2" requirement
-            for (uint256 i = 0; i < bets.length; i++) {
-                if (bets[i].status == 0) {
-                    bets[i].status = 3; // refunded
-                    bets[i].payout = bets[i].amount;
-                    bets[i].resolvedAt = block.timestamp;
-                    pendingPayouts[bets[i].player] += bets[i].amount;
-                    emit BetResolved(gameId, bets[i].player, bets[i].amount, bets[i].amount, RESULT_DRAW);
-                }
-            }
-            BettingPool storage pool = bettingPools[gameId];
-            pool.resolved = true;
-            pool.winner = address(0);
-            pool.houseFee = 0; // keep semantics identical to draw/no-fee
-            emit GameResolved(gameId, address(0), RESULT_DRAW); // treat as draw-style resolution
-        }
+        // A paused game is refunded outright, whatever the draw policy says
+        _refundBets(gameId);
+        _refundSpectatorBets(gameId);
         
         // Set game/result trackers for consistency with _resolveBets
         g.result = RESULT_DRAW;
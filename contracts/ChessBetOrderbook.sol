@@ -0,0 +1,413 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+// Implemented by the contract that uses ChessBetOrderbook; the library calls it back
+// (on itself) to turn each fill into a game
+interface IOrderMatchHandler {
+    function settleOrderMatch(
+        address whitePlayer,
+        address blackPlayer,
+        uint256 amount,
+        uint256 timeControl,
+        uint8 variant
+    ) external;
+}
+
+// Unlimited-tier orderbook. Deployed on its own and linked into ChessBet, which
+// would otherwise be over the 24KB contract size limit.
+library ChessBetOrderbook {
+    using SafeERC20 for IERC20;
+
+    // Order time-in-force
+    uint8 internal constant TIF_GTC = 0; // good-til-cancelled
+    uint8 internal constant TIF_IOC = 1; // immediate-or-cancel: the unfilled part is killed
+    uint8 internal constant TIF_FOK = 2; // fill-or-kill: fills completely or is killed untouched
+    uint8 internal constant TIF_GTT = 3; // good-til-time: expires at expiresAt
+
+    // Order self-trade prevention, applied when an order meets its owner's resting order
+    uint8 internal constant STP_CANCEL_NEWEST = 0; // cancel the incoming order
+    uint8 internal constant STP_CANCEL_OLDEST = 1; // cancel the resting order and keep matching
+    uint8 internal constant STP_CANCEL_BOTH = 2;
+
+    // Order statuses set when an order leaves the book unfilled
+    uint8 internal constant ORDER_CANCELLED = 3;
+    uint8 internal constant ORDER_EXPIRED = 4;
+    uint8 internal constant ORDER_KILLED = 5;
+
+    struct Order {
+        bytes32 id;
+        address player;
+        uint8 side; // 0 = white, 1 = black
+        uint256 amount;
+        uint256 tickAmount; // quantized amount
+        uint256 timeControl; // encoded time control
+        uint256 createdAt;
+        uint256 filledAmount;
+        uint8 status; // 0 = open, 1 = partially_filled, 2 = filled, 3 = cancelled, 4 = expired, 5 = killed
+        uint8 variant; // 0 = standard, 1 = chess960
+        uint8 timeInForce; // 0 = GTC, 1 = IOC, 2 = FOK, 3 = GTT
+        uint256 expiresAt; // GTT only
+        uint8 selfTradePrevention; // 0 = cancel newest, 1 = cancel oldest, 2 = cancel both
+    }
+
+    struct OrderOptions {
+        uint8 timeInForce;
+        uint256 expiresAt; // required for good-til-time orders, 0 otherwise
+        uint8 selfTradePrevention;
+    }
+
+    struct OrderbookLevel {
+        uint256 tickAmount;
+        bytes32[] orderIds; // queue (not strictly FIFO; gas-optimized swap-pop removal)
+        uint256 totalAmount; // stored in token units (not tick amounts)
+    }
+
+    struct Book {
+        mapping(bytes32 => Order) orders;
+        mapping(uint256 => mapping(uint8 => mapping(uint256 => OrderbookLevel))) levels; // bookKey => side => tickAmount => level (bookKey = timeControl for standard)
+        mapping(address => bytes32[]) playerOrders;
+        uint256 tickSize; // in token units
+        uint256 tolerancePercentage; // for nearest-level matching
+    }
+
+    event OrderClosed(bytes32 indexed orderId, uint8 status, uint256 refund);
+
+    // Place an order for msg.sender, take its tokens and match it against the book
+    function placeOrder(
+        Book storage book,
+        mapping(address => uint256) storage pendingPayouts,
+        IERC20 token,
+        uint8 side,
+        uint256 timeControl,
+        uint256 amount,
+        uint8 variant,
+        OrderOptions memory options
+    ) external returns (bytes32 orderId) {
+        orderId = _createOrder(book, side, timeControl, amount, variant, options);
+        Order storage order = book.orders[orderId];
+        if (order.status == ORDER_KILLED) return orderId;
+
+        // Transfer USDC tokens from player to contract
+        token.safeTransferFrom(msg.sender, address(this), order.amount);
+
+        // Add to orderbook level
+        OrderbookLevel storage level = book.levels[bookKey(timeControl, variant)][side][order.tickAmount];
+        if (level.tickAmount == 0) {
+            level.tickAmount = order.tickAmount;
+        }
+        level.orderIds.push(orderId);
+        level.totalAmount += order.amount;
+
+        // Try to match immediately
+        _attemptMatch(book, pendingPayouts, orderId);
+
+        // Immediate-or-cancel orders don't rest; the unfilled part is killed and refunded.
+        // An order already cancelled by self-trade prevention has been refunded.
+        if (
+            order.status <= 1 && order.filledAmount < order.amount
+                && options.timeInForce != TIF_GTC && options.timeInForce != TIF_GTT
+        ) {
+            require(options.timeInForce == TIF_IOC, "Fill-or-kill order not filled");
+            token.safeTransfer(msg.sender, _closeOrder(book, orderId, ORDER_KILLED));
+        }
+    }
+
+    // Cancel one of msg.sender's live orders and refund its unfilled part
+    function cancelOrder(Book storage book, IERC20 token, bytes32 orderId) external {
+        Order storage order = book.orders[orderId];
+        require(order.player == msg.sender, "Not order owner");
+        require(order.status == 0 || order.status == 1, "Cannot cancel filled or cancelled order");
+
+        // Refund unfilled amount
+        uint256 refundAmount = _closeOrder(book, orderId, ORDER_CANCELLED);
+        if (refundAmount > 0) {
+            token.safeTransfer(msg.sender, refundAmount);
+        }
+    }
+
+    // Sweep expired good-til-time orders off the book.
+    // Unfilled amounts are credited to the owners' pending payouts.
+    function expireOrders(
+        Book storage book,
+        mapping(address => uint256) storage pendingPayouts,
+        bytes32[] calldata orderIds
+    ) external {
+        for (uint256 i = 0; i < orderIds.length; i++) {
+            Order storage order = book.orders[orderIds[i]];
+            if ((order.status == 0 || order.status == 1) && _isExpired(order)) {
+                pendingPayouts[order.player] += _closeOrder(book, orderIds[i], ORDER_EXPIRED);
+            }
+        }
+    }
+
+    // Each variant has its own book; standard (variant 0) keeps the plain time control key
+    function bookKey(uint256 timeControl, uint8 variant) internal pure returns (uint256) {
+        if (variant == 0) return timeControl;
+        return uint256(keccak256(abi.encodePacked(timeControl, variant)));
+    }
+
+    function quantize(Book storage book, uint256 amount) internal view returns (uint256) {
+        return (amount / book.tickSize) * book.tickSize;
+    }
+
+    // Validate and record a new order. A fill-or-kill order that can't fill
+    // completely is recorded as killed, before any tokens move.
+    function _createOrder(
+        Book storage book,
+        uint8 side,
+        uint256 timeControl,
+        uint256 amount,
+        uint8 variant,
+        OrderOptions memory options
+    ) private returns (bytes32 orderId) {
+        require(side <= 1, "Invalid side");
+        require(amount >= book.tickSize, "Amount below minimum tick size");
+        require(options.timeInForce <= TIF_GTT, "Invalid time in force");
+        require(
+            options.timeInForce == TIF_GTT ? options.expiresAt > block.timestamp : options.expiresAt == 0,
+            "Invalid expiry"
+        );
+        require(options.selfTradePrevention <= STP_CANCEL_BOTH, "Invalid self-trade prevention");
+
+        uint256 quantizedAmount = quantize(book, amount);
+        require(quantizedAmount > 0, "Amount too small after quantization");
+
+        orderId = keccak256(
+            abi.encodePacked(msg.sender, side, quantizedAmount, timeControl, variant, block.timestamp, block.number)
+        );
+
+        bool killed = options.timeInForce == TIF_FOK
+            && _fillableAmount(book, bookKey(timeControl, variant), side == 0 ? 1 : 0, quantizedAmount, options.selfTradePrevention)
+                < quantizedAmount;
+
+        book.orders[orderId] = Order({
+            id: orderId,
+            player: msg.sender,
+            side: side,
+            amount: quantizedAmount,
+            tickAmount: quantizedAmount,
+            timeControl: timeControl,
+            createdAt: block.timestamp,
+            filledAmount: 0,
+            status: killed ? ORDER_KILLED : 0, // open
+            variant: variant,
+            timeInForce: options.timeInForce,
+            expiresAt: options.expiresAt,
+            selfTradePrevention: options.selfTradePrevention
+        });
+
+        book.playerOrders[msg.sender].push(orderId);
+
+        if (killed) {
+            emit OrderClosed(orderId, ORDER_KILLED, 0);
+        }
+    }
+
+    // Take an order's unfilled part off its level; returns the amount to refund
+    function _closeOrder(Book storage book, bytes32 orderId, uint8 status) private returns (uint256 refund) {
+        Order storage order = book.orders[orderId];
+        order.status = status;
+
+        // Remove from orderbook level
+        OrderbookLevel storage level = book.levels[bookKey(order.timeControl, order.variant)][order.side][order.tickAmount];
+        for (uint256 i = 0; i < level.orderIds.length; i++) {
+            if (level.orderIds[i] == orderId) {
+                level.orderIds[i] = level.orderIds[level.orderIds.length - 1];
+                level.orderIds.pop();
+                break;
+            }
+        }
+        refund = order.amount - order.filledAmount;
+        level.totalAmount -= refund;
+
+        emit OrderClosed(orderId, status, refund);
+    }
+
+    function _isExpired(Order storage order) private view returns (bool) {
+        return order.timeInForce == TIF_GTT && block.timestamp >= order.expiresAt;
+    }
+
+    // Unfilled amount of live opposite orders within matching tolerance of a tick amount
+    function _fillableAmount(
+        Book storage book,
+        uint256 key,
+        uint8 oppositeSide,
+        uint256 tickAmount,
+        uint8 selfTradePrevention
+    ) private view returns (uint256 fillable) {
+        uint256 tickSize = book.tickSize;
+        uint256 toleranceAmount = (tickAmount * book.tolerancePercentage) / 100;
+        for (
+            uint256 tick = tickAmount - (toleranceAmount / tickSize) * tickSize;
+            tick <= tickAmount + toleranceAmount;
+            tick += tickSize
+        ) {
+            bytes32[] storage orderIds = book.levels[key][oppositeSide][tick].orderIds;
+            for (uint256 i = 0; i < orderIds.length; i++) {
+                Order storage resting = book.orders[orderIds[i]];
+                if (_isExpired(resting) || resting.filledAmount >= resting.amount) continue;
+                if (resting.player != msg.sender) {
+                    fillable += resting.amount - resting.filledAmount;
+                } else if (selfTradePrevention != STP_CANCEL_OLDEST) {
+                    return 0; // meeting our own order would cancel this one
+                }
+            }
+        }
+    }
+
+    function _attemptMatch(
+        Book storage book,
+        mapping(address => uint256) storage pendingPayouts,
+        bytes32 orderId
+    ) private {
+        Order storage order = book.orders[orderId];
+        if (order.status != 0) return; // Order not open
+
+        // Find opposite orders to match against
+        uint8 oppositeSide = order.side == 0 ? 1 : 0;
+
+        // Try exact level first
+        OrderbookLevel storage exactLevel = book.levels[bookKey(order.timeControl, order.variant)][oppositeSide][order.tickAmount];
+        if (exactLevel.totalAmount > 0) {
+            uint256 remainingBefore = order.amount - order.filledAmount;
+            _matchAtLevel(book, pendingPayouts, orderId, exactLevel, remainingBefore);
+        }
+
+        // Recompute remaining after exact match to avoid overfill
+        if (order.status == 0 || order.status == 1) {
+            uint256 remainingAfter = order.amount - order.filledAmount;
+            if (remainingAfter > 0) {
+                _matchNearestLevels(book, pendingPayouts, orderId, oppositeSide, remainingAfter);
+            }
+        }
+    }
+
+    function _matchAtLevel(
+        Book storage book,
+        mapping(address => uint256) storage pendingPayouts,
+        bytes32 orderId,
+        OrderbookLevel storage level,
+        uint256 maxAmount
+    ) private {
+        Order storage order = book.orders[orderId];
+        if (order.status > 1) return; // closed by self-trade prevention at an earlier level
+
+        // Clamp to the order's current remaining to be extra safe
+        uint256 orderRemaining = order.amount - order.filledAmount;
+        uint256 remainingAmount = maxAmount <= orderRemaining ? maxAmount : orderRemaining;
+
+        while (remainingAmount > 0 && level.orderIds.length > 0) {
+            bytes32 oppositeOrderId = level.orderIds[0];
+            Order storage oppositeOrder = book.orders[oppositeOrderId];
+
+            // Expired orders nobody has swept yet are closed instead of matched
+            if (_isExpired(oppositeOrder)) {
+                pendingPayouts[oppositeOrder.player] += _closeOrder(book, oppositeOrderId, ORDER_EXPIRED);
+                continue;
+            }
+
+            uint256 oppositeRemaining = oppositeOrder.amount - oppositeOrder.filledAmount;
+            uint256 matchAmount = remainingAmount < oppositeRemaining ? remainingAmount : oppositeRemaining;
+
+            // No-op guard
+            if (matchAmount == 0) {
+                // If opposite is fully filled but still at head, pop it
+                if (oppositeRemaining == 0) {
+                    oppositeOrder.status = 2; // filled
+                    level.orderIds[0] = level.orderIds[level.orderIds.length - 1];
+                    level.orderIds.pop();
+                    continue;
+                }
+                break;
+            }
+
+            // Self-trade prevention: never match a player against themselves
+            if (oppositeOrder.player == order.player) {
+                if (order.selfTradePrevention != STP_CANCEL_NEWEST) {
+                    pendingPayouts[oppositeOrder.player] += _closeOrder(book, oppositeOrderId, ORDER_CANCELLED);
+                }
+                if (order.selfTradePrevention != STP_CANCEL_OLDEST) {
+                    pendingPayouts[order.player] += _closeOrder(book, orderId, ORDER_CANCELLED);
+                    return;
+                }
+                continue;
+            }
+
+            // Create match
+            IOrderMatchHandler(address(this)).settleOrderMatch(
+                order.side == 0 ? order.player : oppositeOrder.player,
+                order.side == 1 ? order.player : oppositeOrder.player,
+                matchAmount,
+                order.timeControl,
+                order.variant
+            );
+
+            // Update fills
+            order.filledAmount += matchAmount;
+            oppositeOrder.filledAmount += matchAmount;
+            remainingAmount -= matchAmount;
+
+            // Update level
+            level.totalAmount -= matchAmount;
+
+            // Remove fully filled orders
+            if (oppositeOrder.filledAmount >= oppositeOrder.amount) {
+                oppositeOrder.status = 2; // filled
+                level.orderIds[0] = level.orderIds[level.orderIds.length - 1];
+                level.orderIds.pop();
+            }
+        }
+
+        // Update order status
+        if (order.filledAmount >= order.amount) {
+            order.status = 2; // filled
+        } else if (order.filledAmount > 0) {
+            order.status = 1; // partially filled
+        }
+    }
+
+    function _matchNearestLevels(
+        Book storage book,
+        mapping(address => uint256) storage pendingPayouts,
+        bytes32 orderId,
+        uint8 oppositeSide,
+        uint256 maxAmount
+    ) private {
+        Order storage order = book.orders[orderId];
+        uint256 tickSize = book.tickSize;
+        uint256 toleranceAmount = (order.tickAmount * book.tolerancePercentage) / 100;
+        uint256 minTick = order.tickAmount > toleranceAmount ? order.tickAmount - toleranceAmount : 0;
+        uint256 maxTick = order.tickAmount + toleranceAmount;
+        uint256 key = bookKey(order.timeControl, order.variant);
+
+        uint256 remainingAmount = maxAmount;
+
+        // Search for matches within tolerance, starting above exact level (exact already handled)
+        for (uint256 tick = order.tickAmount + tickSize; tick <= maxTick && remainingAmount > 0; tick += tickSize) {
+            OrderbookLevel storage level = book.levels[key][oppositeSide][tick];
+            if (level.orderIds.length > 0) {
+                _matchAtLevel(book, pendingPayouts, orderId, level, remainingAmount);
+                remainingAmount = order.amount - order.filledAmount;
+                if (remainingAmount == 0 || order.status > 1) break;
+            }
+        }
+
+        // If still not filled, search lower levels (with underflow protection)
+        if (order.tickAmount >= tickSize) {
+            uint256 tick = order.tickAmount - tickSize;
+            while (tick >= minTick && remainingAmount > 0) {
+                OrderbookLevel storage level = book.levels[key][oppositeSide][tick];
+                if (level.orderIds.length > 0) {
+                    _matchAtLevel(book, pendingPayouts, orderId, level, remainingAmount);
+                    remainingAmount = order.amount - order.filledAmount;
+                    if (remainingAmount == 0 || order.status > 1) break;
+                }
+                if (tick < tickSize) break; // prevent underflow
+                tick -= tickSize;
+            }
+        }
+    }
+}
@@ -0,0 +1,171 @@
+import { performance } from "perf_hooks";
+import { GameVariant } from "../src/lib/chess/ChessEngine";
+import { Order, OrderbookManager, TimeControl } from "../src/lib/orderbook/OrderbookManager";
+
+// Benchmark: fill the off-chain orderbook with tens of thousands of resting
+// orders across many time controls, then time lookups, matching and cancels.
+// A second phase builds one deep book with a level per order, to time adding
+// and dropping price levels. ORDERS, OPERATIONS and LEVELS override the default sizes.
+
+const RESTING_ORDERS = Number(process.env.ORDERS ?? 50000);
+const OPERATIONS = Number(process.env.OPERATIONS ?? 5000);
+const DEEP_LEVELS = Number(process.env.LEVELS ?? 50000);
+const DEEP_BOOK: TimeControl = { initial: 3600, increment: 0 }; // not used by the first phase
+const PLAYERS = 1000;
+const MAX_TICKS = 1000; // amounts from $10 to $10,000
+
+const TIME_CONTROLS: TimeControl[] = [
+  { initial: 60, increment: 0 },
+  { initial: 120, increment: 1 },
+  { initial: 180, increment: 0 },
+  { initial: 180, increment: 2 },
+  { initial: 300, increment: 0 },
+  { initial: 300, increment: 3 },
+  { initial: 600, increment: 0 },
+  { initial: 600, increment: 5 },
+  { initial: 900, increment: 10 },
+  { initial: 1800, increment: 0 },
+];
+const VARIANTS: GameVariant[] = ["standard", "chess960"];
+
+// Deterministic PRNG (mulberry32) so runs are comparable
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Time a batch of operations and print the rate
+function measure(label: string, count: number, run: (i: number) => void): void {
+  const start = performance.now();
+  for (let i = 0; i < count; i++) run(i);
+  const elapsed = performance.now() - start;
+
+  console.log(
+    `${label.padEnd(28)} ${count.toString().padStart(7)} ops  ${elapsed.toFixed(0).padStart(6)} ms  ` +
+      `${((elapsed * 1000) / count).toFixed(1).padStart(8)} µs/op`
+  );
+}
+
+async function main() {
+  const random = createRandom(42);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const orderbook = new OrderbookManager();
+  const tickSize = orderbook.getTickSize();
+  const randomAmount = () => BigInt(1 + Math.floor(random() * MAX_TICKS)) * tickSize;
+  const player = () => `0xplayer${Math.floor(random() * PLAYERS)}`;
+
+  console.log(
+    `📊 Orderbook benchmark: ${RESTING_ORDERS} resting orders over ` +
+      `${TIME_CONTROLS.length * VARIANTS.length} books, ${OPERATIONS} operations per phase\n`
+  );
+
+  // Resting white orders only, so nothing matches while the book fills
+  const resting: Order[] = [];
+  measure("place resting orders", RESTING_ORDERS, () => {
+    resting.push(orderbook.placeOrder(player(), "white", randomAmount(), pick(TIME_CONTROLS), pick(VARIANTS)));
+  });
+
+  measure("getOrder", OPERATIONS, () => {
+    orderbook.getOrder(pick(resting).id);
+  });
+
+  measure("getBestBidAsk", OPERATIONS, () => {
+    orderbook.getBestBidAsk(pick(TIME_CONTROLS), pick(VARIANTS));
+  });
+
+  measure("getOrderbookDepth", OPERATIONS, () => {
+    orderbook.getOrderbookDepth(pick(TIME_CONTROLS), pick(VARIANTS));
+  });
+
+  const incoming: Order[] = [];
+  let matched = 0;
+  measure("place matching orders", OPERATIONS, () => {
+    const order = orderbook.placeOrder(player(), "black", randomAmount(), pick(TIME_CONTROLS), pick(VARIANTS));
+    incoming.push(order);
+    if (order.filledAmount > 0n) matched++;
+  });
+
+  let cancelled = 0;
+  measure("cancelOrder", OPERATIONS, () => {
+    if (orderbook.cancelOrder(pick(resting).id)) cancelled++;
+  });
+
+  const placed = [...resting, ...incoming];
+
+  // Every level must hold exactly its live orders and their unfilled amounts
+  const expected = new Map<string, { totalAmount: bigint; orderCount: number }>();
+  const levelKey = (timeControl: TimeControl, variant: GameVariant, side: string, tickAmount: bigint) =>
+    `${timeControl.initial}-${timeControl.increment}-${variant}-${side}-${tickAmount}`;
+
+  placed.forEach(order => {
+    if (order.status !== "open" && order.status !== "partially_filled") return;
+    const key = levelKey(order.timeControl, order.variant, order.side, order.tickAmount);
+    const level = expected.get(key) ?? { totalAmount: 0n, orderCount: 0 };
+    level.totalAmount += order.amount - order.filledAmount;
+    level.orderCount++;
+    expected.set(key, level);
+  });
+
+  let levels = 0;
+  for (const timeControl of TIME_CONTROLS) {
+    for (const variant of VARIANTS) {
+      const depth = orderbook.getOrderbookDepth(timeControl, variant);
+      for (const side of ["white", "black"] as const) {
+        for (const level of depth[side]) {
+          const key = levelKey(timeControl, variant, side, level.tickAmount);
+          const want = expected.get(key);
+          if (!want || want.totalAmount !== level.totalAmount || want.orderCount !== level.orderCount) {
+            throw new Error(`Level ${key} is out of sync with its orders`);
+          }
+          levels++;
+        }
+      }
+    }
+  }
+
+  if (levels !== expected.size) {
+    throw new Error(`Expected ${expected.size} levels, found ${levels}`);
+  }
+
+  console.log(`\n✅ ${matched} orders matched, ${cancelled} cancelled, ${levels} levels checked against the orders\n`);
+
+  // Deep book: every order opens its own level, placed and cancelled in random order
+  const ticks = Array.from({ length: DEEP_LEVELS }, (_, i) => BigInt(i + 1));
+  for (let i = ticks.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [ticks[i], ticks[j]] = [ticks[j], ticks[i]];
+  }
+
+  const deep: Order[] = [];
+  measure("add level (deep book)", DEEP_LEVELS, i => {
+    deep.push(orderbook.placeOrder(player(), "white", ticks[i] * tickSize, DEEP_BOOK));
+  });
+
+  const deepLevels = orderbook.getOrderbookDepth(DEEP_BOOK).white.length;
+  if (deepLevels !== DEEP_LEVELS) {
+    throw new Error(`Expected ${DEEP_LEVELS} levels in the deep book, found ${deepLevels}`);
+  }
+
+  measure("getBestBidAsk (deep book)", OPERATIONS, () => {
+    orderbook.getBestBidAsk(DEEP_BOOK);
+  });
+
+  measure("drop level (deep book)", DEEP_LEVELS, i => {
+    orderbook.cancelOrder(deep[DEEP_LEVELS - 1 - i].id);
+  });
+
+  if (orderbook.getOrderbookDepth(DEEP_BOOK).white.length !== 0) {
+    throw new Error("Deep book still has levels after every order was cancelled");
+  }
+
+  console.log(`\n✅ ${DEEP_LEVELS} levels added to and dropped from one book`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
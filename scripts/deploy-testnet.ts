@@ -31,9 +31,26 @@ async function main() {
   const tokenAddress = await token.getAddress();
   console.log("✅ MockERC20 deployed to:", tokenAddress);
 
+  // Deploy the Chess960 and orderbook libraries ChessBet links against
+  console.log("\n📦 Deploying Chess960 library...");
+  const Chess960 = await ethers.getContractFactory("Chess960");
+  const chess960 = await Chess960.deploy();
+  await chess960.waitForDeployment();
+  const chess960Address = await chess960.getAddress();
+  console.log("✅ Chess960 deployed to:", chess960Address);
+
+  console.log("\n📦 Deploying ChessBetOrderbook library...");
+  const ChessBetOrderbook = await ethers.getContractFactory("ChessBetOrderbook");
+  const orderbook = await ChessBetOrderbook.deploy();
+  await orderbook.waitForDeployment();
+  const orderbookAddress = await orderbook.getAddress();
+  console.log("✅ ChessBetOrderbook deployed to:", orderbookAddress);
+
   // Deploy ChessBet
   console.log("\n📦 Deploying ChessBet...");
-  const ChessBet = await ethers.getContractFactory("ChessBet");
+  const ChessBet = await ethers.getContractFactory("ChessBet", {
+    libraries: { Chess960: chess960Address, ChessBetOrderbook: orderbookAddress },
+  });
   const chessBet = await ChessBet.deploy(tokenAddress);
   await chessBet.waitForDeployment();
   const contractAddress = await chessBet.getAddress();
@@ -134,6 +151,8 @@ BASESCAN_API_KEY=your_basescan_api_key
   console.log("\n🔗 Verification Commands:");
   console.log("npx hardhat verify --network base-sepolia", contractAddress, `"${tokenAddress}"`);
   console.log("npx hardhat verify --network base-sepolia", tokenAddress);
+  console.log("npx hardhat verify --network base-sepolia", chess960Address);
+  console.log("npx hardhat verify --network base-sepolia", orderbookAddress);
   
   console.log("\n📝 Next Steps:");
   console.log("1. Verify contracts on BaseScan");
@@ -13,8 +13,23 @@ async function main() {
   const tokenAddress = await mockToken.getAddress();
   console.log("Mock token deployed to:", tokenAddress);
 
+  // Deploy the Chess960 and orderbook libraries ChessBet links against
+  const Chess960 = await ethers.getContractFactory("Chess960");
+  const chess960 = await Chess960.deploy();
+  await chess960.waitForDeployment();
+  const chess960Address = await chess960.getAddress();
+  console.log("Chess960 library deployed to:", chess960Address);
+
+  const ChessBetOrderbook = await ethers.getContractFactory("ChessBetOrderbook");
+  const orderbook = await ChessBetOrderbook.deploy();
+  await orderbook.waitForDeployment();
+  const orderbookAddress = await orderbook.getAddress();
+  console.log("ChessBetOrderbook library deployed to:", orderbookAddress);
+
   // Deploy the main ChessBet contract
-  const ChessBet = await ethers.getContractFactory("ChessBet");
+  const ChessBet = await ethers.getContractFactory("ChessBet", {
+    libraries: { Chess960: chess960Address, ChessBetOrderbook: orderbookAddress },
+  });
   const chessBet = await ChessBet.deploy(tokenAddress);
   await chessBet.waitForDeployment();
 
@@ -0,0 +1,203 @@
+import hre from "hardhat";
+import { BetSide, BettingEngine, HOUSE_ACCOUNT } from "../src/lib/betting/BettingEngine";
+import {
+  PLAYER_SETTLEMENT_POLICY,
+  SPECTATOR_SETTLEMENT_POLICY,
+  SettlementPolicy,
+} from "../src/lib/betting/SettlementPolicy";
+const { ethers } = hre;
+
+// Differential test: settle the same games on ChessBet and in the off-chain
+// BettingEngine under each policy combination and compare every credit.
+
+const USDC = 10n ** 6n;
+const HOUSE_FEE_BPS = 500;
+const SIDE_IDS: Record<BetSide, number> = { white: 0, black: 1, draw: 2 };
+
+interface PolicyCase {
+  name: string;
+  player: SettlementPolicy;
+  spectator: SettlementPolicy;
+}
+
+interface StakeSet {
+  name: string;
+  whiteStake: bigint;
+  blackStake: bigint;
+  spectators: { side: BetSide; amount: bigint }[]; // bettor i is spectator signer i
+}
+
+const POLICY_CASES: PolicyCase[] = [
+  { name: "defaults", player: PLAYER_SETTLEMENT_POLICY, spectator: SPECTATOR_SETTLEMENT_POLICY },
+  {
+    name: "fee on drawn refunds",
+    player: { refundOnDraw: true, feeOnDraw: true, refundWhenNoWinners: true },
+    spectator: { refundOnDraw: true, feeOnDraw: true, refundWhenNoWinners: true },
+  },
+  {
+    name: "house keeps unbacked pools",
+    player: { refundOnDraw: false, feeOnDraw: true, refundWhenNoWinners: false },
+    spectator: { refundOnDraw: false, feeOnDraw: true, refundWhenNoWinners: false },
+  },
+  {
+    name: "fee-free draws",
+    player: { refundOnDraw: false, feeOnDraw: false, refundWhenNoWinners: true },
+    spectator: { refundOnDraw: false, feeOnDraw: false, refundWhenNoWinners: true },
+  },
+];
+
+// Odd amounts so pro-rata splits leave dust
+const STAKE_SETS: StakeSet[] = [
+  {
+    name: "every side backed",
+    whiteStake: 7n * USDC + 3n,
+    blackStake: 11n * USDC + 1n,
+    spectators: [
+      { side: "white", amount: 3n * USDC + 1n },
+      { side: "white", amount: 5n * USDC + 2n },
+      { side: "black", amount: 7n * USDC },
+      { side: "draw", amount: 2n * USDC + 7n },
+    ],
+  },
+  {
+    name: "nobody backs the draw",
+    whiteStake: 5n * USDC,
+    blackStake: 5n * USDC,
+    spectators: [
+      { side: "white", amount: 13n * USDC + 5n },
+      { side: "black", amount: 1n * USDC + 9n },
+    ],
+  },
+];
+
+const RESULTS: BetSide[] = ["white", "black", "draw"];
+
+async function main() {
+  console.log("🧪 Settlement Policy Differential Test\n");
+
+  const [deployer, white, black, ...spectators] = await ethers.getSigners();
+
+  const MockERC20 = await ethers.getContractFactory("MockERC20");
+  const token = await MockERC20.deploy("Test USDC", "tUSDC", 0);
+  await token.waitForDeployment();
+
+  const chess960 = await (await ethers.getContractFactory("Chess960")).deploy();
+  await chess960.waitForDeployment();
+  const orderbook = await (await ethers.getContractFactory("ChessBetOrderbook")).deploy();
+  await orderbook.waitForDeployment();
+
+  const ChessBet = await ethers.getContractFactory("ChessBet", {
+    libraries: { Chess960: await chess960.getAddress(), ChessBetOrderbook: await orderbook.getAddress() },
+  });
+  const chessBet = await ChessBet.deploy(await token.getAddress());
+  await chessBet.waitForDeployment();
+  const chessBetAddress = await chessBet.getAddress();
+
+  for (const signer of [white, black, ...spectators.slice(0, 4)]) {
+    await token.mint(signer.address, 100000n * USDC);
+    await token.connect(signer).approve(chessBetAddress, ethers.MaxUint256);
+  }
+
+  console.log("✅ Deployed ChessBet and funded players and spectators\n");
+
+  let failures = 0;
+  let scenarios = 0;
+
+  for (const policyCase of POLICY_CASES) {
+    await chessBet.connect(deployer).setSettlementPolicy(0, policyCase.player);
+    await chessBet.connect(deployer).setSettlementPolicy(1, policyCase.spectator);
+
+    for (const stakes of STAKE_SETS) {
+      for (const result of RESULTS) {
+        scenarios++;
+        const name = `${policyCase.name} / ${stakes.name} / ${result}`;
+        const accounts = [white, black, ...spectators.slice(0, stakes.spectators.length)];
+
+        // On-chain
+        const createTx = await chessBet.connect(white).createGame(black.address, 0, 2); // unlimited tier
+        const receipt = await createTx.wait();
+        const created = receipt?.logs
+          .map(log => {
+            try {
+              return chessBet.interface.parseLog(log);
+            } catch {
+              return null;
+            }
+          })
+          .find(parsed => parsed?.name === "GameCreated");
+        const gameId = created?.args.gameId;
+
+        await chessBet.connect(white).placeBet(gameId, stakes.whiteStake);
+        await chessBet.connect(black).placeBet(gameId, stakes.blackStake);
+        for (const [i, bet] of stakes.spectators.entries()) {
+          await chessBet.connect(spectators[i]).placeSpectatorBet(gameId, SIDE_IDS[bet.side], bet.amount);
+        }
+
+        const payoutsBefore: bigint[] = await Promise.all(
+          accounts.map(account => chessBet.pendingPayouts(account.address))
+        );
+        const feesBefore: bigint = await chessBet.tokenFeeBalance();
+
+        if (result === "white") {
+          await chessBet.connect(black).resign(gameId);
+        } else if (result === "black") {
+          await chessBet.connect(white).resign(gameId);
+        } else {
+          await chessBet.connect(white).offerDraw(gameId);
+          await chessBet.connect(black).acceptDraw(gameId);
+        }
+
+        const onChain = new Map<string, bigint>();
+        for (const [i, account] of accounts.entries()) {
+          const payout: bigint = await chessBet.pendingPayouts(account.address);
+          onChain.set(account.address, payout - payoutsBefore[i]);
+        }
+        const fees: bigint = await chessBet.tokenFeeBalance();
+        onChain.set(HOUSE_ACCOUNT, fees - feesBefore);
+
+        // Off-chain
+        const engine = new BettingEngine(HOUSE_FEE_BPS);
+        engine.setSettlementPolicy("player", policyCase.player);
+        engine.setSettlementPolicy("spectator", policyCase.spectator);
+        engine.createBettingPool(gameId);
+        engine.createSpectatorPool(gameId);
+        engine.placeBet(gameId, white.address, "white", stakes.whiteStake);
+        engine.placeBet(gameId, black.address, "black", stakes.blackStake);
+        stakes.spectators.forEach((bet, i) => {
+          engine.placeSpectatorBet(gameId, spectators[i].address, bet.side, bet.amount);
+        });
+        engine.resolveBets(gameId, result);
+
+        const offChain = new Map<string, bigint>(
+          [...accounts.map(account => account.address), HOUSE_ACCOUNT].map(account => [account, 0n])
+        );
+        engine.getLedgerEntries(gameId).forEach(entry => {
+          offChain.set(entry.account, (offChain.get(entry.account) ?? 0n) + entry.amount);
+        });
+
+        const mismatches = [...onChain.entries()].filter(([account, amount]) => offChain.get(account) !== amount);
+        if (mismatches.length === 0) {
+          console.log(`✅ ${name}`);
+        } else {
+          failures++;
+          console.log(`❌ ${name}`);
+          mismatches.forEach(([account, amount]) => {
+            console.log(`   ${account}: contract ${amount}, engine ${offChain.get(account)}`);
+          });
+        }
+      }
+    }
+  }
+
+  console.log(`\n📊 ${scenarios - failures}/${scenarios} scenarios settled identically`);
+  if (failures > 0) {
+    throw new Error(`${failures} scenario(s) settled differently on-chain and off-chain`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Test failed:", error);
+    process.exit(1);
+  });
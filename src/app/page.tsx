@@ -4,6 +4,8 @@ import { useState, useEffect } from "react";
 import { useAccount, useConnect, useDisconnect } from "wagmi";
 import { GameModeSelectionReal } from "@/components/GameModeSelectionReal";
 import { ChessGameReal } from "@/components/ChessGameReal";
+import { PracticeGame } from "@/components/PracticeGame";
+import { PracticeSettings } from "@/lib/chess/ChessBot";
 
 export default function Home() {
   const { address, isConnected } = useAccount();
@@ -11,6 +13,7 @@ export default function Home() {
   const { disconnect } = useDisconnect();
   const [selectedMode, setSelectedMode] = useState<string | null>(null);
   const [betAmount, setBetAmount] = useState<number>(0);
+  const [practiceSettings, setPracticeSettings] = useState<PracticeSettings | null>(null);
   const [isHydrated, setIsHydrated] = useState(false);
 
   // Fix hydration mismatch
@@ -86,6 +89,14 @@ export default function Home() {
               </button>
             </div>
           </div>
+        ) : selectedMode === "practice" && practiceSettings ? (
+          <PracticeGame
+            settings={practiceSettings}
+            onBack={() => {
+              setSelectedMode(null);
+              setPracticeSettings(null);
+            }}
+          />
         ) : selectedMode ? (
           <ChessGameReal 
             mode={selectedMode}
@@ -97,9 +108,10 @@ export default function Home() {
             onGameUpdate={() => {}}
           />
         ) : (
-          <GameModeSelectionReal onSelectMode={(mode, amount) => {
+          <GameModeSelectionReal onSelectMode={(mode, amount, practice) => {
             setSelectedMode(mode);
             setBetAmount(amount);
+            setPracticeSettings(practice ?? null);
           }} />
         )}
       </main>
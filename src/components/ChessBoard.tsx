@@ -1,7 +1,7 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { ChessEngine } from "@/lib/chess/ChessEngine";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { ChessEngine, GameVariant, describeTermination } from "@/lib/chess/ChessEngine";
 import { useNotifications } from "@/contexts/NotificationContext";
 import { MoveHistory } from "./MoveHistory";
 
@@ -11,6 +11,9 @@ interface Game {
   moves?: string[];
   isGameOver?: boolean;
   result?: string;
+  termination?: string;
+  variant?: GameVariant;
+  startFen?: string;
   status?: string;
   whitePlayer?: string;
   blackPlayer?: string;
@@ -26,13 +29,27 @@ interface ChessBoardProps {
   onGameUpdate: (game: Game) => void;
   onMakeMove?: (move: string) => void;
   onSubmitResult?: (result: number) => void;
+  playerColor?: "w" | "b"; // Side this board plays; omit for a local two-player board
 }
 
-export function ChessBoard({ game, onGameUpdate, onMakeMove, onSubmitResult }: ChessBoardProps) {
+interface Premove {
+  from: string;
+  to: string;
+}
+
+// Build a coordinate move, promoting pawns that reach the last rank to a queen
+function toCoordinateMove(board: (string | null)[][], from: string, to: string): string {
+  const piece = board[8 - parseInt(from[1])]?.[from.charCodeAt(0) - 97];
+  const isPromotion = piece?.[1] === "p" && (to[1] === "8" || to[1] === "1");
+  return `${from}${to}${isPromotion ? "q" : ""}`;
+}
+
+export function ChessBoard({ game, onGameUpdate, onMakeMove, onSubmitResult, playerColor }: ChessBoardProps) {
   const [chess, setChess] = useState<ChessEngine | null>(null);
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [board, setBoard] = useState<(string | null)[][]>([]);
   const [currentMoveIndex, setCurrentMoveIndex] = useState<number>(-1);
+  const [premoves, setPremoves] = useState<Premove[]>([]);
   const { addNotification } = useNotifications();
 
   useEffect(() => {
@@ -41,6 +58,73 @@ export function ChessBoard({ game, onGameUpdate, onMakeMove, onSubmitResult }: C
     setBoard(engine.getBoard());
   }, []);
 
+  // Pick up moves that arrive from the opponent
+  useEffect(() => {
+    if (!chess || !game?.moves) return;
+    if (game.moves.length <= chess.getMoves().length) return;
+
+    const synced = ChessEngine.fromMoves(game.moves, game.startFen, game.variant);
+    if (!synced) return;
+
+    setChess(synced);
+    setBoard(synced.getBoard());
+    setCurrentMoveIndex(synced.getMoves().length - 1);
+  }, [chess, game?.moves, game?.startFen, game?.variant]);
+
+  // Play a legal move on the board and report it
+  const playMove = useCallback((move: string) => {
+    if (!chess || !chess.makeMove(move)) return false;
+
+    setBoard(chess.getBoard());
+    setCurrentMoveIndex(chess.getMoves().length - 1);
+
+    // Submit move to contract if callback provided
+    if (onMakeMove) {
+      onMakeMove(move);
+    }
+
+    // Update game state
+    if (onGameUpdate) {
+      onGameUpdate({
+        ...game,
+        fen: chess.getFen(),
+        pgn: chess.getPgn(),
+        moves: chess.getMoves(),
+        isGameOver: chess.isGameOver(),
+        result: chess.getGameResult() || undefined,
+        termination: chess.getTerminationReason() || undefined
+      });
+    }
+    return true;
+  }, [chess, game, onMakeMove, onGameUpdate]);
+
+  // Once it is our turn again, play the first queued premove or drop the queue if it became illegal
+  useEffect(() => {
+    if (!chess || !playerColor || premoves.length === 0) return;
+    if (chess.getTurn() !== playerColor) return;
+
+    if (chess.isGameOver()) {
+      setPremoves([]);
+      return;
+    }
+
+    const [next, ...rest] = premoves;
+    const move = toCoordinateMove(board, next.from, next.to);
+
+    if (chess.isLegalMove(move)) {
+      setPremoves(rest);
+      playMove(move);
+    } else {
+      // Later premoves were planned around this one, so drop them all
+      setPremoves([]);
+      addNotification({
+        message: `Premove ${next.from}-${next.to} is no longer legal and was cancelled.`,
+        type: "info",
+        duration: 3000
+      });
+    }
+  }, [chess, board, playerColor, premoves, playMove, addNotification]);
+
   // Watch for game over state changes
   useEffect(() => {
     if (chess && chess.isGameOver()) {
@@ -67,6 +151,58 @@ export function ChessBoard({ game, onGameUpdate, onMakeMove, onSubmitResult }: C
     }
   }, [chess, addNotification]);
 
+  const liveMoveIndex = chess ? chess.getMoves().length - 1 : -1;
+  const isViewingHistory = currentMoveIndex < liveMoveIndex;
+
+  // Board for the position being viewed, rebuilt from the move list when looking at an earlier move
+  const displayBoard = useMemo(() => {
+    if (!chess || !isViewingHistory) return board;
+
+    const replay = ChessEngine.fromMoves(
+      chess.getMoves().slice(0, currentMoveIndex + 1),
+      chess.getStartFen(),
+      chess.getVariant()
+    );
+    return replay ? replay.getBoard() : board;
+  }, [chess, board, currentMoveIndex, isViewingHistory]);
+
+  // Jump to the position after a given move (-1 = start position)
+  const goToMove = useCallback((index: number) => {
+    setSelectedSquare(null);
+    setCurrentMoveIndex(Math.max(-1, Math.min(index, liveMoveIndex)));
+  }, [liveMoveIndex]);
+
+  // Arrow-key navigation through the game
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return;
+
+      switch (event.key) {
+        case "ArrowLeft":
+          goToMove(currentMoveIndex - 1);
+          break;
+        case "ArrowRight":
+          goToMove(currentMoveIndex + 1);
+          break;
+        case "ArrowUp":
+        case "Home":
+          goToMove(-1);
+          break;
+        case "ArrowDown":
+        case "End":
+          goToMove(liveMoveIndex);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [goToMove, currentMoveIndex, liveMoveIndex]);
+
   const getPieceSymbol = (piece: string | null) => {
     if (!piece) return "";
     
@@ -85,18 +221,41 @@ export function ChessBoard({ game, onGameUpdate, onMakeMove, onSubmitResult }: C
   const handleSquareClick = (row: number, col: number) => {
     if (!chess) return;
     
+    // The board is read-only while looking at an earlier position
+    if (isViewingHistory) {
+      addNotification({
+        message: "You are viewing an earlier position. Return to the live position to move.",
+        type: "info",
+        duration: 2000
+      });
+      return;
+    }
+    
     const square = String.fromCharCode(97 + col) + (8 - row);
+    const isPremoving = !!playerColor && chess.getTurn() !== playerColor && !chess.isGameOver();
     
     if (selectedSquare) {
+      // Queue a premove while the opponent is thinking; legality is checked when it is played
+      if (isPremoving) {
+        setSelectedSquare(null);
+        if (selectedSquare === square) return;
+
+        setPremoves(queued => [...queued, { from: selectedSquare, to: square }]);
+        addNotification({
+          message: `Premove ${selectedSquare}-${square} queued.`,
+          type: "info",
+          duration: 2000
+        });
+        return;
+      }
+
       // Try to make a move
-      const move = selectedSquare + square;
+      const move = toCoordinateMove(board, selectedSquare, square);
       
       // Check if move is legal before attempting
       if (chess.isLegalMove(move)) {
-        if (chess.makeMove(move)) {
-          setBoard(chess.getBoard());
+        if (playMove(move)) {
           setSelectedSquare(null);
-          setCurrentMoveIndex(chess.getMoves().length - 1);
           
           // Show success notification for valid move
           addNotification({
@@ -104,23 +263,6 @@ export function ChessBoard({ game, onGameUpdate, onMakeMove, onSubmitResult }: C
             type: "success",
             duration: 2000
           });
-          
-          // Submit move to contract if callback provided
-          if (onMakeMove) {
-            onMakeMove(move);
-          }
-          
-          // Update game state
-          if (onGameUpdate) {
-            onGameUpdate({
-              ...game,
-              fen: chess.getFen(),
-              pgn: chess.getPgn(),
-              moves: chess.getMoves(),
-              isGameOver: chess.isGameOver(),
-              result: chess.getGameResult() || undefined
-            });
-          }
         }
       } else {
         // Show gentle reminder for invalid move
@@ -135,6 +277,18 @@ export function ChessBoard({ game, onGameUpdate, onMakeMove, onSubmitResult }: C
         
         setSelectedSquare(null);
       }
+    } else if (isPremoving) {
+      // Premoves may start from our own pieces or from a square an earlier premove lands on
+      const piece = board[row][col];
+      if (piece?.[0] === playerColor || premoves.some(premove => premove.to === square)) {
+        setSelectedSquare(square);
+      } else {
+        addNotification({
+          message: "Select one of your pieces to queue a premove.",
+          type: "info",
+          duration: 2000
+        });
+      }
     } else {
       // Select a piece
       const piece = board[row][col];
@@ -143,7 +297,7 @@ export function ChessBoard({ game, onGameUpdate, onMakeMove, onSubmitResult }: C
         const pieceColor = piece[0]; // 'w' or 'b'
         const currentTurn = chess.getTurn();
         
-        if (pieceColor === currentTurn) {
+        if (pieceColor === currentTurn && (!playerColor || pieceColor === playerColor)) {
           setSelectedSquare(square);
           
           // Show info about selected piece
@@ -195,7 +349,7 @@ export function ChessBoard({ game, onGameUpdate, onMakeMove, onSubmitResult }: C
         {/* Chess Board */}
         <div className="lg:col-span-2">
           <div className="grid grid-cols-8 gap-0 border-2 border-slate-600 rounded-lg overflow-hidden max-w-lg mx-auto">
-            {board.map((row, rowIndex) =>
+            {displayBoard.map((row, rowIndex) =>
               row.map((piece, colIndex) => (
                 <div
                   key={`${rowIndex}-${colIndex}`}
@@ -204,7 +358,11 @@ export function ChessBoard({ game, onGameUpdate, onMakeMove, onSubmitResult }: C
                     ${getSquareColor(rowIndex, colIndex)}
                     ${selectedSquare === String.fromCharCode(97 + colIndex) + (8 - rowIndex) 
                       ? "ring-2 ring-blue-500 ring-inset" 
-                      : "hover:bg-slate-200/20"
+                      : premoves.some(premove => 
+                          premove.from === String.fromCharCode(97 + colIndex) + (8 - rowIndex) ||
+                          premove.to === String.fromCharCode(97 + colIndex) + (8 - rowIndex))
+                        ? "ring-2 ring-amber-400 ring-inset"
+                        : "hover:bg-slate-200/20"
                     }
                   `}
                   onClick={() => handleSquareClick(rowIndex, colIndex)}
@@ -215,14 +373,65 @@ export function ChessBoard({ game, onGameUpdate, onMakeMove, onSubmitResult }: C
             )}
           </div>
 
+          {/* Replay Controls */}
+          <div className="mt-4 flex items-center justify-center space-x-2">
+            <button
+              onClick={() => goToMove(-1)}
+              disabled={currentMoveIndex === -1}
+              className="px-3 py-1 bg-slate-700 text-white text-sm rounded hover:bg-slate-600 disabled:opacity-40"
+              aria-label="First move"
+            >
+              ⏮
+            </button>
+            <button
+              onClick={() => goToMove(currentMoveIndex - 1)}
+              disabled={currentMoveIndex === -1}
+              className="px-3 py-1 bg-slate-700 text-white text-sm rounded hover:bg-slate-600 disabled:opacity-40"
+              aria-label="Previous move"
+            >
+              ◀
+            </button>
+            <button
+              onClick={() => goToMove(currentMoveIndex + 1)}
+              disabled={!isViewingHistory}
+              className="px-3 py-1 bg-slate-700 text-white text-sm rounded hover:bg-slate-600 disabled:opacity-40"
+              aria-label="Next move"
+            >
+              ▶
+            </button>
+            <button
+              onClick={() => goToMove(liveMoveIndex)}
+              disabled={!isViewingHistory}
+              className="px-3 py-1 bg-slate-700 text-white text-sm rounded hover:bg-slate-600 disabled:opacity-40"
+              aria-label="Last move"
+            >
+              ⏭
+            </button>
+          </div>
+          {isViewingHistory && (
+            <div className="mt-2 text-center text-amber-400 text-xs">
+              Viewing move {currentMoveIndex + 1} of {liveMoveIndex + 1} (read-only)
+            </div>
+          )}
+
           {/* Game Info */}
           <div className="mt-4 text-center text-white/70 text-sm">
             <div>Turn: {chess.getTurn() === "w" ? "White" : "Black"}</div>
             <div>Moves: {chess.getMoves().length}</div>
+            {premoves.length > 0 && (
+              <div className="mt-2 text-amber-400">
+                Premoves: {premoves.map(premove => `${premove.from}-${premove.to}`).join(", ")}
+                <button
+                  onClick={() => setPremoves([])}
+                  className="ml-2 px-2 py-0.5 bg-slate-700 text-white text-xs rounded hover:bg-slate-600"
+                >
+                  Clear
+                </button>
+              </div>
+            )}
             {chess.isGameOver() && (
               <div className="text-green-400 font-semibold">
-                Game Over: {chess.getGameResult() === "white" ? "White Wins" : 
-                           chess.getGameResult() === "black" ? "Black Wins" : "Draw"}
+                Game Over: {describeTermination(chess.getGameResult(), chess.getTerminationReason())}
               </div>
             )}
             
@@ -260,6 +469,7 @@ export function ChessBoard({ game, onGameUpdate, onMakeMove, onSubmitResult }: C
           <MoveHistory 
             moves={chess.getMoves()} 
             currentMoveIndex={currentMoveIndex}
+            onSelectMove={goToMove}
           />
         </div>
       </div>
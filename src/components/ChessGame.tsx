@@ -21,6 +21,7 @@ interface Game {
   moves?: string[];
   isGameOver?: boolean;
   result?: string;
+  termination?: string;
 }
 
 interface ChessGameProps {
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from "react";
 import { useAccount, useChainId } from "wagmi";
 import { ChessBoard } from "./ChessBoard";
 import { GameStatus } from "./GameStatus";
+import { SpectatorBetPanel } from "./SpectatorBetPanel";
 import { 
   useChessBetContract, 
   useGame, 
@@ -34,6 +35,7 @@ interface Game {
   moves?: string[];
   isGameOver?: boolean;
   result?: string;
+  termination?: string;
 }
 
 interface ChessGameProps {
@@ -344,6 +346,7 @@ export function ChessGameReal({ mode, betAmount, onBack, onGameUpdate }: ChessGa
               onGameUpdate={onGameUpdate}
               onMakeMove={handleMakeMove}
               onSubmitResult={handleSubmitResult}
+              playerColor={currentGame?.blackPlayer?.toLowerCase() === address?.toLowerCase() ? "b" : "w"}
             />
           </div>
         </div>
@@ -387,6 +390,17 @@ export function ChessGameReal({ mode, betAmount, onBack, onGameUpdate }: ChessGa
             </div>
           </div>
 
+          {/* Spectator Betting */}
+          {gameId && (
+            <SpectatorBetPanel
+              gameId={gameId}
+              whitePlayer={currentGame?.whitePlayer}
+              blackPlayer={currentGame?.blackPlayer}
+              isLive={gameState === 'playing'}
+              movesPlayed={currentGame?.moves?.length ?? 0}
+            />
+          )}
+
           {/* Actions */}
           {gameState === 'finished' && (
             <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl border border-slate-700/50 p-6">
@@ -2,9 +2,11 @@
 
 import { useState } from "react";
 import { useAccount } from "wagmi";
+import { PracticeSettings } from "@/lib/chess/ChessBot";
+import { PracticeSetup } from "./PracticeSetup";
 
 interface GameModeSelectionProps {
-  onSelectMode: (mode: string, betAmount: number) => void;
+  onSelectMode: (mode: string, betAmount: number, practice?: PracticeSettings) => void;
 }
 
 export function GameModeSelection({ onSelectMode }: GameModeSelectionProps) {
@@ -39,11 +41,20 @@ export function GameModeSelection({ onSelectMode }: GameModeSelectionProps) {
       description: "Orderbook matching",
       color: "purple",
       icon: "🟣"
+    },
+    {
+      id: "practice",
+      name: "Practice vs Bot",
+      amount: 0, // Nothing staked
+      displayAmount: "Free",
+      description: "Learn the board risk-free",
+      color: "slate",
+      icon: "🤖"
     }
   ];
 
   const handleModeSelect = (modeId: string) => {
-    if (modeId === "unlimited") {
+    if (modeId === "unlimited" || modeId === "practice") {
       setSelectedMode(modeId);
     } else {
       const mode = modes.find(m => m.id === modeId);
@@ -124,7 +135,7 @@ export function GameModeSelection({ onSelectMode }: GameModeSelectionProps) {
         </p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
         {modes.map((mode) => {
           const colors = getColorClasses(mode.color);
           
@@ -180,6 +191,13 @@ export function GameModeSelection({ onSelectMode }: GameModeSelectionProps) {
                       <div className="text-sm text-slate-300">• $10 tick increments</div>
                     </>
                   )}
+                  {mode.id === "practice" && (
+                    <>
+                      <div className="text-sm text-slate-300">• No tUSDC staked</div>
+                      <div className="text-sm text-slate-300">• Four bot strengths</div>
+                      <div className="text-sm text-slate-300">• Choose your time control</div>
+                    </>
+                  )}
                 </div>
 
                 {/* Select Button */}
@@ -190,7 +208,7 @@ export function GameModeSelection({ onSelectMode }: GameModeSelectionProps) {
                   `}
                   disabled={isPlacingBet}
                 >
-                  {isPlacingBet ? 'Placing Bet...' : `Bet ${mode.displayAmount}`}
+                  {mode.id === "practice" ? 'Practice' : isPlacingBet ? 'Placing Bet...' : `Bet ${mode.displayAmount}`}
                 </button>
               </div>
 
@@ -248,6 +266,14 @@ export function GameModeSelection({ onSelectMode }: GameModeSelectionProps) {
         </div>
       )}
 
+      {/* Bot Settings for Practice Mode */}
+      {selectedMode === "practice" && (
+        <PracticeSetup
+          onStart={(settings) => onSelectMode("practice", 0, settings)}
+          onCancel={() => setSelectedMode(null)}
+        />
+      )}
+
       {/* Info Section */}
       <div className="mt-16 text-center">
         <div className="bg-slate-800/50 rounded-2xl p-8 border border-slate-700/50">
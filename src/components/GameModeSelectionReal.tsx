@@ -4,9 +4,11 @@ import { useState, useEffect } from "react";
 import { useAccount, useChainId } from "wagmi";
 import { useBettingTierAmounts, usePlaceBet, useCreateGame, useChessBetContract, formatUSDC, parseUSDC } from "@/lib/contracts/ChessBetContract";
 import { useTokenBalance, useApproveToken, useTokenAllowance } from "@/lib/contracts/MockERC20Contract";
+import { PracticeSettings } from "@/lib/chess/ChessBot";
+import { PracticeSetup } from "./PracticeSetup";
 
 interface GameModeSelectionProps {
-  onSelectMode: (mode: string, betAmount: number) => void;
+  onSelectMode: (mode: string, betAmount: number, practice?: PracticeSettings) => void;
 }
 
 export function GameModeSelectionReal({ onSelectMode }: GameModeSelectionProps) {
@@ -59,6 +61,15 @@ export function GameModeSelectionReal({ onSelectMode }: GameModeSelectionProps)
       description: "Orderbook matching",
       color: "purple",
       icon: "🟣"
+    },
+    {
+      id: "practice",
+      name: "Practice vs Bot",
+      amount: 0, // Nothing staked
+      displayAmount: "Free",
+      description: "Learn the board risk-free",
+      color: "slate",
+      icon: "🤖"
     }
   ];
 
@@ -75,7 +86,7 @@ export function GameModeSelectionReal({ onSelectMode }: GameModeSelectionProps)
   }, [isConnected, isCorrectNetwork, isMainnet, isConfigured]);
 
   const handleModeSelect = async (modeId: string) => {
-    if (modeId === "unlimited") {
+    if (modeId === "unlimited" || modeId === "practice") {
       setSelectedMode(modeId);
     } else {
       const mode = modes.find(m => m.id === modeId);
@@ -217,10 +228,13 @@ export function GameModeSelectionReal({ onSelectMode }: GameModeSelectionProps)
         </p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
         {modes.map((mode) => {
           const colors = getColorClasses(mode.color);
-          const isDisabled = !isConnected || !isCorrectNetwork || !isConfigured || isPlacingBet;
+          // Practice games never touch the contract, so they only need a connected wallet
+          const isDisabled = mode.id === "practice"
+            ? !isConnected || isPlacingBet
+            : !isConnected || !isCorrectNetwork || !isConfigured || isPlacingBet;
           
           return (
             <div
@@ -275,6 +289,13 @@ export function GameModeSelectionReal({ onSelectMode }: GameModeSelectionProps)
                       <div className="text-sm text-slate-300">• $10 tick increments</div>
                     </>
                   )}
+                  {mode.id === "practice" && (
+                    <>
+                      <div className="text-sm text-slate-300">• No tUSDC staked</div>
+                      <div className="text-sm text-slate-300">• Four bot strengths</div>
+                      <div className="text-sm text-slate-300">• Choose your time control</div>
+                    </>
+                  )}
                 </div>
 
                 {/* Select Button */}
@@ -285,7 +306,7 @@ export function GameModeSelectionReal({ onSelectMode }: GameModeSelectionProps)
                   `}
                   disabled={isDisabled}
                 >
-                  {isPlacingBet ? 'Placing Bet...' : `Bet ${mode.displayAmount}`}
+                  {mode.id === "practice" ? 'Practice' : isPlacingBet ? 'Placing Bet...' : `Bet ${mode.displayAmount}`}
                 </button>
               </div>
 
@@ -343,6 +364,14 @@ export function GameModeSelectionReal({ onSelectMode }: GameModeSelectionProps)
         </div>
       )}
 
+      {/* Bot Settings for Practice Mode */}
+      {selectedMode === "practice" && (
+        <PracticeSetup
+          onStart={(settings) => onSelectMode("practice", 0, settings)}
+          onCancel={() => setSelectedMode(null)}
+        />
+      )}
+
       {/* Info Section */}
       <div className="mt-16 text-center">
         <div className="bg-slate-800/50 rounded-2xl p-8 border border-slate-700/50">
@@ -1,5 +1,7 @@
 "use client";
 
+import { describeTermination, GameResult, TerminationReason } from "@/lib/chess/ChessEngine";
+
 interface Game {
   status?: string;
   whitePlayer?: string;
@@ -11,6 +13,7 @@ interface Game {
   };
   moves?: string[];
   result?: string;
+  termination?: string;
 }
 
 interface GameStatusProps {
@@ -99,11 +102,14 @@ export function GameStatus({ game }: GameStatusProps) {
         </div>
       )}
       
-      {game.result && (
+      {(game.result || game.termination) && (
         <div className="flex justify-between items-center">
           <span className="text-slate-300">Result:</span>
-          <span className="text-emerald-400 font-semibold capitalize">
-            {game.result} wins
+          <span className="text-emerald-400 font-semibold">
+            {describeTermination(
+              (game.result || null) as GameResult,
+              (game.termination || null) as TerminationReason | null
+            )}
           </span>
         </div>
       )}
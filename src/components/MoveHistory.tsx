@@ -3,9 +3,10 @@
 interface MoveHistoryProps {
   moves: string[];
   currentMoveIndex?: number;
+  onSelectMove?: (index: number) => void; // Jump to the position after this move
 }
 
-export function MoveHistory({ moves, currentMoveIndex = -1 }: MoveHistoryProps) {
+export function MoveHistory({ moves, currentMoveIndex = -1, onSelectMove }: MoveHistoryProps) {
   // Group moves into pairs (white, black)
   const movePairs: { white: string; black?: string }[] = [];
   
@@ -38,24 +39,32 @@ export function MoveHistory({ moves, currentMoveIndex = -1 }: MoveHistoryProps)
                 <div className="text-slate-300 font-mono py-1">
                   {index + 1}
                 </div>
-                <div className={`
-                  font-mono py-1 px-2 rounded transition-colors
-                  ${currentMoveIndex === index * 2 
-                    ? "bg-blue-500/20 text-blue-300 border border-blue-500/30" 
-                    : "text-white hover:bg-slate-700/30"
-                  }
-                `}>
+                <div
+                  className={`
+                    font-mono py-1 px-2 rounded transition-colors
+                    ${onSelectMove ? "cursor-pointer" : ""}
+                    ${currentMoveIndex === index * 2 
+                      ? "bg-blue-500/20 text-blue-300 border border-blue-500/30" 
+                      : "text-white hover:bg-slate-700/30"
+                    }
+                  `}
+                  onClick={() => onSelectMove?.(index * 2)}
+                >
                   {pair.white}
                 </div>
-                <div className={`
-                  font-mono py-1 px-2 rounded transition-colors
-                  ${currentMoveIndex === index * 2 + 1 
-                    ? "bg-blue-500/20 text-blue-300 border border-blue-500/30" 
-                    : pair.black 
-                      ? "text-white hover:bg-slate-700/30" 
-                      : "text-slate-600"
-                  }
-                `}>
+                <div
+                  className={`
+                    font-mono py-1 px-2 rounded transition-colors
+                    ${onSelectMove && pair.black ? "cursor-pointer" : ""}
+                    ${currentMoveIndex === index * 2 + 1 
+                      ? "bg-blue-500/20 text-blue-300 border border-blue-500/30" 
+                      : pair.black 
+                        ? "text-white hover:bg-slate-700/30" 
+                        : "text-slate-600"
+                    }
+                  `}
+                  onClick={() => pair.black && onSelectMove?.(index * 2 + 1)}
+                >
                   {pair.black || "..."}
                 </div>
               </div>
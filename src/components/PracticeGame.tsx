@@ -0,0 +1,285 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { ChessBoard } from "./ChessBoard";
+import { GameStatus } from "./GameStatus";
+import { ChessEngine, GameResult, TerminationReason } from "@/lib/chess/ChessEngine";
+import { BOT_LEVELS, PracticeSettings } from "@/lib/chess/ChessBot";
+import type { BotMoveRequest, BotMoveResponse } from "@/lib/chess/ChessBot.worker";
+import { GameClock, ClockState } from "@/lib/game/GameClock";
+
+interface Game {
+  status?: string;
+  whitePlayer?: string;
+  blackPlayer?: string;
+  bettingTier?: string;
+  timeControl?: {
+    initial: number;
+    increment: number;
+  };
+  fen?: string;
+  pgn?: string;
+  moves?: string[];
+  isGameOver?: boolean;
+  result?: string;
+  termination?: string;
+}
+
+interface PracticeGameProps {
+  settings: PracticeSettings;
+  onBack: () => void;
+}
+
+const CLOCK_TICK_MS = 200;
+
+// Practice games run entirely in the browser: no betting pool, no contract calls
+export function PracticeGame({ settings, onBack }: PracticeGameProps) {
+  const [gameKey, setGameKey] = useState(0);
+  const [currentGame, setCurrentGame] = useState<Game | null>(null);
+  const [clockState, setClockState] = useState<ClockState | null>(null);
+  const [isBotThinking, setIsBotThinking] = useState(false);
+  const botWorkerRef = useRef<Worker | null>(null);
+  const botRequestIdRef = useRef(0);
+  const clockRef = useRef<GameClock | null>(null);
+
+  const level = BOT_LEVELS[settings.strength];
+  const botColor = settings.playerColor === "w" ? "b" : "w";
+  const isTimed = settings.timeControl.initial > 0;
+  const isFinished = currentGame?.status === "finished";
+
+  // The bot searches in a worker so the board stays responsive while it thinks
+  useEffect(() => {
+    const worker = new Worker(new URL("../lib/chess/ChessBot.worker.ts", import.meta.url));
+    botWorkerRef.current = worker;
+    return () => {
+      worker.terminate();
+      botWorkerRef.current = null;
+    };
+  }, []);
+
+  // Set up a fresh game and clock (also used for rematches)
+  useEffect(() => {
+    const engine = new ChessEngine();
+    clockRef.current = isTimed ? new GameClock(settings.timeControl) : null;
+    clockRef.current?.start("w");
+    setClockState(clockRef.current?.getState() ?? null);
+
+    setCurrentGame({
+      status: "active",
+      whitePlayer: settings.playerColor === "w" ? "You" : `${level.name} Bot`,
+      blackPlayer: settings.playerColor === "b" ? "You" : `${level.name} Bot`,
+      bettingTier: "practice",
+      timeControl: settings.timeControl,
+      fen: engine.getFen(),
+      pgn: "",
+      moves: [],
+      isGameOver: false,
+      result: undefined
+    });
+  }, [gameKey, settings, level.name, isTimed]);
+
+  // End the game without a board result (flag or resignation)
+  const finishGame = useCallback((result: GameResult, termination: TerminationReason) => {
+    clockRef.current?.stop();
+    setClockState(clockRef.current?.getState() ?? null);
+    setCurrentGame(prev => prev ? {
+      ...prev,
+      status: "finished",
+      isGameOver: true,
+      result: result || undefined,
+      termination
+    } : null);
+  }, []);
+
+  // Record a move from either side, punching the clock
+  const applyUpdate = useCallback((update: Game) => {
+    const clock = clockRef.current;
+    if (clock && !clock.punch()) {
+      const flagged = clock.checkFlag();
+      finishGame(flagged === "w" ? "black" : "white", "timeout");
+      return;
+    }
+    if (update.isGameOver) clock?.stop();
+    setClockState(clock?.getState() ?? null);
+
+    setCurrentGame(prev => prev ? {
+      ...prev,
+      ...update,
+      status: update.isGameOver ? "finished" : "active"
+    } : null);
+  }, [finishGame]);
+
+  // Moves made on the board by the player
+  const handleGameUpdate = useCallback((update: Game) => {
+    if (isFinished) return;
+    applyUpdate(update);
+  }, [isFinished, applyUpdate]);
+
+  // Let the bot reply whenever it is its turn
+  useEffect(() => {
+    if (!currentGame?.moves || currentGame.status !== "active") return;
+
+    const engine = ChessEngine.fromMoves(currentGame.moves);
+    if (!engine || engine.getTurn() !== botColor) return;
+
+    const worker = botWorkerRef.current;
+    if (!worker) return;
+
+    const request: BotMoveRequest = {
+      id: ++botRequestIdRef.current,
+      strength: settings.strength,
+      fen: engine.getFen(),
+      variant: "standard",
+      remainingMs: clockRef.current?.getRemaining(botColor),
+    };
+
+    const handleReply = (event: MessageEvent<BotMoveResponse>) => {
+      if (event.data.id !== request.id) return; // reply for a position we've left
+      worker.removeEventListener("message", handleReply);
+      setIsBotThinking(false);
+
+      const move = event.data.move;
+      if (!move || !engine.makeMove(move.san)) return;
+
+      applyUpdate({
+        fen: engine.getFen(),
+        pgn: engine.getPgn(),
+        moves: engine.getMoves(),
+        isGameOver: engine.isGameOver(),
+        result: engine.getGameResult() || undefined,
+        termination: engine.getTerminationReason() || undefined
+      });
+    };
+
+    setIsBotThinking(true);
+    worker.addEventListener("message", handleReply);
+    worker.postMessage(request);
+
+    return () => {
+      worker.removeEventListener("message", handleReply);
+      setIsBotThinking(false);
+    };
+  }, [currentGame?.moves, currentGame?.status, botColor, settings.strength, applyUpdate]);
+
+  // Tick the clock display and watch for a flag
+  useEffect(() => {
+    if (!isTimed || isFinished) return;
+
+    const interval = setInterval(() => {
+      const clock = clockRef.current;
+      if (!clock) return;
+
+      const flagged = clock.checkFlag();
+      if (flagged) {
+        finishGame(flagged === "w" ? "black" : "white", "timeout");
+      } else {
+        setClockState(clock.getState());
+      }
+    }, CLOCK_TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isTimed, isFinished, finishGame]);
+
+  const handleResign = () => {
+    if (isFinished) return;
+    finishGame(settings.playerColor === "w" ? "black" : "white", "resignation");
+  };
+
+  const formatClock = (ms: number) => {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+  };
+
+  const renderClock = (color: "w" | "b") => {
+    if (!clockState) return null;
+    const remaining = color === "w" ? clockState.whiteRemaining : clockState.blackRemaining;
+    const isActive = clockState.activeColor === color;
+
+    return (
+      <div className={`flex justify-between items-center px-4 py-2 rounded-lg ${
+        isActive ? "bg-slate-600/70" : "bg-slate-700/30"
+      }`}>
+        <span className="text-slate-300">
+          {color === settings.playerColor ? "You" : `${level.name} Bot`} ({color === "w" ? "White" : "Black"})
+        </span>
+        <span className={`text-xl font-mono font-bold ${remaining < 10000 ? "text-red-400" : "text-white"}`}>
+          {formatClock(remaining)}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      {/* Chess Board */}
+      <div className="lg:col-span-2">
+        <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl border border-slate-700/50 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-semibold text-white">Practice Game</h2>
+            <div className="px-3 py-1 text-sm rounded-full bg-slate-500/20 text-slate-300">
+              {level.name} Bot • {settings.timeControl.label}
+            </div>
+          </div>
+          <div className={isFinished ? "pointer-events-none" : ""}>
+            <ChessBoard
+              key={gameKey}
+              game={currentGame}
+              onGameUpdate={handleGameUpdate}
+              playerColor={settings.playerColor}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Sidebar */}
+      <div className="space-y-6">
+        {/* Clocks */}
+        {isTimed && (
+          <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl border border-slate-700/50 p-6 space-y-2">
+            {renderClock(botColor)}
+            {renderClock(settings.playerColor)}
+          </div>
+        )}
+
+        {/* Game Status */}
+        <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl border border-slate-700/50 p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Game Status</h3>
+          <GameStatus game={currentGame} />
+          {isBotThinking && (
+            <div className="mt-4 text-sm text-slate-400">🤖 Bot is thinking...</div>
+          )}
+          <div className="mt-4 text-xs text-slate-500">
+            Practice game — nothing is staked and results don&apos;t affect your rating.
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="space-y-3">
+          {isFinished ? (
+            <button
+              onClick={() => setGameKey(key => key + 1)}
+              className="w-full py-3 px-4 bg-slate-500 hover:bg-slate-600 text-white font-semibold rounded-lg transition-colors"
+            >
+              Play Again
+            </button>
+          ) : (
+            <button
+              onClick={handleResign}
+              className="w-full py-3 px-4 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 text-red-400 rounded-lg transition-colors"
+            >
+              Resign
+            </button>
+          )}
+          <button
+            onClick={onBack}
+            className="w-full py-3 px-4 text-slate-400 hover:text-white bg-slate-700/50 hover:bg-slate-600/50 rounded-lg transition-colors"
+          >
+            ← Back to Game Modes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { BOT_LEVELS, BotStrength, PRACTICE_TIME_CONTROLS, PracticeSettings } from "@/lib/chess/ChessBot";
+
+interface PracticeSetupProps {
+  onStart: (settings: PracticeSettings) => void;
+  onCancel: () => void;
+}
+
+export function PracticeSetup({ onStart, onCancel }: PracticeSetupProps) {
+  const [strength, setStrength] = useState<BotStrength>("casual");
+  const [timeControlIndex, setTimeControlIndex] = useState(0);
+  const [color, setColor] = useState<"w" | "b" | "random">("w");
+
+  const handleStart = () => {
+    const playerColor = color === "random" ? (Math.random() < 0.5 ? "w" : "b") : color;
+    onStart({
+      strength,
+      timeControl: PRACTICE_TIME_CONTROLS[timeControlIndex],
+      playerColor
+    });
+  };
+
+  return (
+    <div className="mt-8 max-w-md mx-auto">
+      <div className="bg-slate-800/50 rounded-2xl p-8 border border-slate-500/30">
+        <h3 className="text-2xl font-bold text-white mb-4 text-center">
+          Practice vs Bot
+        </h3>
+        <p className="text-slate-400 text-center mb-6">
+          Free games against a local bot. No tUSDC is staked.
+        </p>
+
+        <div className="space-y-6">
+          {/* Strength */}
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Bot Strength
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(BOT_LEVELS) as BotStrength[]).map((level) => (
+                <button
+                  key={level}
+                  onClick={() => setStrength(level)}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    strength === level
+                      ? "bg-slate-500 text-white"
+                      : "bg-slate-700/50 text-slate-300 hover:bg-slate-600/50"
+                  }`}
+                >
+                  {BOT_LEVELS[level].name}
+                </button>
+              ))}
+            </div>
+            <div className="text-xs text-slate-400 mt-2">
+              {BOT_LEVELS[strength].description}
+            </div>
+          </div>
+
+          {/* Time Control */}
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Time Control
+            </label>
+            <select
+              value={timeControlIndex}
+              onChange={(e) => setTimeControlIndex(parseInt(e.target.value))}
+              className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-lg text-white focus:border-slate-400 focus:outline-none"
+            >
+              {PRACTICE_TIME_CONTROLS.map((timeControl, index) => (
+                <option key={timeControl.label} value={index}>
+                  {timeControl.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Color */}
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Play As
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {([["w", "White"], ["b", "Black"], ["random", "Random"]] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setColor(value)}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    color === value
+                      ? "bg-slate-500 text-white"
+                      : "bg-slate-700/50 text-slate-300 hover:bg-slate-600/50"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              onClick={handleStart}
+              className="flex-1 py-3 px-6 bg-slate-500 hover:bg-slate-600 text-white font-semibold rounded-lg transition-colors"
+            >
+              Start Practice
+            </button>
+            <button
+              onClick={onCancel}
+              className="px-6 py-3 bg-slate-600 hover:bg-slate-700 text-white font-semibold rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
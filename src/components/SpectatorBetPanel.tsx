@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount } from "wagmi";
+import { BetSide } from "@/lib/betting/BettingEngine";
+import {
+  useChessBetContract,
+  useSpectatorPool,
+  usePlaceSpectatorBet,
+  formatUSDC
+} from "@/lib/contracts/ChessBetContract";
+import { useApproveToken } from "@/lib/contracts/MockERC20Contract";
+
+interface SpectatorBetPanelProps {
+  gameId: string;
+  whitePlayer?: string;
+  blackPlayer?: string;
+  isLive: boolean;
+  movesPlayed: number;
+}
+
+export function SpectatorBetPanel({ gameId, whitePlayer, blackPlayer, isLive, movesPlayed }: SpectatorBetPanelProps) {
+  const { address } = useAccount();
+  const [side, setSide] = useState<BetSide>("white");
+  const [amount, setAmount] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+
+  const { contractAddress, tokenAddress } = useChessBetContract();
+  const { pool } = useSpectatorPool(gameId);
+  const { approve } = useApproveToken();
+  const { placeSpectatorBet, isPending, isConfirming } = usePlaceSpectatorBet();
+
+  // Players stake through their own escrow, not the spectator pool
+  const isPlayer = !!address && [whitePlayer, blackPlayer]
+    .some(player => player?.toLowerCase() === address.toLowerCase());
+
+  // The pool takes bets until the first move is played
+  const isOpen = isLive && movesPlayed === 0;
+
+  const sides: { id: BetSide; label: string; total?: bigint }[] = [
+    { id: "white", label: "White", total: pool?.whiteAmount },
+    { id: "black", label: "Black", total: pool?.blackAmount },
+    { id: "draw", label: "Draw", total: pool?.drawAmount }
+  ];
+
+  const handlePlaceBet = async () => {
+    if (!contractAddress || !tokenAddress) return;
+
+    const value = parseFloat(amount);
+    if (!(value >= 1)) {
+      setError("Minimum spectator bet is 1 tUSDC");
+      return;
+    }
+
+    setError(null);
+    try {
+      await approve(contractAddress, amount, tokenAddress);
+      await placeSpectatorBet(gameId, side, amount, contractAddress);
+      setAmount("");
+    } catch (error: unknown) {
+      console.error("Failed to place spectator bet:", error);
+      setError(error instanceof Error ? error.message : "Failed to place spectator bet");
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl border border-slate-700/50 p-6">
+      <h3 className="text-lg font-semibold text-white mb-4">Spectator Pool</h3>
+      <div className="space-y-2 mb-4">
+        {sides.map(({ id, label, total }) => (
+          <div key={id} className="flex justify-between items-center">
+            <span className="text-slate-400">{label}:</span>
+            <span className="text-white">${total !== undefined ? formatUSDC(total) : "0"}</span>
+          </div>
+        ))}
+        <div className="flex justify-between items-center pt-2 border-t border-slate-700">
+          <span className="text-slate-400">Total:</span>
+          <span className="text-lg font-bold text-emerald-400">
+            ${pool ? formatUSDC(pool.totalAmount) : "0"}
+          </span>
+        </div>
+      </div>
+
+      {isOpen && !isPlayer && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            {sides.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setSide(id)}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  side === id
+                    ? "bg-blue-500 text-white"
+                    : "bg-slate-700/50 text-slate-300 hover:bg-slate-600/50"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <input
+            type="number"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Amount (min 1)"
+            className="w-full px-4 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:border-blue-500 focus:outline-none"
+            min="1"
+          />
+          <button
+            onClick={handlePlaceBet}
+            disabled={!amount || isPending || isConfirming}
+            className="w-full py-2 px-4 bg-blue-500 hover:bg-blue-600 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors"
+          >
+            {isPending || isConfirming ? "Placing Bet..." : `Back ${side}`}
+          </button>
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+        </div>
+      )}
+
+      <div className="mt-4 text-xs text-slate-500">
+        Spectator stakes are pooled separately from the players&apos; escrow and paid pro rata to the winning side.
+        Betting closes once the first move is played.
+      </div>
+    </div>
+  );
+}
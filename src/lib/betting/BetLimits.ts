@@ -0,0 +1,243 @@
+// Caps on what a player may stake. Unset limits are not enforced.
+export interface BetLimits {
+  maxStakePerBet?: bigint;
+  maxStakePerGame?: bigint; // per player, across all of a game's markets
+  maxStakePerDay?: bigint; // per player, over a rolling 24 hours
+  maxPlayerExposure?: bigint; // per player, stakes not yet settled
+  maxPoolExposure?: bigint; // per pool, stakes not yet settled
+}
+
+export type BetRejectionReason =
+  | "invalid_amount"
+  | "tier_amount_mismatch"
+  | "max_stake_per_bet"
+  | "max_stake_per_game"
+  | "max_stake_per_day"
+  | "max_player_exposure"
+  | "max_pool_exposure"
+  | "game_not_found"
+  | "pool_not_found"
+  | "pool_resolved"
+  | "market_closed"
+  | "not_allowed"
+  | "invalid_quote"
+  | "quote_expired"
+  | "house_exposure";
+
+export interface BetRejection {
+  ok: false;
+  reason: BetRejectionReason;
+  message: string;
+}
+
+export type BetPlacement<T> = { ok: true; bet: T } | BetRejection;
+
+// Thrown where the entry path reports failures by exception (the orderbook)
+export class BetLimitError extends Error {
+  readonly reason: BetRejectionReason;
+
+  constructor(reason: BetRejectionReason, message: string) {
+    super(message);
+    this.name = "BetLimitError";
+    this.reason = reason;
+  }
+}
+
+export function rejectBet(reason: BetRejectionReason, message: string): BetRejection {
+  return { ok: false, reason, message };
+}
+
+// A stake counted against the limits until it settles
+interface StakeRecord {
+  id: string; // bet or order id
+  playerAddress: string;
+  gameId?: string; // unset for orderbook orders that haven't matched yet
+  poolId?: string;
+  amount: bigint;
+  placedAt: number;
+  open: boolean;
+  inDailyWindow: boolean; // still counted in the player's rolling daily total
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tracks stakes per player, game and pool, and checks new stakes against the limits.
+// Shared by the betting engine and the orderbook so both paths count the same stakes.
+// Totals are kept running as stakes change, so a check never walks past stakes.
+export class BetLimiter {
+  private limits: BetLimits;
+  private stakes: Map<string, StakeRecord> = new Map();
+  private gameStakes: Map<string, bigint> = new Map(); // keyed by player and game
+  private dailyStakes: Map<string, bigint> = new Map();
+  private dailyWindows: Map<string, StakeRecord[]> = new Map(); // per player, oldest first
+  private playerExposure: Map<string, bigint> = new Map();
+  private poolExposure: Map<string, bigint> = new Map();
+
+  constructor(limits: BetLimits = {}) {
+    this.limits = { ...limits };
+  }
+
+  // Replace the configured limits
+  setLimits(limits: BetLimits): void {
+    this.limits = { ...limits };
+  }
+
+  // Get the configured limits
+  getLimits(): BetLimits {
+    return { ...this.limits };
+  }
+
+  // Check a new stake against every limit; returns the first one it would break
+  check(
+    playerAddress: string,
+    amount: bigint,
+    gameId?: string,
+    poolId?: string,
+    now: number = Date.now()
+  ): BetRejection | null {
+    const { maxStakePerBet, maxStakePerGame, maxStakePerDay, maxPlayerExposure, maxPoolExposure } = this.limits;
+
+    if (amount <= 0n) {
+      return rejectBet("invalid_amount", "Bet amount must be positive");
+    }
+
+    if (maxStakePerBet !== undefined && amount > maxStakePerBet) {
+      return rejectBet("max_stake_per_bet", `Stake exceeds the per-bet limit of ${maxStakePerBet}`);
+    }
+
+    if (maxStakePerGame !== undefined && gameId !== undefined) {
+      const staked = this.gameStakes.get(gameStakeKey(playerAddress, gameId)) ?? 0n;
+      if (staked + amount > maxStakePerGame) {
+        return rejectBet("max_stake_per_game", `Stake exceeds the per-game limit of ${maxStakePerGame}`);
+      }
+    }
+
+    if (maxStakePerDay !== undefined) {
+      this.pruneDailyWindow(playerAddress, now);
+      const staked = this.dailyStakes.get(playerAddress) ?? 0n;
+      if (staked + amount > maxStakePerDay) {
+        return rejectBet("max_stake_per_day", `Stake exceeds the daily limit of ${maxStakePerDay}`);
+      }
+    }
+
+    if (maxPlayerExposure !== undefined) {
+      const outstanding = this.playerExposure.get(playerAddress) ?? 0n;
+      if (outstanding + amount > maxPlayerExposure) {
+        return rejectBet("max_player_exposure", `Stake exceeds the player exposure limit of ${maxPlayerExposure}`);
+      }
+    }
+
+    if (maxPoolExposure !== undefined && poolId !== undefined) {
+      const outstanding = this.poolExposure.get(poolId) ?? 0n;
+      if (outstanding + amount > maxPoolExposure) {
+        return rejectBet("max_pool_exposure", `Stake exceeds the pool exposure limit of ${maxPoolExposure}`);
+      }
+    }
+
+    return null;
+  }
+
+  // Count an accepted stake
+  record(
+    id: string,
+    playerAddress: string,
+    amount: bigint,
+    gameId?: string,
+    poolId?: string,
+    now: number = Date.now()
+  ): void {
+    const record: StakeRecord = {
+      id,
+      playerAddress,
+      gameId,
+      poolId,
+      amount,
+      placedAt: now,
+      open: true,
+      inDailyWindow: true,
+    };
+    this.stakes.set(id, record);
+
+    this.pruneDailyWindow(playerAddress, now);
+    const window = this.dailyWindows.get(playerAddress) ?? [];
+    window.push(record);
+    this.dailyWindows.set(playerAddress, window);
+
+    this.adjustTotals(record, amount);
+  }
+
+  // A stake has settled (or been cancelled); it no longer counts as exposure.
+  // Cancelled stakes are dropped entirely so they don't use up game or daily limits.
+  release(id: string, cancelled: boolean = false): void {
+    const record = this.stakes.get(id);
+    if (!record) return;
+
+    if (cancelled) {
+      this.adjustTotals(record, -record.amount);
+      record.amount = 0n; // left in the daily window until it ages out
+      this.stakes.delete(id);
+      return;
+    }
+
+    if (record.open) {
+      adjust(this.playerExposure, record.playerAddress, -record.amount);
+      if (record.poolId !== undefined) adjust(this.poolExposure, record.poolId, -record.amount);
+      record.open = false;
+    }
+  }
+
+  // Reduce an open stake, e.g. the unfilled part of an order that partly matched
+  reduce(id: string, amount: bigint): void {
+    const record = this.stakes.get(id);
+    if (!record) return;
+
+    const reduction = record.amount > amount ? amount : record.amount;
+    this.adjustTotals(record, -reduction);
+    record.amount -= reduction;
+  }
+
+  // Outstanding (unsettled) stakes for a player
+  getPlayerExposure(playerAddress: string): bigint {
+    return this.playerExposure.get(playerAddress) ?? 0n;
+  }
+
+  // Apply a change in a stake's amount to every running total it counts towards
+  private adjustTotals(record: StakeRecord, delta: bigint): void {
+    if (record.gameId !== undefined) {
+      adjust(this.gameStakes, gameStakeKey(record.playerAddress, record.gameId), delta);
+    }
+
+    if (record.inDailyWindow) adjust(this.dailyStakes, record.playerAddress, delta);
+
+    if (record.open) {
+      adjust(this.playerExposure, record.playerAddress, delta);
+      if (record.poolId !== undefined) adjust(this.poolExposure, record.poolId, delta);
+    }
+  }
+
+  // Drop a player's stakes older than 24 hours from their daily total
+  private pruneDailyWindow(playerAddress: string, now: number): void {
+    const window = this.dailyWindows.get(playerAddress);
+    if (!window) return;
+
+    let expired = 0;
+    while (expired < window.length && window[expired].placedAt <= now - DAY_MS) {
+      const record = window[expired];
+      adjust(this.dailyStakes, playerAddress, -record.amount);
+      record.inDailyWindow = false;
+      expired++;
+    }
+
+    if (expired > 0) window.splice(0, expired);
+  }
+}
+
+function gameStakeKey(playerAddress: string, gameId: string): string {
+  return `${playerAddress}:${gameId}`;
+}
+
+function adjust(totals: Map<string, bigint>, key: string, delta: bigint): void {
+  const total = (totals.get(key) ?? 0n) + delta;
+  if (total === 0n) totals.delete(key);
+  else totals.set(key, total);
+}
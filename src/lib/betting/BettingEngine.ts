@@ -1,23 +1,93 @@
 import { GameResult } from "../chess/ChessEngine";
+import {
+  CashOutQuote,
+  OddsQuote,
+  PositionSnapshot,
+  QUOTE_TTL_MS,
+  calculateFixedOddsPayout,
+  calculateParlayPayout,
+  combineOdds,
+  estimateOutcomeProbabilities,
+  priceCashOut,
+  priceOdds,
+} from "./InPlayOdds";
+import {
+  DEFAULT_PROP_MARKETS,
+  GameFacts,
+  PropMarket,
+  PropSide,
+  resolvePropMarket,
+} from "./PropMarkets";
+import { BetLimiter, BetPlacement, rejectBet } from "./BetLimits";
+import { PlayerLedger } from "./PlayerLedger";
+import {
+  PLAYER_SETTLEMENT_POLICY,
+  SPECTATOR_SETTLEMENT_POLICY,
+  SettlementPolicy,
+  calculateSettlement,
+} from "./SettlementPolicy";
 
 export type BetSide = "white" | "black" | "draw";
-export type BetStatus = "pending" | "won" | "lost" | "cancelled";
+export type BetStatus = "pending" | "won" | "lost" | "cancelled" | "cashed_out"; // cashed_out: bought back by the house mid-game
+export type BetMarket = "player" | "spectator" | "prop" | "parlay"; // players' escrow, spectator pool, prop market pool, or multi-game parlay
+export type ParimutuelMarket = Exclude<BetMarket, "parlay">; // markets settled as pools under a SettlementPolicy
+export type MarketMode = "parimutuel" | "in_play"; // pool-share payouts vs. fixed odds quoted from the live position
 
 export interface Bet {
   id: string;
   gameId: string;
   playerAddress: string;
+  market: BetMarket;
   side: BetSide;
   amount: bigint; // in wei
-  odds: number; // decimal odds (e.g., 2.5 for 3:2)
+  odds: number; // decimal odds (e.g., 2.5 for 3:2); locked in for in-play bets
+  quoteId?: string; // in-play quote the bet was placed against
   status: BetStatus;
   createdAt: Date;
   resolvedAt?: Date;
   payout?: bigint;
 }
 
+// House-side ledger account for fees, dust and in-play margin
+export const HOUSE_ACCOUNT = "house";
+
+// Where each unit of a settled pool went. Entries for a pool always sum to its total.
+export type SettlementEntryType =
+  | "payout" // winnings to a bettor
+  | "refund" // stake returned to a bettor
+  | "house_fee" // fee on a parimutuel pool, or the whole pool when nobody backed the result
+  | "dust" // rounding remainder of pro-rata payouts, kept by the house
+  | "house_margin" // in-play stakes less fixed-odds payouts (negative when the house loses)
+  | "cash_out"; // house buys back a pending bet; outside the pool, which still settles the bet to the house
+
+export interface SettlementEntry {
+  id: string;
+  gameId: string;
+  market: BetMarket;
+  propMarketId?: string; // prop pools only
+  parlayId?: string; // parlays only; gameId is the game whose result settled the parlay
+  type: SettlementEntryType;
+  account: string; // bettor address or HOUSE_ACCOUNT
+  amount: bigint; // in wei
+  betId?: string;
+  createdAt: Date;
+}
+
+export interface SettlementSummary {
+  gameId: string;
+  market: BetMarket;
+  propMarketId?: string;
+  totalPool: bigint;
+  payouts: bigint; // payouts and refunds to bettors
+  houseFee: bigint;
+  dust: bigint;
+  houseMargin: bigint;
+  cashOuts: bigint; // paid by the house before settlement, not out of the pool
+}
+
 export interface BettingPool {
   gameId: string;
+  market: ParimutuelMarket;
   whiteBets: Bet[];
   blackBets: Bet[];
   drawBets: Bet[];
@@ -26,24 +96,149 @@ export interface BettingPool {
   totalDrawAmount: bigint;
   totalAmount: bigint;
   houseFee: bigint; // percentage of total pool (e.g., 5% = 500)
+  mode: MarketMode;
+  exposure: Record<BetSide, bigint>; // in-play only: house loss if that side wins (negative = house profit)
   createdAt: Date;
   resolvedAt?: Date;
   result?: GameResult;
 }
 
+export interface PropBet {
+  id: string;
+  gameId: string;
+  propMarketId: string;
+  playerAddress: string;
+  side: PropSide;
+  amount: bigint; // in wei
+  status: BetStatus;
+  createdAt: Date;
+  resolvedAt?: Date;
+  payout?: bigint;
+}
+
+// Parimutuel pool for one prop market of a game, settled from the final move history
+export interface PropPool {
+  gameId: string;
+  market: "prop";
+  propMarketId: string;
+  propMarket: PropMarket;
+  bets: PropBet[];
+  totals: Record<PropSide, bigint>;
+  totalAmount: bigint;
+  houseFee: bigint;
+  createdAt: Date;
+  resolvedAt?: Date;
+  outcome?: PropSide | null; // null when the market is void
+}
+
+export type ParlayLegStatus = "pending" | "won" | "lost" | "void";
+
+export interface ParlayLeg {
+  gameId: string;
+  side: BetSide;
+  odds: number; // decimal odds locked in when the parlay was placed
+  status: ParlayLegStatus;
+}
+
+// One stake across picks in several games, paid at the product of the legs' odds.
+// Void legs (aborted or paused games) drop out and the odds are recalculated without them.
+export interface Parlay {
+  id: string;
+  playerAddress: string;
+  legs: ParlayLeg[];
+  amount: bigint; // in wei
+  combinedOdds: number;
+  status: BetStatus;
+  createdAt: Date;
+  resolvedAt?: Date;
+  payout?: bigint;
+}
+
+// Where a settlement entry belongs
+interface LedgerTarget {
+  gameId: string;
+  market: BetMarket;
+  propMarketId?: string;
+  parlayId?: string;
+}
+
+export const MIN_PARLAY_LEGS = 2;
+
 export class BettingEngine {
   private pools: Map<string, BettingPool> = new Map();
+  private spectatorPools: Map<string, BettingPool> = new Map(); // kept apart from the players' pools
+  private propPools: Map<string, Map<string, PropPool>> = new Map(); // gameId => prop market id => pool
   private bets: Map<string, Bet> = new Map();
+  private quotes: Map<string, OddsQuote> = new Map();
+  private cashOutQuotes: Map<string, CashOutQuote> = new Map();
+  private parlays: Map<string, Parlay> = new Map();
+  private ledger: SettlementEntry[] = [];
   private houseFeePercentage: number = 500; // 5% in basis points
+  private maxInPlayExposure: bigint; // per side, per game
+  private limiter: BetLimiter = new BetLimiter(); // per-player and per-pool stake limits
+  private playerLedger: PlayerLedger = new PlayerLedger(); // where stakes come from and winnings go
+  private settlementPolicies: Record<ParimutuelMarket, SettlementPolicy> = {
+    player: PLAYER_SETTLEMENT_POLICY,
+    spectator: SPECTATOR_SETTLEMENT_POLICY,
+    prop: SPECTATOR_SETTLEMENT_POLICY,
+  };
 
-  constructor(houseFeePercentage: number = 500) {
+  constructor(houseFeePercentage: number = 500, maxInPlayExposure: bigint = 1000n * 10n ** 18n) {
     this.houseFeePercentage = houseFeePercentage;
+    this.maxInPlayExposure = maxInPlayExposure;
+  }
+
+  // Stake limits shared with any other entry path (e.g. the orderbook)
+  getBetLimiter(): BetLimiter {
+    return this.limiter;
+  }
+
+  // Player balances, shared with any other entry path (e.g. the orderbook)
+  getPlayerLedger(): PlayerLedger {
+    return this.playerLedger;
+  }
+
+  // Pay a player's whole available balance out to their wallet, like the contract's claimPayout
+  claimPayout(playerAddress: string): bigint {
+    const withdrawal = this.playerLedger.withdraw(playerAddress);
+    return withdrawal ? withdrawal.postings[1].amount : 0n;
+  }
+
+  // Set how a market's parimutuel pools settle; applies to pools resolved afterwards
+  setSettlementPolicy(market: ParimutuelMarket, policy: SettlementPolicy): void {
+    this.settlementPolicies[market] = { ...policy };
+  }
+
+  // Get the settlement policy for a market
+  getSettlementPolicy(market: ParimutuelMarket): SettlementPolicy {
+    return { ...this.settlementPolicies[market] };
   }
 
   // Create a new betting pool for a game
   createBettingPool(gameId: string): BettingPool {
-    const pool: BettingPool = {
+    const pool = this.newPool(gameId, "player");
+    this.pools.set(gameId, pool);
+    return pool;
+  }
+
+  // Create the spectator pool for a game, settled alongside the players' pool
+  createSpectatorPool(gameId: string): BettingPool {
+    const pool = this.newPool(gameId, "spectator");
+    this.spectatorPools.set(gameId, pool);
+    return pool;
+  }
+
+  // Drop every pool of a game that never went ahead. Only for games without bets.
+  removeGamePools(gameId: string): void {
+    this.pools.delete(gameId);
+    this.spectatorPools.delete(gameId);
+    this.propPools.delete(gameId);
+  }
+
+  private newPool(gameId: string, market: ParimutuelMarket): BettingPool {
+    return {
       gameId,
+      market,
       whiteBets: [],
       blackBets: [],
       drawBets: [],
@@ -52,11 +247,166 @@ export class BettingEngine {
       totalDrawAmount: 0n,
       totalAmount: 0n,
       houseFee: 0n,
+      mode: "parimutuel",
+      exposure: { white: 0n, black: 0n, draw: 0n },
       createdAt: new Date(),
     };
+  }
 
-    this.pools.set(gameId, pool);
-    return pool;
+  // Switch a game's spectator pool to in-play fixed odds. Only allowed before
+  // the first spectator bet, so a pool never mixes the two payout models.
+  openInPlayMarket(gameId: string): BetPlacement<BettingPool> {
+    const pool = this.spectatorPools.get(gameId);
+    if (!pool) {
+      return rejectBet("pool_not_found", `Spectator pool not found for game: ${gameId}`);
+    }
+
+    if (pool.resolvedAt) {
+      return rejectBet("pool_resolved", "Cannot open an in-play market on a resolved game");
+    }
+
+    if (pool.totalAmount > 0n) {
+      return rejectBet("not_allowed", "Cannot change market mode after bets have been placed");
+    }
+
+    pool.mode = "in_play";
+    return { ok: true, bet: pool };
+  }
+
+  // Quote in-play odds for a game's current position. ply is the number of
+  // moves played, so callers can reject the quote once the position changes.
+  quoteInPlayOdds(gameId: string, snapshot: PositionSnapshot, ply: number): BetPlacement<OddsQuote> {
+    const pool = this.spectatorPools.get(gameId);
+    if (!pool || pool.mode !== "in_play" || pool.resolvedAt) {
+      return rejectBet("market_closed", `No open in-play market for game: ${gameId}`);
+    }
+
+    const probabilities = estimateOutcomeProbabilities(snapshot);
+    const odds = priceOdds(probabilities);
+    const quotedAt = new Date();
+
+    const quote: OddsQuote = {
+      id: `${gameId}-quote-${ply}-${quotedAt.getTime()}`,
+      gameId,
+      ply,
+      probabilities,
+      odds,
+      maxStake: {
+        white: this.getMaxStake(pool, "white", odds.white),
+        black: this.getMaxStake(pool, "black", odds.black),
+        draw: this.getMaxStake(pool, "draw", odds.draw),
+      },
+      quotedAt,
+      expiresAt: new Date(quotedAt.getTime() + QUOTE_TTL_MS),
+    };
+
+    this.quotes.set(quote.id, quote);
+    return { ok: true, bet: quote };
+  }
+
+  // Get a previously issued quote
+  getQuote(quoteId: string): OddsQuote | undefined {
+    return this.quotes.get(quoteId);
+  }
+
+  // Quote a buy-back price for a pending player or spectator bet, from the
+  // chance its side wins at the given position and what it would return now
+  quoteCashOut(betId: string, snapshot: PositionSnapshot, ply: number): BetPlacement<CashOutQuote> {
+    const bet = this.bets.get(betId);
+    if (!bet || bet.status !== "pending") {
+      return rejectBet("not_allowed", `Bet not found or not pending: ${betId}`);
+    }
+
+    const pool = this.getMarketPool(bet.gameId, bet.market);
+    if (!pool) {
+      return rejectBet("pool_not_found", `Betting pool not found for game: ${bet.gameId}`);
+    }
+
+    if (pool.resolvedAt) {
+      return rejectBet("pool_resolved", "Cannot cash out a bet on a resolved game");
+    }
+
+    const winProbability = estimateOutcomeProbabilities(snapshot)[bet.side];
+    const winValue = pool.mode === "in_play"
+      ? calculateFixedOddsPayout(bet.amount, bet.odds)
+      : this.getPoolShare(pool, bet);
+    const quotedAt = new Date();
+
+    const quote: CashOutQuote = {
+      id: `${betId}-cashout-${ply}-${quotedAt.getTime()}`,
+      betId,
+      gameId: bet.gameId,
+      ply,
+      winProbability,
+      winValue,
+      amount: priceCashOut(winValue, winProbability),
+      quotedAt,
+      expiresAt: new Date(quotedAt.getTime() + QUOTE_TTL_MS),
+    };
+
+    this.cashOutQuotes.set(quote.id, quote);
+    return { ok: true, bet: quote };
+  }
+
+  // Get a previously issued cash-out quote
+  getCashOutQuote(quoteId: string): CashOutQuote | undefined {
+    return this.cashOutQuotes.get(quoteId);
+  }
+
+  // Settle a pending bet early at a cash-out quote. The house pays the quote
+  // and takes the bet's place in the pool.
+  cashOut(betId: string, quoteId: string, now: number = Date.now()): BetPlacement<Bet> {
+    const bet = this.bets.get(betId);
+    const quote = this.cashOutQuotes.get(quoteId);
+    if (!bet || !quote || quote.betId !== betId) {
+      return rejectBet("invalid_quote", "Cash-out requires a valid quote for this bet");
+    }
+
+    if (now > quote.expiresAt.getTime()) {
+      return rejectBet("quote_expired", `Cash-out quote has expired: ${quoteId}`);
+    }
+
+    const pool = this.getMarketPool(bet.gameId, bet.market);
+    if (bet.status !== "pending" || !pool || pool.resolvedAt) {
+      return rejectBet("market_closed", `Bet can no longer be cashed out: ${betId}`);
+    }
+
+    if (pool.mode === "in_play") {
+      // The house now nets stake less cash-out on every result instead of
+      // owing the payout if the bet's side wins
+      (Object.keys(pool.exposure) as BetSide[]).forEach(key => {
+        pool.exposure[key] += key === bet.side ? quote.amount - quote.winValue : quote.amount;
+      });
+    }
+
+    bet.status = "cashed_out";
+    bet.payout = quote.amount;
+    bet.resolvedAt = new Date(now);
+    this.limiter.release(bet.id);
+    this.playerLedger.transferEscrow(bet.id, HOUSE_ACCOUNT);
+    this.cashOutQuotes.delete(quoteId);
+    this.recordEntry(pool, "cash_out", bet.playerAddress, quote.amount, bet.id);
+
+    return { ok: true, bet };
+  }
+
+  // A bet's share of the pool net of fee if its side wins, at the current pool state
+  private getPoolShare(pool: BettingPool, bet: Bet): bigint {
+    const sideTotal = bet.side === "white"
+      ? pool.totalWhiteAmount
+      : bet.side === "black" ? pool.totalBlackAmount : pool.totalDrawAmount;
+    return ((pool.totalAmount - pool.houseFee) * bet.amount) / sideTotal;
+  }
+
+  // Largest stake on a side that keeps the house's loss on that side within the cap
+  private getMaxStake(pool: BettingPool, side: BetSide, odds: number): bigint {
+    const headroom = this.maxInPlayExposure - pool.exposure[side];
+    if (headroom <= 0n) return 0n;
+
+    // Each unit staked adds (odds - 1) to the exposure on its own side
+    const netOddsCents = BigInt(Math.round(odds * 100)) - 100n;
+    if (netOddsCents <= 0n) return headroom;
+    return (headroom * 100n) / netOddsCents;
   }
 
   // Place a bet
@@ -65,25 +415,115 @@ export class BettingEngine {
     playerAddress: string,
     side: BetSide,
     amount: bigint
-  ): Bet | null {
+  ): BetPlacement<Bet> {
     const pool = this.pools.get(gameId);
     if (!pool) {
-      console.error("Betting pool not found for game:", gameId);
-      return null;
+      return rejectBet("pool_not_found", `Betting pool not found for game: ${gameId}`);
+    }
+
+    return this.addBet(pool, playerAddress, side, amount);
+  }
+
+  // Add a player's stake from a matched orderbook order. The order already
+  // passed the stake limits and its funds are already escrowed, so both carry over.
+  placeMatchedBet(
+    gameId: string,
+    playerAddress: string,
+    side: BetSide,
+    amount: bigint,
+    orderId: string
+  ): BetPlacement<Bet> {
+    const pool = this.pools.get(gameId);
+    if (!pool) {
+      return rejectBet("pool_not_found", `Betting pool not found for game: ${gameId}`);
+    }
+
+    return this.addBet(pool, playerAddress, side, amount, undefined, orderId);
+  }
+
+  // Place a third-party bet on a game's spectator pool. In-play pools need a
+  // live quote, whose odds the bet locks in.
+  placeSpectatorBet(
+    gameId: string,
+    bettorAddress: string,
+    side: BetSide,
+    amount: bigint,
+    quoteId?: string
+  ): BetPlacement<Bet> {
+    const pool = this.spectatorPools.get(gameId);
+    if (!pool) {
+      return rejectBet("pool_not_found", `Spectator pool not found for game: ${gameId}`);
+    }
+
+    if (pool.mode === "in_play") {
+      return this.addInPlayBet(pool, bettorAddress, side, amount, quoteId);
+    }
+
+    return this.addBet(pool, bettorAddress, side, amount);
+  }
+
+  // Validate the quote and exposure cap, then add a fixed-odds bet
+  private addInPlayBet(
+    pool: BettingPool,
+    bettorAddress: string,
+    side: BetSide,
+    amount: bigint,
+    quoteId?: string
+  ): BetPlacement<Bet> {
+    const quote = quoteId ? this.quotes.get(quoteId) : undefined;
+    if (!quote || quote.gameId !== pool.gameId) {
+      return rejectBet("invalid_quote", "In-play bets require a valid quote for this game");
+    }
+
+    if (Date.now() > quote.expiresAt.getTime()) {
+      return rejectBet("quote_expired", `Quote has expired: ${quoteId}`);
+    }
+
+    const odds = quote.odds[side];
+    const payout = calculateFixedOddsPayout(amount, odds);
+
+    // The winning side costs the house its payout less the stake; every other side keeps the stake
+    const sideExposure = pool.exposure[side] + payout - amount;
+    if (sideExposure > this.maxInPlayExposure) {
+      return rejectBet("house_exposure", `Bet exceeds house exposure limit for side: ${side}`);
     }
 
+    const placement = this.addBet(pool, bettorAddress, side, amount, odds);
+    if (!placement.ok) return placement;
+
+    placement.bet.quoteId = quote.id;
+    (Object.keys(pool.exposure) as BetSide[]).forEach(key => {
+      pool.exposure[key] = key === side ? sideExposure : pool.exposure[key] - amount;
+    });
+
+    return placement;
+  }
+
+  private addBet(
+    pool: BettingPool,
+    playerAddress: string,
+    side: BetSide,
+    amount: bigint,
+    lockedOdds?: number,
+    orderId?: string // matched order the stake comes from
+  ): BetPlacement<Bet> {
     if (pool.resolvedAt) {
-      console.error("Cannot bet on resolved game");
-      return null;
+      return rejectBet("pool_resolved", "Cannot bet on resolved game");
     }
 
-    const betId = `${gameId}-${playerAddress}-${Date.now()}`;
-    const odds = this.calculateOdds(pool, side);
+    const { gameId, market } = pool;
+    const poolId = `${gameId}-${market}`;
+    const rejection = orderId ? null : this.limiter.check(playerAddress, amount, gameId, poolId);
+    if (rejection) return rejection;
+
+    const betId = `${gameId}-${market}-${playerAddress}-${Date.now()}-${this.bets.size}`;
+    const odds = lockedOdds ?? this.calculateOdds(pool, side);
     
     const bet: Bet = {
       id: betId,
       gameId,
       playerAddress,
+      market,
       side,
       amount,
       odds,
@@ -104,10 +544,19 @@ export class BettingEngine {
     }
 
     pool.totalAmount += amount;
-    pool.houseFee = (pool.totalAmount * BigInt(this.houseFeePercentage)) / 10000n;
+    if (pool.mode === "parimutuel") {
+      // In-play odds already include the house margin
+      pool.houseFee = (pool.totalAmount * BigInt(this.houseFeePercentage)) / 10000n;
+    }
 
     this.bets.set(betId, bet);
-    return bet;
+    this.limiter.record(betId, playerAddress, amount, gameId, poolId);
+    if (orderId) {
+      this.playerLedger.moveEscrow(orderId, betId, amount);
+    } else {
+      this.escrowStake(betId, playerAddress, amount);
+    }
+    return { ok: true, bet };
   }
 
     // Calculate odds for a bet
@@ -133,7 +582,7 @@ export class BettingEngine {
     return Math.max(1.1, odds); // Minimum odds of 1.1
   }
 
-  // Resolve all bets for a game
+  // Resolve all bets for a game, including its spectator pool
   resolveBets(gameId: string, result: GameResult): BettingPool | null {
     const pool = this.pools.get(gameId);
     if (!pool) {
@@ -146,63 +595,517 @@ export class BettingEngine {
       return null;
     }
 
+    this.settlePool(pool, result);
+
+    const spectatorPool = this.spectatorPools.get(gameId);
+    if (spectatorPool && !spectatorPool.resolvedAt) {
+      if (spectatorPool.mode === "in_play") {
+        this.settleFixedOdds(spectatorPool, result);
+      } else {
+        this.settlePool(spectatorPool, result);
+      }
+    }
+
+    this.settleParlayLegs(gameId, result);
+
+    return pool;
+  }
+
+  // Settle a parimutuel pool under its market's policy: pay the winning side,
+  // refund every stake, or let the house keep the pool. Amounts come from
+  // calculateSettlement, the same exact bigint split the contract performs;
+  // the rounding remainder is dust and goes to the house.
+  private settlePool(pool: BettingPool, result: GameResult): void {
     pool.result = result;
     pool.resolvedAt = new Date();
 
-    // Calculate payouts
-    const netPool = pool.totalAmount - pool.houseFee;
-    let winningBets: Bet[] = [];
+    // Cashed-out bets stay in the pool; the house bought them, so it collects their share
+    const bets = [...pool.whiteBets, ...pool.blackBets, ...pool.drawBets]
+      .filter(bet => bet.status === "pending" || bet.status === "cashed_out");
+    this.collectStakes(pool, bets);
+    const outcome = calculateSettlement(
+      this.settlementPolicies[pool.market],
+      result,
+      bets,
+      pool.houseFee
+    );
 
-    if (result === "white") {
-      winningBets = pool.whiteBets;
-    } else if (result === "black") {
-      winningBets = pool.blackBets;
-    } else if (result === "draw") {
-      winningBets = pool.drawBets;
-    }
+    bets.forEach((bet, index) => {
+      const payout = outcome.payouts[index];
 
-    if (winningBets.length === 0) {
-      // No winning bets, all bets are lost
-      pool.whiteBets.forEach(bet => {
+      if (bet.status === "cashed_out") {
+        this.recordEntry(pool, outcome.action === "refund" ? "refund" : "payout", HOUSE_ACCOUNT, payout, bet.id);
+        return;
+      }
+
+      bet.resolvedAt = new Date();
+      this.limiter.release(bet.id);
+      if (outcome.action === "refund") {
+        bet.status = "cancelled";
+        bet.payout = payout;
+        this.recordEntry(pool, "refund", bet.playerAddress, payout, bet.id);
+      } else if (outcome.action === "pay_winners" && bet.side === result) {
+        bet.status = "won";
+        bet.payout = payout;
+        this.recordEntry(pool, "payout", bet.playerAddress, payout, bet.id);
+      } else {
         bet.status = "lost";
+      }
+    });
+
+    pool.houseFee = outcome.fee;
+    this.recordEntry(pool, "dust", HOUSE_ACCOUNT, outcome.dust);
+    this.recordEntry(pool, "house_fee", HOUSE_ACCOUNT, outcome.fee);
+
+    this.assertSettlementBalances(pool);
+  }
+
+  // Pay winning in-play bets at their locked odds; the house covers any shortfall
+  private settleFixedOdds(pool: BettingPool, result: GameResult): void {
+    pool.result = result;
+    pool.resolvedAt = new Date();
+    let paid = 0n;
+
+    const bets = [...pool.whiteBets, ...pool.blackBets, ...pool.drawBets];
+    this.collectStakes(pool, bets.filter(bet => bet.status === "pending" || bet.status === "cashed_out"));
+
+    bets
+      .filter(bet => bet.status === "pending")
+      .forEach(bet => {
+        const won = bet.side === result;
+        this.limiter.release(bet.id);
+        bet.status = won ? "won" : "lost";
+        bet.payout = won ? calculateFixedOddsPayout(bet.amount, bet.odds) : undefined;
         bet.resolvedAt = new Date();
+        if (bet.payout !== undefined) {
+          paid += bet.payout;
+          this.recordEntry(pool, "payout", bet.playerAddress, bet.payout, bet.id);
+        }
       });
-      pool.blackBets.forEach(bet => {
-        bet.status = "lost";
-        bet.resolvedAt = new Date();
+
+    this.recordEntry(pool, "house_margin", HOUSE_ACCOUNT, pool.totalAmount - paid);
+    this.assertSettlementBalances(pool);
+  }
+
+  // Open a pool for each prop market of a game
+  openPropMarkets(gameId: string, markets: PropMarket[] = DEFAULT_PROP_MARKETS): PropPool[] {
+    const pools = this.propPools.get(gameId) ?? new Map<string, PropPool>();
+
+    markets.forEach(propMarket => {
+      if (pools.has(propMarket.id)) return;
+      pools.set(propMarket.id, {
+        gameId,
+        market: "prop",
+        propMarketId: propMarket.id,
+        propMarket,
+        bets: [],
+        totals: { yes: 0n, no: 0n },
+        totalAmount: 0n,
+        houseFee: 0n,
+        createdAt: new Date(),
       });
-      pool.drawBets.forEach(bet => {
+    });
+
+    this.propPools.set(gameId, pools);
+    return Array.from(pools.values());
+  }
+
+  // Place a bet on one of a game's prop markets
+  placePropBet(
+    gameId: string,
+    propMarketId: string,
+    playerAddress: string,
+    side: PropSide,
+    amount: bigint
+  ): BetPlacement<PropBet> {
+    const pool = this.propPools.get(gameId)?.get(propMarketId);
+    if (!pool) {
+      return rejectBet("pool_not_found", `Prop market not found: ${gameId} ${propMarketId}`);
+    }
+
+    if (pool.resolvedAt) {
+      return rejectBet("pool_resolved", "Cannot bet on resolved prop market");
+    }
+
+    const poolId = `${gameId}-prop-${propMarketId}`;
+    const rejection = this.limiter.check(playerAddress, amount, gameId, poolId);
+    if (rejection) return rejection;
+
+    const bet: PropBet = {
+      id: `${poolId}-${playerAddress}-${Date.now()}-${pool.bets.length}`,
+      gameId,
+      propMarketId,
+      playerAddress,
+      side,
+      amount,
+      status: "pending",
+      createdAt: new Date(),
+    };
+
+    pool.bets.push(bet);
+    pool.totals[side] += amount;
+    pool.totalAmount += amount;
+    pool.houseFee = (pool.totalAmount * BigInt(this.houseFeePercentage)) / 10000n;
+
+    this.limiter.record(bet.id, playerAddress, amount, gameId, poolId);
+    this.escrowStake(bet.id, playerAddress, amount);
+    return { ok: true, bet };
+  }
+
+  // Settle every open prop market of a game from the finished game's facts.
+  // Void markets (e.g. a move total landing on the line) are refunded.
+  resolvePropMarkets(gameId: string, facts: GameFacts): PropPool[] {
+    const pools = Array.from(this.propPools.get(gameId)?.values() ?? [])
+      .filter(pool => !pool.resolvedAt);
+
+    pools.forEach(pool => this.settlePropPool(pool, resolvePropMarket(pool.propMarket, facts)));
+    return pools;
+  }
+
+  // Settle a prop pool under the prop settlement policy
+  private settlePropPool(pool: PropPool, outcome: PropSide | null): void {
+    pool.outcome = outcome;
+    pool.resolvedAt = new Date();
+
+    const bets = pool.bets.filter(bet => bet.status === "pending");
+    this.collectStakes(pool, bets);
+    const settlement = calculateSettlement(this.settlementPolicies.prop, outcome, bets, pool.houseFee);
+
+    bets.forEach((bet, index) => {
+      const payout = settlement.payouts[index];
+      bet.resolvedAt = new Date();
+      this.limiter.release(bet.id);
+
+      if (settlement.action === "refund") {
+        bet.status = "cancelled";
+        bet.payout = payout;
+        this.recordEntry(pool, "refund", bet.playerAddress, payout, bet.id);
+      } else if (settlement.action === "pay_winners" && bet.side === outcome) {
+        bet.status = "won";
+        bet.payout = payout;
+        this.recordEntry(pool, "payout", bet.playerAddress, payout, bet.id);
+      } else {
         bet.status = "lost";
-        bet.resolvedAt = new Date();
-      });
+      }
+    });
+
+    pool.houseFee = settlement.fee;
+    this.recordEntry(pool, "dust", HOUSE_ACCOUNT, settlement.dust);
+    this.recordEntry(pool, "house_fee", HOUSE_ACCOUNT, settlement.fee);
+
+    this.assertSettlementBalances(pool);
+  }
+
+  // Get all prop market pools for a game
+  getPropPools(gameId: string): PropPool[] {
+    return Array.from(this.propPools.get(gameId)?.values() ?? []);
+  }
+
+  // Get a single prop market pool
+  getPropPool(gameId: string, propMarketId: string): PropPool | undefined {
+    return this.propPools.get(gameId)?.get(propMarketId);
+  }
+
+  // Place a parlay across several games. Leg odds are priced by the caller
+  // (from each game's position) and locked in at placement.
+  placeParlay(
+    playerAddress: string,
+    legs: { gameId: string; side: BetSide; odds: number }[],
+    amount: bigint
+  ): BetPlacement<Parlay> {
+    if (legs.length < MIN_PARLAY_LEGS) {
+      return rejectBet("not_allowed", `A parlay needs at least ${MIN_PARLAY_LEGS} legs`);
+    }
+
+    if (new Set(legs.map(leg => leg.gameId)).size !== legs.length) {
+      return rejectBet("not_allowed", "Each parlay leg must be on a different game");
+    }
+
+    for (const leg of legs) {
+      const pool = this.pools.get(leg.gameId);
+      if (!pool) {
+        return rejectBet("pool_not_found", `Parlay leg game not found: ${leg.gameId}`);
+      }
+      if (pool.resolvedAt) {
+        return rejectBet("pool_resolved", `Parlay leg game already resolved: ${leg.gameId}`);
+      }
+      if (!(leg.odds > 1)) {
+        return rejectBet("invalid_quote", `Invalid odds for parlay leg: ${leg.gameId} ${leg.odds}`);
+      }
+    }
+
+    // A parlay spans games, so only the per-bet, daily and player limits apply
+    const rejection = this.limiter.check(playerAddress, amount);
+    if (rejection) return rejection;
+
+    const parlay: Parlay = {
+      id: `parlay-${playerAddress}-${Date.now()}-${this.parlays.size}`,
+      playerAddress,
+      legs: legs.map(leg => ({ ...leg, status: "pending" })),
+      amount,
+      combinedOdds: combineOdds(legs.map(leg => leg.odds)),
+      status: "pending",
+      createdAt: new Date(),
+    };
+
+    this.parlays.set(parlay.id, parlay);
+    this.limiter.record(parlay.id, playerAddress, amount);
+    this.escrowStake(parlay.id, playerAddress, amount);
+    return { ok: true, bet: parlay };
+  }
+
+  // Mark every pending leg on a game as won, lost or void (null result), and
+  // settle parlays whose last leg this was
+  private settleParlayLegs(gameId: string, result: GameResult): void {
+    this.parlays.forEach(parlay => {
+      if (parlay.status !== "pending") return;
+
+      const leg = parlay.legs.find(candidate => candidate.gameId === gameId && candidate.status === "pending");
+      if (!leg) return;
+
+      leg.status = result === null ? "void" : leg.side === result ? "won" : "lost";
+
+      // Void legs drop out of the combined odds
+      const liveLegs = parlay.legs.filter(candidate => candidate.status !== "void");
+      parlay.combinedOdds = combineOdds(liveLegs.map(candidate => candidate.odds));
+
+      if (parlay.legs.every(candidate => candidate.status !== "pending")) {
+        this.settleParlay(parlay, gameId);
+      }
+    });
+  }
+
+  // Pay a parlay whose legs have all resolved: lost if any leg lost, refunded if
+  // every leg was void, otherwise paid at the odds of the remaining legs
+  private settleParlay(parlay: Parlay, gameId: string): void {
+    const target: LedgerTarget = { gameId, market: "parlay", parlayId: parlay.id };
+    const liveLegs = parlay.legs.filter(leg => leg.status !== "void");
+    parlay.resolvedAt = new Date();
+    this.limiter.release(parlay.id);
+    this.collectStakes(target, [parlay]);
+
+    if (liveLegs.length === 0) {
+      parlay.status = "cancelled";
+      parlay.payout = parlay.amount;
+      this.recordEntry(target, "refund", parlay.playerAddress, parlay.amount, parlay.id);
+    } else if (liveLegs.some(leg => leg.status === "lost")) {
+      parlay.status = "lost";
+      this.recordEntry(target, "house_margin", HOUSE_ACCOUNT, parlay.amount);
     } else {
-      // Calculate proportional payouts
-      const totalWinningAmount = winningBets.reduce((sum, bet) => sum + bet.amount, 0n);
-      
-      winningBets.forEach(bet => {
-        const proportion = Number(bet.amount) / Number(totalWinningAmount);
-        bet.payout = BigInt(Math.floor(Number(netPool) * proportion));
-        bet.status = "won";
-        bet.resolvedAt = new Date();
-      });
+      parlay.status = "won";
+      parlay.payout = calculateParlayPayout(parlay.amount, liveLegs.map(leg => leg.odds));
+      this.recordEntry(target, "payout", parlay.playerAddress, parlay.payout, parlay.id);
+      this.recordEntry(target, "house_margin", HOUSE_ACCOUNT, parlay.amount - parlay.payout);
+    }
+
+    const settled = this.ledger
+      .filter(entry => entry.parlayId === parlay.id)
+      .reduce((sum, entry) => sum + entry.amount, 0n);
+    if (settled !== parlay.amount || this.playerLedger.getPoolBalance(this.getLedgerPoolId(target)) !== 0n) {
+      throw new Error(`Settlement for parlay ${parlay.id} does not balance: ${settled} settled vs ${parlay.amount} staked`);
+    }
+  }
 
-      // Mark losing bets
-      [...pool.whiteBets, ...pool.blackBets, ...pool.drawBets]
-        .filter(bet => !winningBets.includes(bet))
-        .forEach(bet => {
-          bet.status = "lost";
-          bet.resolvedAt = new Date();
-        });
+  // Check whether anything is riding on a game: player, spectator or prop
+  // bets, or a leg of a pending parlay
+  hasStakes(gameId: string): boolean {
+    const pools = [this.pools.get(gameId), this.spectatorPools.get(gameId)];
+    if (pools.some(pool => pool && pool.whiteBets.length + pool.blackBets.length + pool.drawBets.length > 0)) {
+      return true;
     }
 
+    if (this.getPropPools(gameId).some(pool => pool.bets.length > 0)) return true;
+
+    return Array.from(this.parlays.values()).some(parlay =>
+      parlay.status === "pending" && parlay.legs.some(leg => leg.gameId === gameId && leg.status === "pending")
+    );
+  }
+
+  // Get a parlay by ID
+  getParlay(parlayId: string): Parlay | undefined {
+    return this.parlays.get(parlayId);
+  }
+
+  // Get all parlays for a player
+  getPlayerParlays(playerAddress: string): Parlay[] {
+    return Array.from(this.parlays.values()).filter(parlay => parlay.playerAddress === playerAddress);
+  }
+
+  // Refund all pending bets for a game without a result (e.g. aborted games),
+  // including its spectator pool and prop markets; parlay legs on it are void
+  refundBets(gameId: string): BettingPool | null {
+    const pool = this.pools.get(gameId);
+    if (!pool) {
+      console.error("Betting pool not found for game:", gameId);
+      return null;
+    }
+
+    if (pool.resolvedAt) {
+      console.error("Bets already resolved for this game");
+      return null;
+    }
+
+    this.refundPool(pool);
+
+    const spectatorPool = this.spectatorPools.get(gameId);
+    if (spectatorPool && !spectatorPool.resolvedAt) {
+      this.refundPool(spectatorPool);
+    }
+
+    this.getPropPools(gameId)
+      .filter(propPool => !propPool.resolvedAt)
+      .forEach(propPool => this.settlePropPool(propPool, null));
+
+    this.settleParlayLegs(gameId, null);
+
     return pool;
   }
 
+  private refundPool(pool: BettingPool): void {
+    pool.resolvedAt = new Date();
+    pool.houseFee = 0n; // No fee is charged on refunds
+
+    const bets = [...pool.whiteBets, ...pool.blackBets, ...pool.drawBets]
+      .filter(bet => bet.status === "pending" || bet.status === "cashed_out");
+    this.collectStakes(pool, bets);
+
+    bets.forEach(bet => {
+      if (bet.status === "cashed_out") {
+        // The house bought this bet, so the stake comes back to the house
+        this.recordEntry(pool, "refund", HOUSE_ACCOUNT, bet.amount, bet.id);
+        return;
+      }
+      bet.status = "cancelled";
+      bet.payout = bet.amount;
+      bet.resolvedAt = new Date();
+      this.limiter.release(bet.id);
+      this.recordEntry(pool, "refund", bet.playerAddress, bet.amount, bet.id);
+    });
+
+    this.assertSettlementBalances(pool);
+  }
+
+  // Append a settlement ledger entry; zero amounts are skipped
+  private recordEntry(
+    target: LedgerTarget,
+    type: SettlementEntryType,
+    account: string,
+    amount: bigint,
+    betId?: string
+  ): void {
+    if (amount === 0n) return;
+
+    this.ledger.push({
+      id: `${target.gameId}-${target.market}-${this.ledger.length}`,
+      gameId: target.gameId,
+      market: target.market,
+      propMarketId: target.propMarketId,
+      parlayId: target.parlayId,
+      type,
+      account,
+      amount,
+      betId,
+      createdAt: new Date(),
+    });
+
+    // Mirror the entry in the player balances: cash-outs come from the house, the rest from the pool
+    if (type === "cash_out") {
+      this.playerLedger.payFromHouse(HOUSE_ACCOUNT, account, amount, betId);
+    } else {
+      this.playerLedger.creditFromPool(this.getLedgerPoolId(target), type, account, amount, betId);
+    }
+  }
+
+  // Hold a new stake (topped up from the bettor's wallet, as the contract's placeBet
+  // pulls it in) and escrow it straight away, since a pool accepts bets immediately
+  private escrowStake(id: string, playerAddress: string, amount: bigint): void {
+    this.playerLedger.hold(id, playerAddress, amount, true);
+    this.playerLedger.escrowHold(id);
+  }
+
+  // Move the escrowed stakes of the bets being settled into the pool's ledger account
+  private collectStakes(target: LedgerTarget, bets: { id: string }[]): void {
+    const poolId = this.getLedgerPoolId(target);
+    bets.forEach(bet => this.playerLedger.collectStake(bet.id, poolId));
+  }
+
+  // Player ledger account for a pool or parlay
+  private getLedgerPoolId(target: LedgerTarget): string {
+    if (target.parlayId) return target.parlayId;
+    if (target.propMarketId) return `${target.gameId}-prop-${target.propMarketId}`;
+    return `${target.gameId}-${target.market}`;
+  }
+
+  // Invariant: payouts + fee + dust (+ in-play margin) account for every unit in the pool
+  private assertSettlementBalances(pool: (BettingPool | PropPool) & LedgerTarget): void {
+    const summary = this.getSettlementSummary(pool.gameId, pool.market, pool.propMarketId);
+    const settled = summary.payouts + summary.houseFee + summary.dust + summary.houseMargin;
+
+    if (settled !== pool.totalAmount || this.playerLedger.getPoolBalance(this.getLedgerPoolId(pool)) !== 0n) {
+      throw new Error(
+        `Settlement for ${pool.market} pool of game ${pool.gameId} does not balance: ` +
+        `${settled} settled vs ${pool.totalAmount} pooled`
+      );
+    }
+  }
+
+  // Get settlement ledger entries, optionally for a single game
+  getLedgerEntries(gameId?: string): SettlementEntry[] {
+    return gameId ? this.ledger.filter(entry => entry.gameId === gameId) : [...this.ledger];
+  }
+
+  // Totals of a pool's settlement entries by category, for reconciliation
+  getSettlementSummary(
+    gameId: string,
+    market: BetMarket = "player",
+    propMarketId?: string
+  ): SettlementSummary {
+    const pool = market === "prop"
+      ? this.getPropPool(gameId, propMarketId ?? "")
+      : this.getMarketPool(gameId, market);
+    const summary: SettlementSummary = {
+      gameId,
+      market,
+      propMarketId,
+      totalPool: pool?.totalAmount ?? 0n,
+      payouts: 0n,
+      houseFee: 0n,
+      dust: 0n,
+      houseMargin: 0n,
+      cashOuts: 0n,
+    };
+
+    this.ledger
+      .filter(entry =>
+        entry.gameId === gameId && entry.market === market && entry.propMarketId === propMarketId
+      )
+      .forEach(entry => {
+        if (entry.type === "payout" || entry.type === "refund") summary.payouts += entry.amount;
+        else if (entry.type === "house_fee") summary.houseFee += entry.amount;
+        else if (entry.type === "dust") summary.dust += entry.amount;
+        else if (entry.type === "cash_out") summary.cashOuts += entry.amount;
+        else summary.houseMargin += entry.amount;
+      });
+
+    return summary;
+  }
+
   // Get betting pool for a game
   getBettingPool(gameId: string): BettingPool | undefined {
     return this.pools.get(gameId);
   }
 
+  // Get spectator pool for a game
+  getSpectatorPool(gameId: string): BettingPool | undefined {
+    return this.spectatorPools.get(gameId);
+  }
+
+  // Get the house's in-play exposure per side for a game
+  getExposure(gameId: string): Record<BetSide, bigint> | undefined {
+    const pool = this.spectatorPools.get(gameId);
+    return pool ? { ...pool.exposure } : undefined;
+  }
+
   // Get bet by ID
   getBet(betId: string): Bet | undefined {
     return this.bets.get(betId);
@@ -226,9 +1129,10 @@ export class BettingEngine {
   calculatePotentialPayout(
     gameId: string,
     side: BetSide,
-    amount: bigint
+    amount: bigint,
+    market: BetMarket = "player"
   ): bigint {
-    const pool = this.pools.get(gameId);
+    const pool = this.getMarketPool(gameId, market);
     if (!pool) return 0n;
 
     const odds = this.calculateOdds(pool, side);
@@ -236,8 +1140,11 @@ export class BettingEngine {
   }
 
   // Get current odds for all sides
-  getCurrentOdds(gameId: string): { white: number; black: number; draw: number } | null {
-    const pool = this.pools.get(gameId);
+  getCurrentOdds(
+    gameId: string,
+    market: BetMarket = "player"
+  ): { white: number; black: number; draw: number } | null {
+    const pool = this.getMarketPool(gameId, market);
     if (!pool) return null;
 
     return {
@@ -254,8 +1161,9 @@ export class BettingEngine {
       return false;
     }
 
-    const pool = this.pools.get(bet.gameId);
-    if (!pool || pool.resolvedAt) {
+    // In-play bets are locked in at their quoted odds
+    const pool = this.getMarketPool(bet.gameId, bet.market);
+    if (!pool || pool.resolvedAt || pool.mode === "in_play") {
       return false;
     }
 
@@ -285,7 +1193,15 @@ export class BettingEngine {
 
     bet.status = "cancelled";
     bet.resolvedAt = new Date();
+    this.limiter.release(bet.id, true);
+    this.playerLedger.returnEscrow(bet.id);
 
     return true;
   }
+
+  // Player or spectator pool of a game; prop pools are looked up by market id
+  private getMarketPool(gameId: string, market: BetMarket): BettingPool | undefined {
+    if (market === "prop") return undefined;
+    return market === "spectator" ? this.spectatorPools.get(gameId) : this.pools.get(gameId);
+  }
 }
@@ -0,0 +1,135 @@
+import { BetSide } from "./BettingEngine";
+
+export interface PositionSnapshot {
+  evaluation: number; // centipawns from white's point of view
+  mateIn: number | null; // moves to mate (negative if black mates)
+  moveNumber: number; // full move number from the FEN
+  whiteRemainingMs?: number; // omitted for untimed games
+  blackRemainingMs?: number;
+  initialMs?: number; // starting time per side
+}
+
+export type OutcomeProbabilities = Record<BetSide, number>;
+
+export interface OddsQuote {
+  id: string;
+  gameId: string;
+  ply: number; // moves played when quoted; the quote goes stale once another move is made
+  probabilities: OutcomeProbabilities;
+  odds: Record<BetSide, number>; // decimal odds, locked in by bets placed against this quote
+  maxStake: Record<BetSide, bigint>; // largest stake the house will accept per side at these odds
+  quotedAt: Date;
+  expiresAt: Date;
+}
+
+// Price at which the house will buy back a pending bet before the game ends
+export interface CashOutQuote {
+  id: string;
+  betId: string;
+  gameId: string;
+  ply: number; // moves played when quoted; stale after the next move
+  winProbability: number;
+  winValue: bigint; // what the bet returns if its side wins, at the current pool state or locked odds
+  amount: bigint; // cash-out offer
+  quotedAt: Date;
+  expiresAt: Date;
+}
+
+export const IN_PLAY_MARGIN = 0.05; // house overround built into quoted odds
+export const CASH_OUT_MARGIN = 0.05; // discount on the fair value of a bet the house buys back
+export const QUOTE_TTL_MS = 10000;
+
+const MIN_PROBABILITY = 0.01;
+const MIN_ODDS = 1.01;
+const MATE_WIN_PROBABILITY = 0.98;
+const BASE_DRAW_PROBABILITY = 0.3;
+const DRAW_DECAY_CP = 250; // draws get less likely as the evaluation moves away from equality
+const DECISIVE_MOVE_NUMBER = 60; // by this move an advantage counts double
+const MAX_CLOCK_EDGE_CP = 400; // worth of a full time advantage once both clocks are nearly gone
+
+// Estimate white/black/draw probabilities from the engine evaluation, how far
+// the game has progressed and the remaining clock times
+export function estimateOutcomeProbabilities(snapshot: PositionSnapshot): OutcomeProbabilities {
+  if (snapshot.mateIn !== null) {
+    const loser = (1 - MATE_WIN_PROBABILITY) / 2;
+    return snapshot.mateIn > 0
+      ? { white: MATE_WIN_PROBABILITY, black: loser, draw: loser }
+      : { white: loser, black: MATE_WIN_PROBABILITY, draw: loser };
+  }
+
+  // The same advantage is harder to hold back the later the game goes
+  const progress = Math.min(Math.max(snapshot.moveNumber - 1, 0), DECISIVE_MOVE_NUMBER) / DECISIVE_MOVE_NUMBER;
+  const effectiveCp = snapshot.evaluation * (1 + progress) + getClockEdge(snapshot);
+
+  const whiteScore = 1 / (1 + Math.pow(10, -effectiveCp / 400));
+  const draw = BASE_DRAW_PROBABILITY * Math.exp(-Math.abs(effectiveCp) / DRAW_DECAY_CP);
+
+  return normalize({
+    white: whiteScore - draw / 2,
+    black: 1 - whiteScore - draw / 2,
+    draw,
+  });
+}
+
+// Turn probabilities into decimal odds with the house margin applied
+export function priceOdds(
+  probabilities: OutcomeProbabilities,
+  margin: number = IN_PLAY_MARGIN
+): Record<BetSide, number> {
+  const price = (probability: number) =>
+    Math.max(MIN_ODDS, Math.floor(100 / (probability * (1 + margin))) / 100);
+
+  return {
+    white: price(probabilities.white),
+    black: price(probabilities.black),
+    draw: price(probabilities.draw),
+  };
+}
+
+// Fixed-odds payout for a stake, in the stake's units (odds carry two decimals)
+export function calculateFixedOddsPayout(amount: bigint, odds: number): bigint {
+  return (amount * BigInt(Math.round(odds * 100))) / 100n;
+}
+
+// Cash-out offer for a bet: its value if it wins, weighted by the chance it
+// wins, less the house margin (probability kept to basis points for bigint maths)
+export function priceCashOut(
+  winValue: bigint,
+  winProbability: number,
+  margin: number = CASH_OUT_MARGIN
+): bigint {
+  const basisPoints = BigInt(Math.floor(winProbability * (1 - margin) * 10000));
+  return (winValue * basisPoints) / 10000n;
+}
+
+// Combined decimal odds of an accumulator: the product of its legs' odds
+export function combineOdds(legOdds: number[]): number {
+  return legOdds.reduce((combined, odds) => combined * odds, 1);
+}
+
+// Accumulator payout in exact bigint: each leg's two-decimal odds multiply the stake in turn
+export function calculateParlayPayout(amount: bigint, legOdds: number[]): bigint {
+  const numerator = legOdds.reduce((product, odds) => product * BigInt(Math.round(odds * 100)), amount);
+  return numerator / 100n ** BigInt(legOdds.length);
+}
+
+// Centipawn bonus for the side with more time, growing as both clocks run down
+function getClockEdge(snapshot: PositionSnapshot): number {
+  const { whiteRemainingMs, blackRemainingMs, initialMs } = snapshot;
+  if (whiteRemainingMs === undefined || blackRemainingMs === undefined || !initialMs) return 0;
+
+  const total = whiteRemainingMs + blackRemainingMs;
+  if (total <= 0) return 0;
+
+  const timePressure = 1 - Math.min(1, total / (2 * initialMs));
+  return ((whiteRemainingMs - blackRemainingMs) / total) * MAX_CLOCK_EDGE_CP * timePressure;
+}
+
+function normalize(probabilities: OutcomeProbabilities): OutcomeProbabilities {
+  const white = Math.max(MIN_PROBABILITY, probabilities.white);
+  const black = Math.max(MIN_PROBABILITY, probabilities.black);
+  const draw = Math.max(MIN_PROBABILITY, probabilities.draw);
+  const total = white + black + draw;
+
+  return { white: white / total, black: black / total, draw: draw / total };
+}
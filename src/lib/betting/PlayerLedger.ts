@@ -0,0 +1,317 @@
+// Double-entry ledger of player (and house) balances. Every journal entry moves
+// funds between accounts and its postings sum to zero, so the outside world's
+// account always mirrors what the contract holds.
+export type LedgerAccountKind =
+  | "available" // free balance; for players this is the contract's pendingPayouts
+  | "held" // reserved by an open order or a bet being placed
+  | "escrow" // committed to a matched order or accepted bet until it settles
+  | "pool" // a pool's settlement account, empty once the pool has settled
+  | "external"; // wallets outside the system; deposits come from here and withdrawals go back
+
+export type JournalEntryType =
+  | "deposit" // wallet => available, as the contract's placeBet pulls a stake in
+  | "withdrawal" // available => wallet, as the contract's claimPayout pays out
+  | "hold" // available => held
+  | "release" // held => available (cancelled order)
+  | "escrow" // held => escrow (order matched or bet accepted)
+  | "escrow_return" // escrow => available (bet cancelled before settlement)
+  | "escrow_transfer" // escrow changes owner (the house buys a bet back)
+  | "stake" // escrow => pool, as the pool settles
+  | "payout" // pool => available
+  | "refund" // pool => available
+  | "house_fee" // pool => house
+  | "dust" // pool => house
+  | "house_margin" // pool => house (negative when the house covers a shortfall)
+  | "cash_out"; // house => available
+
+export interface LedgerPosting {
+  account: string; // "<kind>:<owner>"
+  amount: bigint; // signed; the postings of an entry sum to zero
+}
+
+export interface JournalEntry {
+  id: string;
+  type: JournalEntryType;
+  ref?: string; // bet, order or parlay id
+  postings: LedgerPosting[];
+  createdAt: Date;
+}
+
+export interface PlayerBalances {
+  available: bigint;
+  held: bigint;
+  escrow: bigint;
+}
+
+export interface PlayerLedgerTotals {
+  wagered: bigint; // stakes escrowed, less bets cancelled before settlement
+  won: bigint; // payouts and cash-outs credited
+}
+
+// Funds reserved or committed under one bet or order id
+interface Commitment {
+  owner: string;
+  amount: bigint;
+}
+
+// Account id for an owner's balance of one kind
+export function ledgerAccount(kind: LedgerAccountKind, owner: string): string {
+  return `${kind}:${owner}`;
+}
+
+const EXTERNAL = ledgerAccount("external", "wallets");
+
+export class PlayerLedger {
+  private journal: JournalEntry[] = [];
+  private balances: Map<string, bigint> = new Map();
+  private holds: Map<string, Commitment> = new Map(); // ref => held funds
+  private escrows: Map<string, Commitment> = new Map(); // ref => escrowed funds
+  private totals: Map<string, PlayerLedgerTotals> = new Map(); // owner => lifetime totals, kept as entries post
+
+  // Bring funds in from a player's wallet
+  deposit(owner: string, amount: bigint, ref?: string): JournalEntry | null {
+    if (amount <= 0n) {
+      console.error("Deposit amount must be positive");
+      return null;
+    }
+
+    return this.transfer("deposit", EXTERNAL, ledgerAccount("available", owner), amount, ref);
+  }
+
+  // Pay out part or all (by default) of a player's available balance to their wallet
+  withdraw(owner: string, amount?: bigint, ref?: string): JournalEntry | null {
+    const available = this.getBalance(owner, "available");
+    const withdrawal = amount ?? available;
+
+    if (withdrawal <= 0n || withdrawal > available) {
+      console.error("Nothing to withdraw, or amount exceeds available balance:", owner);
+      return null;
+    }
+
+    return this.transfer("withdrawal", ledgerAccount("available", owner), EXTERNAL, withdrawal, ref);
+  }
+
+  // Reserve funds for an order or bet. With fromWallet, any shortfall is
+  // deposited first, the way the contract pulls a stake in from the wallet.
+  hold(ref: string, owner: string, amount: bigint, fromWallet: boolean = false): boolean {
+    if (amount <= 0n || this.holds.has(ref)) {
+      console.error("Invalid hold:", ref);
+      return false;
+    }
+
+    const shortfall = amount - this.getBalance(owner, "available");
+    if (shortfall > 0n) {
+      if (!fromWallet) {
+        console.error("Insufficient available balance for hold:", owner);
+        return false;
+      }
+      this.deposit(owner, shortfall, ref);
+    }
+
+    this.transfer("hold", ledgerAccount("available", owner), ledgerAccount("held", owner), amount, ref);
+    this.holds.set(ref, { owner, amount });
+    return true;
+  }
+
+  // Release what is left of a hold back to the available balance
+  releaseHold(ref: string): bigint {
+    const hold = this.holds.get(ref);
+    if (!hold) return 0n;
+
+    this.holds.delete(ref);
+    this.transfer("release", ledgerAccount("held", hold.owner), ledgerAccount("available", hold.owner), hold.amount, ref);
+    return hold.amount;
+  }
+
+  // Convert part or all (by default) of a hold into escrow
+  escrowHold(ref: string, amount?: bigint): boolean {
+    const hold = this.holds.get(ref);
+    const escrowed = amount ?? hold?.amount ?? 0n;
+    if (!hold || escrowed <= 0n || escrowed > hold.amount) {
+      console.error("Hold not found or smaller than escrow amount:", ref);
+      return false;
+    }
+
+    hold.amount -= escrowed;
+    if (hold.amount === 0n) this.holds.delete(ref);
+
+    const escrow = this.escrows.get(ref);
+    if (escrow) {
+      escrow.amount += escrowed;
+    } else {
+      this.escrows.set(ref, { owner: hold.owner, amount: escrowed });
+    }
+
+    this.transfer("escrow", ledgerAccount("held", hold.owner), ledgerAccount("escrow", hold.owner), escrowed, ref);
+    return true;
+  }
+
+  // Hand part of an escrow to another ref of the same owner, e.g. a matched
+  // order's stake becoming a bet. The funds stay in the escrow account.
+  moveEscrow(fromRef: string, toRef: string, amount: bigint): boolean {
+    const escrow = this.escrows.get(fromRef);
+    if (!escrow || amount <= 0n || amount > escrow.amount || this.escrows.has(toRef)) {
+      console.error("Escrow not found or smaller than amount to move:", fromRef);
+      return false;
+    }
+
+    escrow.amount -= amount;
+    if (escrow.amount === 0n) this.escrows.delete(fromRef);
+    this.escrows.set(toRef, { owner: escrow.owner, amount });
+    return true;
+  }
+
+  // Return an escrowed stake to its owner's available balance (bet cancelled before settlement)
+  returnEscrow(ref: string): bigint {
+    const escrow = this.escrows.get(ref);
+    if (!escrow) return 0n;
+
+    this.escrows.delete(ref);
+    this.transfer("escrow_return", ledgerAccount("escrow", escrow.owner), ledgerAccount("available", escrow.owner), escrow.amount, ref);
+    return escrow.amount;
+  }
+
+  // Hand an escrowed stake to a new owner, e.g. the house when it buys a bet back
+  transferEscrow(ref: string, newOwner: string): boolean {
+    const escrow = this.escrows.get(ref);
+    if (!escrow) return false;
+
+    this.transfer("escrow_transfer", ledgerAccount("escrow", escrow.owner), ledgerAccount("escrow", newOwner), escrow.amount, ref);
+    escrow.owner = newOwner;
+    return true;
+  }
+
+  // Move an escrowed stake into a pool's settlement account
+  collectStake(ref: string, poolId: string): bigint {
+    const escrow = this.escrows.get(ref);
+    if (!escrow) return 0n;
+
+    this.escrows.delete(ref);
+    this.transfer("stake", ledgerAccount("escrow", escrow.owner), ledgerAccount("pool", poolId), escrow.amount, ref);
+    return escrow.amount;
+  }
+
+  // Credit a settlement amount from a pool's account to an owner's available balance
+  creditFromPool(
+    poolId: string,
+    type: "payout" | "refund" | "house_fee" | "dust" | "house_margin",
+    owner: string,
+    amount: bigint,
+    ref?: string
+  ): JournalEntry | null {
+    return this.transfer(type, ledgerAccount("pool", poolId), ledgerAccount("available", owner), amount, ref);
+  }
+
+  // Pay an owner from the house's balance outside of any pool (cash-outs)
+  payFromHouse(house: string, owner: string, amount: bigint, ref?: string): JournalEntry | null {
+    return this.transfer("cash_out", ledgerAccount("available", house), ledgerAccount("available", owner), amount, ref);
+  }
+
+  // Post a two-legged entry; zero amounts are skipped
+  private transfer(
+    type: JournalEntryType,
+    from: string,
+    to: string,
+    amount: bigint,
+    ref?: string
+  ): JournalEntry | null {
+    if (amount === 0n) return null;
+
+    return this.post(type, [
+      { account: from, amount: -amount },
+      { account: to, amount },
+    ], ref);
+  }
+
+  // Append a journal entry and apply its postings
+  private post(type: JournalEntryType, postings: LedgerPosting[], ref?: string): JournalEntry {
+    const net = postings.reduce((sum, posting) => sum + posting.amount, 0n);
+    if (net !== 0n) {
+      throw new Error(`Journal entry ${type} does not balance: postings net to ${net}`);
+    }
+
+    const entry: JournalEntry = {
+      id: `journal-${this.journal.length}`,
+      type,
+      ref,
+      postings,
+      createdAt: new Date(),
+    };
+
+    postings.forEach(posting => {
+      this.balances.set(posting.account, (this.balances.get(posting.account) ?? 0n) + posting.amount);
+      this.applyToTotals(type, posting);
+    });
+    this.journal.push(entry);
+    return entry;
+  }
+
+  // Count a posting towards its owner's lifetime stakes or winnings
+  private applyToTotals(type: JournalEntryType, posting: LedgerPosting): void {
+    const separator = posting.account.indexOf(":");
+    const kind = posting.account.slice(0, separator);
+    const owner = posting.account.slice(separator + 1);
+
+    const staked = (type === "escrow" || type === "escrow_return") && kind === "escrow";
+    const won = (type === "payout" || type === "cash_out") && kind === "available";
+    if (!staked && !won) return;
+
+    const totals = this.totals.get(owner) ?? { wagered: 0n, won: 0n };
+    if (staked) totals.wagered += posting.amount;
+    else totals.won += posting.amount;
+    this.totals.set(owner, totals);
+  }
+
+  // Get one of an owner's balances
+  getBalance(owner: string, kind: LedgerAccountKind = "available"): bigint {
+    return this.balances.get(ledgerAccount(kind, owner)) ?? 0n;
+  }
+
+  // Get an owner's available, held and escrowed balances
+  getBalances(owner: string): PlayerBalances {
+    return {
+      available: this.getBalance(owner, "available"),
+      held: this.getBalance(owner, "held"),
+      escrow: this.getBalance(owner, "escrow"),
+    };
+  }
+
+  // Balance of a pool's settlement account; zero once the pool has fully settled
+  getPoolBalance(poolId: string): bigint {
+    return this.getBalance(poolId, "pool");
+  }
+
+  // Funds held in the system on behalf of everyone, i.e. what the contract should hold
+  getTotalDeposits(): bigint {
+    return -(this.balances.get(EXTERNAL) ?? 0n);
+  }
+
+  // Lifetime stakes and winnings for a player
+  getTotals(owner: string): PlayerLedgerTotals {
+    const totals = this.totals.get(owner);
+    return totals ? { ...totals } : { wagered: 0n, won: 0n };
+  }
+
+  // Get journal entries, optionally for a single bet or order
+  getEntries(ref?: string): JournalEntry[] {
+    return ref ? this.journal.filter(entry => entry.ref === ref) : [...this.journal];
+  }
+
+  // Check that every account balance matches the journal and the whole ledger nets to zero
+  reconcile(): boolean {
+    const replayed = new Map<string, bigint>();
+    this.journal.forEach(entry => {
+      entry.postings.forEach(posting => {
+        replayed.set(posting.account, (replayed.get(posting.account) ?? 0n) + posting.amount);
+      });
+    });
+
+    let net = 0n;
+    for (const [account, balance] of this.balances) {
+      if ((replayed.get(account) ?? 0n) !== balance) return false;
+      net += balance;
+    }
+
+    return net === 0n;
+  }
+}
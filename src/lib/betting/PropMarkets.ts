@@ -0,0 +1,78 @@
+import { ChessEngine, TerminationReason } from "../chess/ChessEngine";
+
+export type PropMarketType =
+  | "total_moves" // over/under a number of full moves
+  | "checkmate" // the game ends in checkmate
+  | "queenside_castling" // either side castles queenside
+  | "first_capture"; // the first capture happens before a given move
+
+export type PropSide = "yes" | "no"; // "yes" is the over for total_moves
+
+export interface PropMarket {
+  id: string;
+  type: PropMarketType;
+  line?: number; // total_moves: move count to beat; first_capture: move number
+  question: string;
+}
+
+// What the prop markets are settled on, read from the finished game's history
+export interface GameFacts {
+  plies: number;
+  fullMoves: number;
+  checkmate: boolean;
+  queensideCastling: boolean;
+  firstCaptureMove: number | null; // full move number of the first capture
+}
+
+export const DEFAULT_PROP_MARKETS: PropMarket[] = [
+  createPropMarket("total_moves", 40.5),
+  createPropMarket("checkmate"),
+  createPropMarket("queenside_castling"),
+  createPropMarket("first_capture", 10),
+];
+
+// Build a prop market definition; the id is unique per type and line
+export function createPropMarket(type: PropMarketType, line?: number): PropMarket {
+  const id = line === undefined ? type : `${type}_${line}`;
+
+  switch (type) {
+    case "total_moves":
+      return { id, type, line, question: `Over ${line} moves?` };
+    case "checkmate":
+      return { id, type, question: "Ends in checkmate?" };
+    case "queenside_castling":
+      return { id, type, question: "Either side castles queenside?" };
+    case "first_capture":
+      return { id, type, line, question: `First capture before move ${line}?` };
+  }
+}
+
+// Read the facts prop markets settle on from a game's move history
+export function getGameFacts(engine: ChessEngine, termination: TerminationReason | null): GameFacts {
+  const moves = engine.getMoves();
+  const firstCapture = moves.findIndex(san => san.includes("x"));
+
+  return {
+    plies: moves.length,
+    fullMoves: Math.ceil(moves.length / 2),
+    checkmate: termination === "checkmate",
+    queensideCastling: moves.some(san => san.startsWith("O-O-O")),
+    firstCaptureMove: firstCapture === -1 ? null : Math.floor(firstCapture / 2) + 1,
+  };
+}
+
+// Winning side of a prop market, or null if it is void (stakes are refunded)
+export function resolvePropMarket(market: PropMarket, facts: GameFacts): PropSide | null {
+  switch (market.type) {
+    case "total_moves":
+      if (market.line === undefined || facts.fullMoves === market.line) return null; // push
+      return facts.fullMoves > market.line ? "yes" : "no";
+    case "checkmate":
+      return facts.checkmate ? "yes" : "no";
+    case "queenside_castling":
+      return facts.queensideCastling ? "yes" : "no";
+    case "first_capture":
+      if (market.line === undefined) return null;
+      return facts.firstCaptureMove !== null && facts.firstCaptureMove < market.line ? "yes" : "no";
+  }
+}
@@ -0,0 +1,93 @@
+import { BetSide } from "./BettingEngine";
+
+// How a parimutuel pool is paid out. The contract keeps the same three flags
+// per market (ChessBet.SettlementPolicy), so both sides settle identically.
+export interface SettlementPolicy {
+  refundOnDraw: boolean; // a draw returns every stake instead of paying draw backers
+  feeOnDraw: boolean; // charge the house fee when the game is drawn, whether paid out or refunded
+  refundWhenNoWinners: boolean; // return stakes when nobody backed the result; otherwise the house keeps the pool
+}
+
+export type SettlementAction = "pay_winners" | "refund" | "house_keeps";
+
+export interface SettlementStake<S extends string = BetSide> {
+  side: S;
+  amount: bigint;
+}
+
+export interface SettlementOutcome {
+  action: SettlementAction;
+  payouts: bigint[]; // per stake, in input order
+  fee: bigint;
+  dust: bigint; // rounding remainder, kept by the house
+}
+
+// Head-to-head escrow: winner takes the pool net of fee, a draw refunds both players fee-free
+export const PLAYER_SETTLEMENT_POLICY: SettlementPolicy = {
+  refundOnDraw: true,
+  feeOnDraw: false,
+  refundWhenNoWinners: true,
+};
+
+// Spectator pool: draw backers win like any other side; stakes come back if nobody backed the result
+export const SPECTATOR_SETTLEMENT_POLICY: SettlementPolicy = {
+  refundOnDraw: false,
+  feeOnDraw: true,
+  refundWhenNoWinners: true,
+};
+
+// Decide what happens to a pool for a result (mirrors ChessBet._planSettlement).
+// A null result (no result, or a void prop market) refunds.
+export function planSettlement<S extends string = BetSide>(
+  policy: SettlementPolicy,
+  result: S | null,
+  winningStake: bigint
+): { action: SettlementAction; chargeFee: boolean } {
+  if (result === null) {
+    return { action: "refund", chargeFee: false };
+  }
+
+  if (result === "draw" && policy.refundOnDraw) {
+    return { action: "refund", chargeFee: policy.feeOnDraw };
+  }
+
+  if (winningStake === 0n) {
+    return policy.refundWhenNoWinners
+      ? { action: "refund", chargeFee: false }
+      : { action: "house_keeps", chargeFee: true };
+  }
+
+  return { action: "pay_winners", chargeFee: result !== "draw" || policy.feeOnDraw };
+}
+
+// Settle a pool exactly: each eligible stake gets floor(stake * net / eligibleStakes)
+// and the remainder is dust. houseFee is the fee accrued on the pool at bet time.
+export function calculateSettlement<S extends string = BetSide>(
+  policy: SettlementPolicy,
+  result: S | null,
+  stakes: SettlementStake<S>[],
+  houseFee: bigint
+): SettlementOutcome {
+  const total = stakes.reduce((sum, stake) => sum + stake.amount, 0n);
+  const winningStake = stakes
+    .filter(stake => stake.side === result)
+    .reduce((sum, stake) => sum + stake.amount, 0n);
+
+  const { action, chargeFee } = planSettlement(policy, result, winningStake);
+
+  if (action === "house_keeps") {
+    return { action, payouts: stakes.map(() => 0n), fee: total, dust: 0n };
+  }
+
+  const fee = chargeFee ? houseFee : 0n;
+  const netPool = total - fee;
+  const eligibleStake = action === "refund" ? total : winningStake;
+
+  const payouts = stakes.map(stake => {
+    const eligible = action === "refund" || stake.side === result;
+    return eligible && eligibleStake > 0n ? (stake.amount * netPool) / eligibleStake : 0n;
+  });
+  const paid = payouts.reduce((sum, payout) => sum + payout, 0n);
+
+  return { action, payouts, fee, dust: netPool - paid };
+}
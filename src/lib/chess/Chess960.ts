@@ -0,0 +1,229 @@
+import { Chess, Color, Square } from "chess.js";
+import { isHex, keccak256, stringToBytes } from "viem";
+
+export const CHESS960_POSITION_COUNT = 960;
+export const STANDARD_CHESS960_INDEX = 518; // RNBQKBNR
+
+// Knight placements on the five squares left after bishops and queen (Scharnagl numbering)
+const KNIGHT_PLACEMENTS: [number, number][] = [
+  [0, 1], [0, 2], [0, 3], [0, 4], [1, 2],
+  [1, 3], [1, 4], [2, 3], [2, 4], [3, 4],
+];
+
+const FILES = "abcdefgh";
+
+// Rook squares that still carry castling rights, per color
+export interface CastlingRooks {
+  w: Square[];
+  b: Square[];
+}
+
+export interface CastlingMove {
+  color: Color;
+  side: "k" | "q";
+  kingFrom: Square;
+  kingTo: Square;
+  rookFrom: Square;
+  rookTo: Square;
+  san: string;
+  lan: string; // king-takes-rook notation, e.g. "e1h1"
+}
+
+// Get the white back rank for a start position index, e.g. 518 => "RNBQKBNR"
+export function chess960BackRank(index: number): string {
+  if (!Number.isInteger(index) || index < 0 || index >= CHESS960_POSITION_COUNT) {
+    throw new Error(`Invalid Chess960 position index: ${index}`);
+  }
+
+  const rank: (string | null)[] = new Array(8).fill(null);
+  const emptySquares = () => rank.flatMap((piece, file) => (piece ? [] : [file]));
+  let n = index;
+
+  rank[(n % 4) * 2 + 1] = "B"; // light-squared bishop
+  n = Math.floor(n / 4);
+  rank[(n % 4) * 2] = "B"; // dark-squared bishop
+  n = Math.floor(n / 4);
+
+  rank[emptySquares()[n % 6]] = "Q";
+  n = Math.floor(n / 6);
+
+  const [firstKnight, secondKnight] = KNIGHT_PLACEMENTS[n];
+  const knightSquares = emptySquares();
+  rank[knightSquares[firstKnight]] = "N";
+  rank[knightSquares[secondKnight]] = "N";
+
+  // King always ends up between the rooks
+  const [queenRook, king, kingRook] = emptySquares();
+  rank[queenRook] = "R";
+  rank[king] = "K";
+  rank[kingRook] = "R";
+
+  return rank.join("");
+}
+
+// Get the start FEN for a position index (X-FEN castling, so every start position uses KQkq)
+export function chess960StartFen(index: number): string {
+  const backRank = chess960BackRank(index);
+  return `${backRank.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${backRank} w KQkq - 0 1`;
+}
+
+// Derive a position index from a shared seed (e.g. the game id). Matches the
+// contract's uint256(keccak256(abi.encodePacked(gameId))) % 960 for bytes32 ids,
+// so both players can verify the start position independently.
+export function chess960IndexFromSeed(seed: string): number {
+  const digest = keccak256(isHex(seed) ? seed : stringToBytes(seed));
+  return Number(BigInt(digest) % BigInt(CHESS960_POSITION_COUNT));
+}
+
+// Parse an X-FEN or Shredder-FEN castling field against the current board
+export function parseCastlingField(field: string, chess: Chess): CastlingRooks {
+  const rooks: CastlingRooks = { w: [], b: [] };
+  if (field === "-") return rooks;
+
+  for (const char of field) {
+    const color: Color = char === char.toUpperCase() ? "w" : "b";
+    const rank = color === "w" ? "1" : "8";
+    const king = findBackRankKing(chess, color);
+    if (!king) continue;
+
+    const lower = char.toLowerCase();
+    let rookSquare: Square | undefined;
+
+    if (lower === "k" || lower === "q") {
+      rookSquare = outermostRook(chess, color, king, lower);
+    } else if (FILES.includes(lower)) {
+      const square = `${lower}${rank}` as Square;
+      if (isOwnRook(chess, square, color)) rookSquare = square;
+    }
+
+    if (rookSquare && !rooks[color].includes(rookSquare)) {
+      rooks[color].push(rookSquare);
+    }
+  }
+
+  return rooks;
+}
+
+// Format castling rights as X-FEN: K/Q for the outermost rook, file letters otherwise
+export function formatCastlingField(rooks: CastlingRooks, chess: Chess): string {
+  let field = "";
+
+  for (const color of ["w", "b"] as Color[]) {
+    const king = findBackRankKing(chess, color);
+    if (!king) continue;
+
+    const sorted = [...rooks[color]].sort((a, b) => b.charCodeAt(0) - a.charCodeAt(0));
+    for (const rookSquare of sorted) {
+      const side = rookSquare[0] > king[0] ? "k" : "q";
+      const token = outermostRook(chess, color, king, side) === rookSquare ? side : rookSquare[0];
+      field += color === "w" ? token.toUpperCase() : token;
+    }
+  }
+
+  return field || "-";
+}
+
+// Generate legal castling moves for the side to move
+export function getCastlingMoves(chess: Chess, rooks: CastlingRooks): CastlingMove[] {
+  const color = chess.turn();
+  const them: Color = color === "w" ? "b" : "w";
+  const rank = color === "w" ? "1" : "8";
+  const kingFrom = findBackRankKing(chess, color);
+  if (!kingFrom || chess.inCheck()) return [];
+
+  const moves: CastlingMove[] = [];
+
+  for (const rookFrom of rooks[color]) {
+    if (!isOwnRook(chess, rookFrom, color)) continue;
+
+    const side = rookFrom[0] > kingFrom[0] ? "k" : "q";
+    const kingTo = `${side === "k" ? "g" : "c"}${rank}` as Square;
+    const rookTo = `${side === "k" ? "f" : "d"}${rank}` as Square;
+
+    // Every square spanned by king and rook must be empty apart from those two pieces
+    const spanned = [kingFrom, kingTo, rookFrom, rookTo].map(fileIndex);
+    const blocked = range(Math.min(...spanned), Math.max(...spanned)).some(file => {
+      const square = `${FILES[file]}${rank}` as Square;
+      return square !== kingFrom && square !== rookFrom && !!chess.get(square);
+    });
+    if (blocked) continue;
+
+    // The king may not pass through or land on an attacked square
+    const kingPath = range(
+      Math.min(fileIndex(kingFrom), fileIndex(kingTo)),
+      Math.max(fileIndex(kingFrom), fileIndex(kingTo))
+    ).map(file => `${FILES[file]}${rank}` as Square);
+    if (kingPath.some(square => chess.isAttacked(square, them))) continue;
+
+    // Confirm the king is safe once the rook has moved (the rook may have been shielding it)
+    const after = new Chess(buildCastledFen(chess, { kingFrom, kingTo, rookFrom, rookTo }), {
+      skipValidation: true,
+    });
+    if (after.isAttacked(kingTo, them)) continue;
+
+    const suffix = after.isCheckmate() ? "#" : after.inCheck() ? "+" : "";
+    moves.push({
+      color,
+      side,
+      kingFrom,
+      kingTo,
+      rookFrom,
+      rookTo,
+      san: `${side === "k" ? "O-O" : "O-O-O"}${suffix}`,
+      lan: `${kingFrom}${rookFrom}`,
+    });
+  }
+
+  return moves;
+}
+
+// Build the FEN (with castling field "-") reached after a castling move
+export function buildCastledFen(
+  chess: Chess,
+  move: Pick<CastlingMove, "kingFrom" | "kingTo" | "rookFrom" | "rookTo">
+): string {
+  const color = chess.turn();
+  const board = new Chess(chess.fen(), { skipValidation: true });
+
+  board.remove(move.kingFrom);
+  board.remove(move.rookFrom);
+  board.put({ type: "k", color }, move.kingTo);
+  board.put({ type: "r", color }, move.rookTo);
+
+  const [placement, , , , halfMoves, fullMoves] = board.fen().split(" ");
+  const nextTurn = color === "w" ? "b" : "w";
+  const nextFullMoves = color === "b" ? Number(fullMoves) + 1 : Number(fullMoves);
+
+  return `${placement} ${nextTurn} - - ${Number(halfMoves) + 1} ${nextFullMoves}`;
+}
+
+function findBackRankKing(chess: Chess, color: Color): Square | undefined {
+  const rank = color === "w" ? "1" : "8";
+  return chess.findPiece({ type: "k", color }).find(square => square[1] === rank);
+}
+
+function isOwnRook(chess: Chess, square: Square, color: Color): boolean {
+  const piece = chess.get(square);
+  return !!piece && piece.type === "r" && piece.color === color;
+}
+
+// Outermost rook on the given side of the king
+function outermostRook(chess: Chess, color: Color, king: Square, side: "k" | "q"): Square | undefined {
+  const rank = color === "w" ? "1" : "8";
+  const files = side === "k" ? "hgfedcba" : "abcdefgh";
+
+  for (const file of files) {
+    if (side === "k" ? file <= king[0] : file >= king[0]) break;
+    const square = `${file}${rank}` as Square;
+    if (isOwnRook(chess, square, color)) return square;
+  }
+  return undefined;
+}
+
+function fileIndex(square: Square): number {
+  return FILES.indexOf(square[0]);
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
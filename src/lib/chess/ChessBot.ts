@@ -0,0 +1,108 @@
+import { ChessEngine, GameVariant, Move } from "./ChessEngine";
+import { ChessEvaluator } from "./ChessEvaluator";
+import { TimeControl } from "../orderbook/OrderbookManager";
+
+export type BotStrength = "beginner" | "casual" | "intermediate" | "advanced";
+
+export interface BotLevel {
+  name: string;
+  description: string;
+  maxDepth: number; // plies
+  timeLimitMs: number; // per move
+  randomMoveChance: number; // 0-1, chance of playing a random legal move instead of searching
+}
+
+export interface PracticeTimeControl extends TimeControl {
+  label: string;
+}
+
+export interface PracticeSettings {
+  strength: BotStrength;
+  timeControl: PracticeTimeControl;
+  playerColor: "w" | "b";
+}
+
+export const BOT_LEVELS: Record<BotStrength, BotLevel> = {
+  beginner: {
+    name: "Beginner",
+    description: "Looks one move ahead and often blunders",
+    maxDepth: 1,
+    timeLimitMs: 200,
+    randomMoveChance: 0.35,
+  },
+  casual: {
+    name: "Casual",
+    description: "Spots simple tactics, misses some",
+    maxDepth: 2,
+    timeLimitMs: 400,
+    randomMoveChance: 0.15,
+  },
+  intermediate: {
+    name: "Intermediate",
+    description: "Solid club-level play",
+    maxDepth: 3,
+    timeLimitMs: 800,
+    randomMoveChance: 0.05,
+  },
+  advanced: {
+    name: "Advanced",
+    description: "Full-strength search",
+    maxDepth: 5,
+    timeLimitMs: 1500,
+    randomMoveChance: 0,
+  },
+};
+
+// initial = 0 means untimed
+export const PRACTICE_TIME_CONTROLS: PracticeTimeControl[] = [
+  { label: "Untimed", initial: 0, increment: 0 },
+  { label: "3+2", initial: 180, increment: 2 },
+  { label: "5+0", initial: 300, increment: 0 },
+  { label: "10+5", initial: 600, increment: 5 },
+  { label: "30+30", initial: 1800, increment: 30 },
+];
+
+const MOVES_TO_BUDGET = 30; // spread the remaining clock over this many moves
+const MIN_THINK_MS = 50;
+
+export class ChessBot {
+  private level: BotLevel;
+  private evaluator: ChessEvaluator;
+  private random: () => number;
+
+  constructor(strength: BotStrength = "casual", random: () => number = Math.random) {
+    this.level = BOT_LEVELS[strength];
+    this.evaluator = new ChessEvaluator({
+      maxDepth: this.level.maxDepth,
+      timeLimitMs: this.level.timeLimitMs,
+    });
+    this.random = random;
+  }
+
+  getLevel(): BotLevel {
+    return this.level;
+  }
+
+  // Pick a move for the side to move, or null if the game is over.
+  // remainingMs caps thinking time so the bot doesn't flag on short clocks.
+  chooseMove(fen: string, variant: GameVariant = "standard", remainingMs?: number): Move | null {
+    const engine = new ChessEngine(fen, variant);
+    const legalMoves = engine.getLegalMoves();
+    if (legalMoves.length === 0) return null;
+
+    if (this.random() < this.level.randomMoveChance) {
+      return legalMoves[Math.floor(this.random() * legalMoves.length)];
+    }
+
+    const result = this.evaluator.search(fen, variant, {
+      timeLimitMs: this.getThinkTime(remainingMs),
+    });
+    return result.bestMove ?? legalMoves[0];
+  }
+
+  // Per-move time budget: the level's limit, shortened when the clock is low
+  private getThinkTime(remainingMs?: number): number {
+    if (remainingMs === undefined) return this.level.timeLimitMs;
+    return Math.max(MIN_THINK_MS, Math.min(this.level.timeLimitMs, remainingMs / MOVES_TO_BUDGET));
+  }
+}
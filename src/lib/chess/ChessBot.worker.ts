@@ -0,0 +1,33 @@
+import { BotStrength, ChessBot } from "./ChessBot";
+import { GameVariant, Move } from "./ChessEngine";
+
+// Runs ChessBot searches off the UI thread. Each request carries an id that
+// is echoed back so callers can ignore replies to positions they've left.
+
+export interface BotMoveRequest {
+  id: number;
+  strength: BotStrength;
+  fen: string;
+  variant: GameVariant;
+  remainingMs?: number; // bot's clock, if the game is timed
+}
+
+export interface BotMoveResponse {
+  id: number;
+  move: Move | null;
+}
+
+const bots = new Map<BotStrength, ChessBot>();
+
+addEventListener("message", (event: MessageEvent<BotMoveRequest>) => {
+  const { id, strength, fen, variant, remainingMs } = event.data;
+
+  let bot = bots.get(strength);
+  if (!bot) {
+    bot = new ChessBot(strength);
+    bots.set(strength, bot);
+  }
+
+  const response: BotMoveResponse = { id, move: bot.chooseMove(fen, variant, remainingMs) };
+  postMessage(response);
+});
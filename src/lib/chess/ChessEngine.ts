@@ -1,7 +1,28 @@
-import { Chess } from "chess.js";
+import { Chess, SEVEN_TAG_ROSTER } from "chess.js";
+import {
+  CastlingMove,
+  CastlingRooks,
+  STANDARD_CHESS960_INDEX,
+  buildCastledFen,
+  chess960StartFen,
+  formatCastlingField,
+  getCastlingMoves,
+  parseCastlingField,
+} from "./Chess960";
 
 export type GameResult = "white" | "black" | "draw" | null;
 export type GameStatus = "waiting" | "active" | "finished";
+export type GameVariant = "standard" | "chess960";
+export type TerminationReason =
+  | "checkmate"
+  | "stalemate"
+  | "threefold_repetition"
+  | "fifty_move_rule"
+  | "insufficient_material"
+  | "timeout"
+  | "resignation"
+  | "agreement"
+  | "aborted";
 
 export interface ChessGame {
   id: string;
@@ -11,6 +32,10 @@ export interface ChessGame {
   pgn: string;
   status: GameStatus;
   result: GameResult;
+  termination: TerminationReason | null;
+  variant: GameVariant;
+  startFen: string;
+  startPosition?: number; // Chess960 start position index (0-959)
   moves: string[];
   createdAt: Date;
   updatedAt: Date;
@@ -24,35 +49,85 @@ export interface Move {
   lan: string;
 }
 
+// Chess960 history entry; chess.js has no 960 castling, so 960 games keep their own history
+interface Chess960HistoryEntry {
+  san: string;
+  lan: string;
+  fenBefore: string;
+}
+
 export class ChessEngine {
   private chess: Chess;
+  private variant: GameVariant;
+  private startFen: string;
+  private castlingRooks: CastlingRooks = { w: [], b: [] }; // Chess960 only
+  private history960: Chess960HistoryEntry[] = []; // Chess960 only
+  private headers960: Record<string, string> = {}; // Chess960 only
+
+  constructor(fen?: string, variant: GameVariant = "standard") {
+    this.variant = variant;
+
+    if (variant === "chess960") {
+      this.chess = new Chess();
+      this.startFen = fen ?? chess960StartFen(STANDARD_CHESS960_INDEX);
+      this.load960(this.startFen);
+      this.headers960 = this.getDefaultHeaders960();
+    } else {
+      this.chess = new Chess(fen);
+      this.startFen = this.chess.fen();
+    }
+  }
 
-  constructor(fen?: string) {
-    this.chess = new Chess(fen);
+  // Get game variant
+  getVariant(): GameVariant {
+    return this.variant;
+  }
+
+  // Get the position the game started from
+  getStartFen(): string {
+    return this.startFen;
   }
 
   // Get current board position as FEN
   getFen(): string {
+    if (this.variant === "chess960") {
+      const fields = this.chess.fen().split(" ");
+      fields[2] = formatCastlingField(this.castlingRooks, this.chess);
+      return fields.join(" ");
+    }
     return this.chess.fen();
   }
 
   // Get current board position as PGN
   getPgn(): string {
+    if (this.variant === "chess960") {
+      return this.getPgn960();
+    }
     return this.chess.pgn();
   }
 
   // Get all moves in algebraic notation
   getMoves(): string[] {
+    if (this.variant === "chess960") {
+      return this.history960.map(entry => entry.san);
+    }
     return this.chess.history();
   }
 
   // Get all moves in long algebraic notation
   getMovesLan(): string[] {
+    if (this.variant === "chess960") {
+      return this.history960.map(entry => entry.lan);
+    }
     return this.chess.history({ verbose: true }).map(move => move.lan);
   }
 
   // Make a move
   makeMove(move: string | Move): boolean {
+    if (this.variant === "chess960") {
+      return this.makeMove960(move);
+    }
+
     try {
       if (typeof move === "string") {
         this.chess.move(move);
@@ -70,9 +145,22 @@ export class ChessEngine {
     }
   }
 
+  // Take back the last move; returns its SAN, or null if there is nothing to undo
+  undo(): string | null {
+    if (this.variant === "chess960") {
+      const entry = this.history960.pop();
+      if (!entry) return null;
+      this.load960(entry.fenBefore);
+      return entry.san;
+    }
+
+    const move = this.chess.undo();
+    return move ? move.san : null;
+  }
+
   // Check if the game is over
   isGameOver(): boolean {
-    return this.chess.isGameOver();
+    return this.chess.isCheckmate() || this.isDraw();
   }
 
   // Get game result
@@ -83,28 +171,103 @@ export class ChessEngine {
       return this.chess.turn() === "w" ? "black" : "white";
     }
     
-    if (this.chess.isDraw()) {
+    if (this.isDraw()) {
       return "draw";
     }
     
     return null;
   }
 
+  // Get why the game ended on the board (null while it is still in progress)
+  getTerminationReason(): TerminationReason | null {
+    if (!this.isGameOver()) return null;
+
+    if (this.chess.isCheckmate()) return "checkmate";
+    if (this.isStalemate()) return "stalemate";
+    if (this.chess.isInsufficientMaterial()) return "insufficient_material";
+    if (this.isThreefoldRepetition()) return "threefold_repetition";
+    if (this.chess.isDrawByFiftyMoves()) return "fifty_move_rule";
+
+    return null;
+  }
+
+  // Record the result and termination reason in the PGN headers
+  setTermination(result: GameResult, reason: TerminationReason | null): void {
+    this.setHeader("Result", toPgnResult(result));
+    if (reason) {
+      // Termination takes a standard PGN value; the specific reason goes in a custom tag
+      this.setHeader("Termination", toPgnTermination(reason));
+      this.setHeader("TerminationDetails", describeTermination(result, reason));
+    }
+  }
+
+  // Set a PGN header
+  setHeader(key: string, value: string): void {
+    if (this.variant === "chess960") {
+      this.headers960[key] = value;
+    } else {
+      this.chess.setHeader(key, value);
+    }
+  }
+
   // Get current turn
   getTurn(): "w" | "b" {
     return this.chess.turn();
   }
 
+  // Check if the side to move is in check
+  isCheck(): boolean {
+    return this.chess.inCheck();
+  }
+
+  // Check whether a side could never checkmate, whatever the opponent plays.
+  // A flag fall against such a side is a draw rather than a loss.
+  hasInsufficientMaterial(color: "w" | "b"): boolean {
+    const pieces = this.chess.board().flat().filter(piece => piece !== null);
+    const own = pieces.filter(piece => piece.color === color && piece.type !== "k");
+    const opponent = pieces.filter(piece => piece.color !== color && piece.type !== "k");
+
+    if (own.some(piece => piece.type === "p" || piece.type === "r" || piece.type === "q")) return false;
+
+    // A lone knight can only mate when the opponent has pieces to block their own king in
+    if (own.some(piece => piece.type === "n")) {
+      return own.length === 1 && opponent.every(piece => piece.type === "q");
+    }
+
+    // Bishops can only mate with help: another bishop colour, a knight or a pawn to block
+    if (own.length > 0) {
+      const bishopColors = new Set(
+        pieces.filter(piece => piece.type === "b").map(piece => this.chess.squareColor(piece.square))
+      );
+      return bishopColors.size === 1 && !pieces.some(piece => piece.type === "p" || piece.type === "n");
+    }
+
+    return true;
+  }
+
   // Get legal moves for current position
   getLegalMoves(): Move[] {
-    return this.chess.moves({ verbose: true });
+    const moves: Move[] = this.chess.moves({ verbose: true });
+    if (this.variant === "chess960") {
+      getCastlingMoves(this.chess, this.castlingRooks).forEach(castle => {
+        moves.push({ from: castle.kingFrom, to: castle.rookFrom, san: castle.san, lan: castle.lan });
+      });
+    }
+    return moves;
   }
 
   // Check if a move is legal
   isLegalMove(move: string | Move): boolean {
     try {
+      if (this.variant === "chess960" && this.findCastlingMove(move)) {
+        return true;
+      }
+
       if (typeof move === "string") {
-        return this.chess.moves().includes(move);
+        // Accept SAN ("Nf3") or coordinate notation ("g1f3", "e7e8q")
+        return this.chess.moves({ verbose: true }).some(
+          legalMove => legalMove.san === move || legalMove.lan === move
+        );
       } else {
         return this.chess.moves({ verbose: true }).some(
           legalMove => 
@@ -127,12 +290,25 @@ export class ChessEngine {
 
   // Reset game
   reset(): void {
+    if (this.variant === "chess960") {
+      this.load960(this.startFen);
+      this.history960 = [];
+      this.headers960 = this.getDefaultHeaders960();
+      return;
+    }
     this.chess.reset();
   }
 
   // Load game from FEN
   loadFen(fen: string): boolean {
     try {
+      if (this.variant === "chess960") {
+        this.load960(fen);
+        this.startFen = fen;
+        this.history960 = [];
+        this.headers960 = this.getDefaultHeaders960();
+        return true;
+      }
       this.chess.load(fen);
       return true;
     } catch (error) {
@@ -144,6 +320,10 @@ export class ChessEngine {
   // Load game from PGN
   loadPgn(pgn: string): boolean {
     try {
+      if (this.variant === "chess960") {
+        this.loadPgn960(pgn);
+        return true;
+      }
       this.chess.loadPgn(pgn);
       return true;
     } catch (error) {
@@ -166,11 +346,229 @@ export class ChessEngine {
   }
 
   // Create game from existing state
-  static fromFen(fen: string): ChessEngine | null {
+  static fromFen(fen: string, variant: GameVariant = "standard"): ChessEngine | null {
     try {
-      return new ChessEngine(fen);
+      return new ChessEngine(fen, variant);
     } catch {
       return null;
     }
   }
+
+  // Create game by replaying a move list from a starting position
+  static fromMoves(
+    moves: string[],
+    startFen?: string,
+    variant: GameVariant = "standard"
+  ): ChessEngine | null {
+    const engine = startFen
+      ? ChessEngine.fromFen(startFen, variant)
+      : new ChessEngine(undefined, variant);
+    if (!engine) return null;
+
+    for (const move of moves) {
+      if (!engine.makeMove(move)) {
+        return null;
+      }
+    }
+    return engine;
+  }
+
+  private isDraw(): boolean {
+    return (
+      this.isStalemate() ||
+      this.chess.isInsufficientMaterial() ||
+      this.isThreefoldRepetition() ||
+      this.chess.isDrawByFiftyMoves()
+    );
+  }
+
+  private isStalemate(): boolean {
+    if (this.variant === "chess960") {
+      // chess.js does not know about 960 castling, which may be the only legal move
+      return this.chess.isStalemate() && getCastlingMoves(this.chess, this.castlingRooks).length === 0;
+    }
+    return this.chess.isStalemate();
+  }
+
+  private isThreefoldRepetition(): boolean {
+    if (this.variant !== "chess960") {
+      return this.chess.isThreefoldRepetition();
+    }
+
+    // Compare placement, turn, castling rights and en passant square
+    const positionKey = (fen: string) => fen.split(" ").slice(0, 4).join(" ");
+    const current = positionKey(this.getFen());
+    const occurrences = this.history960.filter(entry => positionKey(entry.fenBefore) === current).length;
+    return occurrences + 1 >= 3;
+  }
+
+  // Load a Chess960 FEN; chess.js sees no castling rights, which are tracked here instead
+  private load960(fen: string): void {
+    const fields = fen.trim().split(/\s+/);
+    const castling = fields[2] ?? "-";
+    fields[2] = "-";
+
+    this.chess.load(fields.join(" "));
+    this.castlingRooks = parseCastlingField(castling, this.chess);
+  }
+
+  private makeMove960(move: string | Move): boolean {
+    const fenBefore = this.getFen();
+    const castle = this.findCastlingMove(move);
+
+    if (castle) {
+      this.chess.load(buildCastledFen(this.chess, castle));
+      this.castlingRooks[castle.color] = [];
+      this.history960.push({ san: castle.san, lan: castle.lan, fenBefore });
+      return true;
+    }
+
+    try {
+      const result = typeof move === "string"
+        ? this.chess.move(move)
+        : this.chess.move({ from: move.from, to: move.to, promotion: move.promotion });
+
+      // Moving the king or a castling rook (or capturing one) forfeits that right
+      if (result.piece === "k") {
+        this.castlingRooks[result.color] = [];
+      }
+      this.castlingRooks.w = this.castlingRooks.w.filter(square => square !== result.from && square !== result.to);
+      this.castlingRooks.b = this.castlingRooks.b.filter(square => square !== result.from && square !== result.to);
+
+      this.history960.push({ san: result.san, lan: result.lan, fenBefore });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Match a move against the legal Chess960 castling moves. Accepts O-O / O-O-O,
+  // king-takes-rook coordinates, or king-to-destination when that is not a plain king move.
+  private findCastlingMove(move: string | Move): CastlingMove | undefined {
+    const castles = getCastlingMoves(this.chess, this.castlingRooks);
+    if (castles.length === 0) return undefined;
+
+    let from: string;
+    let to: string;
+
+    if (typeof move === "string") {
+      const notation = move.replace(/0/g, "O").replace(/[+#]$/, "");
+      const bySan = castles.find(castle => castle.san.replace(/[+#]$/, "") === notation);
+      if (bySan) return bySan;
+
+      const coordinates = move.match(/^([a-h][1-8])-?([a-h][1-8])$/);
+      if (!coordinates) return undefined;
+      [, from, to] = coordinates;
+    } else {
+      ({ from, to } = move);
+    }
+
+    return castles.find(castle =>
+      castle.kingFrom === from &&
+      (castle.rookFrom === to || (castle.kingTo === to && !this.isPlainKingMove(from, to)))
+    );
+  }
+
+  private isPlainKingMove(from: string, to: string): boolean {
+    return this.chess.moves({ verbose: true }).some(move => move.from === from && move.to === to);
+  }
+
+  private getDefaultHeaders960(): Record<string, string> {
+    return {
+      ...SEVEN_TAG_ROSTER,
+      Variant: "Chess960",
+      SetUp: "1",
+      FEN: this.startFen,
+    };
+  }
+
+  private getPgn960(): string {
+    const headers = Object.entries(this.headers960).map(([key, value]) => `[${key} "${value}"]`);
+    const [, turn, , , , fullMoves] = this.startFen.split(" ");
+
+    let moveNumber = Number(fullMoves) || 1;
+    let whiteToMove = turn !== "b";
+    const tokens: string[] = [];
+
+    this.history960.forEach((entry, index) => {
+      if (whiteToMove) {
+        tokens.push(`${moveNumber}. ${entry.san}`);
+      } else {
+        tokens.push(index === 0 ? `${moveNumber}. ... ${entry.san}` : entry.san);
+        moveNumber++;
+      }
+      whiteToMove = !whiteToMove;
+    });
+    tokens.push(this.headers960.Result ?? "*");
+
+    return `${headers.join("\n")}\n\n${tokens.join(" ")}`;
+  }
+
+  // Parse a Chess960 PGN by replaying its movetext from the FEN header
+  private loadPgn960(pgn: string): void {
+    const headers: Record<string, string> = {};
+    for (const [, key, value] of pgn.matchAll(/\[(\w+)\s+"([^"]*)"\]/g)) {
+      headers[key] = value;
+    }
+
+    const movetext = pgn
+      .replace(/\[[^\]]*\]/g, " ")
+      .replace(/\{[^}]*\}/g, " ")
+      .replace(/;[^\n]*/g, " ")
+      .replace(/\([^)]*\)/g, " ");
+    const moves = movetext
+      .split(/\s+/)
+      .map(token => token.replace(/^\d+\.+/, ""))
+      .filter(token => token && !/^(1-0|0-1|1\/2-1\/2|\*|\$\d+)$/.test(token));
+
+    const engine = ChessEngine.fromMoves(moves, headers.FEN ?? this.startFen, "chess960");
+    if (!engine) {
+      throw new Error("Movetext could not be replayed");
+    }
+
+    this.chess = engine.chess;
+    this.startFen = engine.startFen;
+    this.castlingRooks = engine.castlingRooks;
+    this.history960 = engine.history960;
+    this.headers960 = { ...engine.headers960, ...headers };
+  }
+}
+
+// Convert a game result to the PGN result token
+export function toPgnResult(result: GameResult): string {
+  switch (result) {
+    case "white": return "1-0";
+    case "black": return "0-1";
+    case "draw": return "1/2-1/2";
+    default: return "*";
+  }
+}
+
+// Convert a termination reason to a standard PGN Termination tag value
+export function toPgnTermination(reason: TerminationReason): string {
+  switch (reason) {
+    case "timeout": return "time forfeit";
+    case "aborted": return "abandoned";
+    default: return "normal";
+  }
+}
+
+// Human readable description of how a game ended, e.g. "White won by checkmate"
+export function describeTermination(result: GameResult, reason: TerminationReason | null): string {
+  const winner = result === "white" ? "White" : result === "black" ? "Black" : null;
+
+  switch (reason) {
+    case "checkmate": return `${winner} won by checkmate`;
+    case "timeout": return winner ? `${winner} won on time` : "Game drawn on time against insufficient material";
+    case "resignation": return `${winner} won by resignation`;
+    case "stalemate": return "Game drawn by stalemate";
+    case "threefold_repetition": return "Game drawn by threefold repetition";
+    case "fifty_move_rule": return "Game drawn by the 50-move rule";
+    case "insufficient_material": return "Game drawn by insufficient material";
+    case "agreement": return "Game drawn by agreement";
+    case "aborted": return "Game aborted";
+    default:
+      if (winner) return `${winner} won`;
+      return result === "draw" ? "Game drawn" : "Game in progress";
+  }
 }
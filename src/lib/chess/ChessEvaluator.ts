@@ -0,0 +1,380 @@
+import { ChessEngine, GameVariant, Move } from "./ChessEngine";
+import { SearchBoard, SearchMove, squareName } from "./SearchBoard";
+
+export interface SearchOptions {
+  maxDepth?: number; // plies
+  timeLimitMs?: number;
+}
+
+export interface SearchResult {
+  bestMove: Move | null;
+  score: number; // centipawns from white's point of view
+  mateIn: number | null; // moves to mate (negative if black mates)
+  depth: number; // deepest fully searched ply
+  nodes: number;
+  principalVariation: string[]; // SAN
+}
+
+export interface MoveAnalysis {
+  moveIndex: number;
+  move: string;
+  bestMove: string | null;
+  scoreBefore: number; // centipawns from white's point of view
+  scoreAfter: number;
+  centipawnLoss: number; // from the mover's point of view
+  classification: MoveClassification;
+}
+
+export type MoveClassification = "best" | "good" | "inaccuracy" | "mistake" | "blunder";
+
+const DEFAULT_MAX_DEPTH = 4;
+const DEFAULT_TIME_LIMIT_MS = 1000;
+const MATE_SCORE = 100000;
+const MAX_QUIESCENCE_DEPTH = 6;
+const TIME_CHECK_INTERVAL = 256; // nodes between clock checks
+const ANALYSIS_SCORE_CAP = 1500; // mate scores count as this much when measuring move quality
+
+const PIECE_VALUES: Record<string, number> = {
+  p: 100, n: 320, b: 330, r: 500, q: 900, k: 0,
+};
+
+// Piece-square tables from white's point of view, rank 8 first (matches ChessEngine.getBoard)
+const PIECE_SQUARE_TABLES: Record<string, number[][]> = {
+  p: [
+    [0, 0, 0, 0, 0, 0, 0, 0],
+    [50, 50, 50, 50, 50, 50, 50, 50],
+    [10, 10, 20, 30, 30, 20, 10, 10],
+    [5, 5, 10, 25, 25, 10, 5, 5],
+    [0, 0, 0, 20, 20, 0, 0, 0],
+    [5, -5, -10, 0, 0, -10, -5, 5],
+    [5, 10, 10, -20, -20, 10, 10, 5],
+    [0, 0, 0, 0, 0, 0, 0, 0],
+  ],
+  n: [
+    [-50, -40, -30, -30, -30, -30, -40, -50],
+    [-40, -20, 0, 0, 0, 0, -20, -40],
+    [-30, 0, 10, 15, 15, 10, 0, -30],
+    [-30, 5, 15, 20, 20, 15, 5, -30],
+    [-30, 0, 15, 20, 20, 15, 0, -30],
+    [-30, 5, 10, 15, 15, 10, 5, -30],
+    [-40, -20, 0, 5, 5, 0, -20, -40],
+    [-50, -40, -30, -30, -30, -30, -40, -50],
+  ],
+  b: [
+    [-20, -10, -10, -10, -10, -10, -10, -20],
+    [-10, 0, 0, 0, 0, 0, 0, -10],
+    [-10, 0, 5, 10, 10, 5, 0, -10],
+    [-10, 5, 5, 10, 10, 5, 5, -10],
+    [-10, 0, 10, 10, 10, 10, 0, -10],
+    [-10, 10, 10, 10, 10, 10, 10, -10],
+    [-10, 5, 0, 0, 0, 0, 5, -10],
+    [-20, -10, -10, -10, -10, -10, -10, -20],
+  ],
+  r: [
+    [0, 0, 0, 0, 0, 0, 0, 0],
+    [5, 10, 10, 10, 10, 10, 10, 5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [0, 0, 0, 5, 5, 0, 0, 0],
+  ],
+  q: [
+    [-20, -10, -10, -5, -5, -10, -10, -20],
+    [-10, 0, 0, 0, 0, 0, 0, -10],
+    [-10, 0, 5, 5, 5, 5, 0, -10],
+    [-5, 0, 5, 5, 5, 5, 0, -5],
+    [0, 0, 5, 5, 5, 5, 0, -5],
+    [-10, 5, 5, 5, 5, 5, 0, -10],
+    [-10, 0, 5, 0, 0, 0, 0, -10],
+    [-20, -10, -10, -5, -5, -10, -10, -20],
+  ],
+  k: [
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-20, -30, -30, -40, -40, -30, -30, -20],
+    [-10, -20, -20, -20, -20, -20, -20, -10],
+    [20, 20, 0, 0, 0, 0, 20, 20],
+    [20, 30, 10, 0, 0, 10, 30, 20],
+  ],
+};
+
+// Signals that the search ran out of time mid-iteration
+class SearchTimeout extends Error {}
+
+export class ChessEvaluator {
+  private maxDepth: number;
+  private timeLimitMs: number;
+  private nodes = 0;
+  private deadline = 0;
+
+  constructor(options: SearchOptions = {}) {
+    this.maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+    this.timeLimitMs = options.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS;
+  }
+
+  // Static evaluation of a position in centipawns from white's point of view
+  evaluate(fen: string, variant: GameVariant = "standard"): number {
+    const engine = new ChessEngine(fen, variant);
+    return this.evaluateBoard(new SearchBoard(engine.getFen()));
+  }
+
+  // Search a position with iterative deepening alpha-beta, stopping at the
+  // depth or time limit. Returns the result of the deepest completed iteration.
+  search(fen: string, variant: GameVariant = "standard", options: SearchOptions = {}): SearchResult {
+    const engine = new ChessEngine(fen, variant);
+    const board = new SearchBoard(engine.getFen());
+    const maxDepth = options.maxDepth ?? this.maxDepth;
+    const sign = board.getTurn() === "w" ? 1 : -1;
+
+    this.nodes = 0;
+    this.deadline = Date.now() + (options.timeLimitMs ?? this.timeLimitMs);
+
+    let result: SearchResult = {
+      bestMove: null,
+      score: this.evaluateBoard(board),
+      mateIn: null,
+      depth: 0,
+      nodes: 0,
+      principalVariation: [],
+    };
+
+    if (board.getLegalMoves().length === 0) {
+      return { ...result, score: board.inCheck() ? -sign * MATE_SCORE : 0 };
+    }
+
+    let principalVariation: SearchMove[] = [];
+
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      try {
+        const line: SearchMove[] = [];
+        const score = this.negamax(board, depth, 0, -Infinity, Infinity, principalVariation, line);
+        principalVariation = line;
+
+        const sanLine = toSanLine(engine, line);
+        result = {
+          bestMove: engine.getLegalMoves().find(move => move.san === sanLine[0]) ?? null,
+          score: sign * score,
+          mateIn: this.toMateIn(score, sign),
+          depth,
+          nodes: this.nodes,
+          principalVariation: sanLine,
+        };
+
+        // A forced mate won't get any shorter by searching deeper
+        if (result.mateIn !== null) break;
+      } catch (error) {
+        if (error instanceof SearchTimeout) break;
+        throw error;
+      }
+    }
+
+    result.nodes = this.nodes;
+    return result;
+  }
+
+  // Suggest a move for the side to move
+  getHint(fen: string, variant: GameVariant = "standard", options: SearchOptions = {}): Move | null {
+    return this.search(fen, variant, options).bestMove;
+  }
+
+  // Analyse every move of a finished game, comparing each against the engine's choice
+  analyzeGame(
+    moves: string[],
+    startFen?: string,
+    variant: GameVariant = "standard",
+    options: SearchOptions = {}
+  ): MoveAnalysis[] {
+    const engine = new ChessEngine(startFen, variant);
+    const analysis: MoveAnalysis[] = [];
+
+    let before = this.search(engine.getFen(), variant, options);
+
+    for (let i = 0; i < moves.length; i++) {
+      const mover = engine.getTurn();
+      if (!engine.makeMove(moves[i])) {
+        console.error("Failed to replay move for analysis:", moves[i]);
+        break;
+      }
+
+      const after = this.search(engine.getFen(), variant, options);
+      const moverSign = mover === "w" ? 1 : -1;
+      const centipawnLoss = Math.max(0, moverSign * (capScore(before.score) - capScore(after.score)));
+      const played = engine.getMoves()[i];
+
+      analysis.push({
+        moveIndex: i,
+        move: played,
+        bestMove: before.bestMove?.san ?? null,
+        scoreBefore: before.score,
+        scoreAfter: after.score,
+        centipawnLoss,
+        classification: played === before.bestMove?.san ? "best" : classifyLoss(centipawnLoss),
+      });
+
+      before = after;
+    }
+
+    return analysis;
+  }
+
+  // Negamax with alpha-beta pruning; scores are from the side to move's point of view
+  private negamax(
+    board: SearchBoard,
+    depth: number,
+    ply: number,
+    alpha: number,
+    beta: number,
+    previousLine: SearchMove[],
+    line: SearchMove[]
+  ): number {
+    this.countNode();
+
+    const moves = board.getLegalMoves();
+    if (moves.length === 0) {
+      return board.inCheck() ? -(MATE_SCORE - ply) : 0;
+    }
+
+    if (depth === 0) {
+      return this.quiescence(board, alpha, beta, 0);
+    }
+
+    const ordered = orderMoves(moves, previousLine[ply]);
+    let bestScore = -Infinity;
+
+    for (const move of ordered) {
+      board.makeMove(move);
+      const childLine: SearchMove[] = [];
+      let score: number;
+      try {
+        score = -this.negamax(board, depth - 1, ply + 1, -beta, -alpha, previousLine, childLine);
+      } finally {
+        board.undoMove();
+      }
+
+      if (score > bestScore) {
+        bestScore = score;
+        line.length = 0;
+        line.push(move, ...childLine);
+      }
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+
+    return bestScore;
+  }
+
+  // Search captures only, so the static eval isn't taken in the middle of an exchange
+  private quiescence(board: SearchBoard, alpha: number, beta: number, depth: number): number {
+    this.countNode();
+
+    const sign = board.getTurn() === "w" ? 1 : -1;
+    const standPat = sign * this.evaluateBoard(board);
+
+    if (standPat >= beta || depth >= MAX_QUIESCENCE_DEPTH) return standPat;
+    if (standPat > alpha) alpha = standPat;
+
+    for (const move of orderMoves(board.getLegalMoves(true))) {
+      board.makeMove(move);
+      let score: number;
+      try {
+        score = -this.quiescence(board, -beta, -alpha, depth + 1);
+      } finally {
+        board.undoMove();
+      }
+
+      if (score >= beta) return score;
+      if (score > alpha) alpha = score;
+    }
+
+    return alpha;
+  }
+
+  // Material plus piece-square bonuses, from white's point of view
+  private evaluateBoard(board: SearchBoard): number {
+    let score = 0;
+
+    board.forEachPiece((piece, row, col) => {
+      const [color, type] = piece;
+      const tableRow = color === "w" ? row : 7 - row;
+      const value = PIECE_VALUES[type] + PIECE_SQUARE_TABLES[type][tableRow][col];
+      score += color === "w" ? value : -value;
+    });
+
+    return score;
+  }
+
+  private countNode(): void {
+    this.nodes++;
+    if (this.nodes % TIME_CHECK_INTERVAL === 0 && Date.now() > this.deadline) {
+      throw new SearchTimeout();
+    }
+  }
+
+  // Convert a negamax mate score into "mate in N moves" from white's point of view
+  private toMateIn(score: number, sign: number): number | null {
+    if (Math.abs(score) < MATE_SCORE - 1000) return null;
+    const plies = MATE_SCORE - Math.abs(score);
+    const moves = Math.ceil(plies / 2);
+    return score > 0 ? sign * moves : -sign * moves;
+  }
+}
+
+// Classify a move by how many centipawns it gave away
+export function classifyLoss(centipawnLoss: number): MoveClassification {
+  if (centipawnLoss >= 300) return "blunder";
+  if (centipawnLoss >= 100) return "mistake";
+  if (centipawnLoss >= 50) return "inaccuracy";
+  return "good";
+}
+
+function capScore(score: number): number {
+  return Math.max(-ANALYSIS_SCORE_CAP, Math.min(ANALYSIS_SCORE_CAP, score));
+}
+
+// Previous best move first, then captures by most valuable victim / least valuable attacker
+function orderMoves(moves: SearchMove[], previousBest?: SearchMove): SearchMove[] {
+  const scoreMove = (move: SearchMove) => {
+    if (previousBest && isSameMove(move, previousBest)) return Infinity;
+    const capturedValue = move.captured ? PIECE_VALUES[move.captured[1]] : 0;
+    const promotionValue = move.promotion ? PIECE_VALUES[move.promotion] : 0;
+    return capturedValue * 10 - PIECE_VALUES[move.piece[1]] / 100 + promotionValue;
+  };
+
+  return moves
+    .map(move => ({ move, score: scoreMove(move) }))
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.move);
+}
+
+function isSameMove(a: SearchMove, b: SearchMove): boolean {
+  return a.from === b.from && a.to === b.to && a.promotion === b.promotion && a.castleRook === b.castleRook;
+}
+
+// Replay a search line on a copy of the engine to get SAN for each move
+function toSanLine(engine: ChessEngine, line: SearchMove[]): string[] {
+  const replay = new ChessEngine(engine.getFen(), engine.getVariant());
+  const sanLine: string[] = [];
+
+  for (const searchMove of line) {
+    const from = squareName(searchMove.from);
+    const legal = replay.getLegalMoves().find(move => {
+      if (move.from !== from) return false;
+      if (searchMove.castleRook !== undefined) {
+        // chess.js castles king-to-destination; Chess960 castles are king-takes-rook
+        return move.san.startsWith("O-O") &&
+          (move.to === squareName(searchMove.to) || move.to === squareName(searchMove.castleRook));
+      }
+      return move.to === squareName(searchMove.to) && move.promotion === searchMove.promotion &&
+        !move.san.startsWith("O-O");
+    });
+
+    if (!legal || !replay.makeMove(legal)) break;
+    sanLine.push(legal.san);
+  }
+
+  return sanLine;
+}
@@ -0,0 +1,392 @@
+// Compact 0x88 board used by ChessEvaluator. chess.js builds before/after FENs
+// for every verbose move, which is far too slow for a search tree, so the
+// evaluator generates and plays moves here and only uses ChessEngine for SAN.
+
+export type SearchColor = "w" | "b";
+
+export interface SearchMove {
+  from: number; // 0x88 square, row 0 = rank 8
+  to: number;
+  piece: string; // e.g. "wp"
+  captured: string | null;
+  promotion?: string; // "q" | "r" | "b" | "n"
+  enPassant?: boolean;
+  castleRook?: number; // rook square for castling moves (king moves to the g/c file)
+}
+
+interface UndoState {
+  move: SearchMove;
+  castling: Record<SearchColor, number[]>;
+  epSquare: number;
+  kings: Record<SearchColor, number>;
+}
+
+const FILES = "abcdefgh";
+const KNIGHT_OFFSETS = [-33, -31, -18, -14, 14, 18, 31, 33];
+const BISHOP_OFFSETS = [-17, -15, 15, 17];
+const ROOK_OFFSETS = [-16, 16, -1, 1];
+const KING_OFFSETS = [...BISHOP_OFFSETS, ...ROOK_OFFSETS];
+const PROMOTIONS = ["q", "r", "b", "n"];
+
+export class SearchBoard {
+  private squares: (string | null)[] = new Array(128).fill(null);
+  private turn: SearchColor = "w";
+  private castling: Record<SearchColor, number[]> = { w: [], b: [] }; // rook squares with castling rights
+  private epSquare = -1;
+  private kings: Record<SearchColor, number> = { w: -1, b: -1 };
+  private history: UndoState[] = [];
+
+  // Build a board from a FEN (standard, X-FEN or Shredder-FEN castling)
+  constructor(fen: string) {
+    const [placement, turn = "w", castling = "-", epSquare = "-"] = fen.trim().split(/\s+/);
+
+    placement.split("/").forEach((rank, row) => {
+      let col = 0;
+      for (const char of rank) {
+        if (/\d/.test(char)) {
+          col += Number(char);
+          continue;
+        }
+        const color: SearchColor = char === char.toUpperCase() ? "w" : "b";
+        const square = row * 16 + col;
+        this.squares[square] = color + char.toLowerCase();
+        if (char.toLowerCase() === "k") this.kings[color] = square;
+        col++;
+      }
+    });
+
+    this.turn = turn === "b" ? "b" : "w";
+    this.epSquare = epSquare === "-" ? -1 : parseSquare(epSquare);
+
+    for (const char of castling === "-" ? "" : castling) {
+      const color: SearchColor = char === char.toUpperCase() ? "w" : "b";
+      const rook = this.findCastlingRook(color, char.toLowerCase());
+      if (rook !== -1 && !this.castling[color].includes(rook)) {
+        this.castling[color].push(rook);
+      }
+    }
+  }
+
+  getTurn(): SearchColor {
+    return this.turn;
+  }
+
+  getPiece(square: number): string | null {
+    return this.squares[square];
+  }
+
+  inCheck(): boolean {
+    return this.isAttacked(this.kings[this.turn], opponent(this.turn));
+  }
+
+  // Generate legal moves for the side to move
+  getLegalMoves(capturesOnly: boolean = false): SearchMove[] {
+    const mover = this.turn;
+    return this.getPseudoLegalMoves(capturesOnly).filter(move => {
+      this.makeMove(move);
+      const legal = !this.isAttacked(this.kings[mover], opponent(mover));
+      this.undoMove();
+      return legal;
+    });
+  }
+
+  makeMove(move: SearchMove): void {
+    const color = this.turn;
+    this.history.push({
+      move,
+      castling: { w: [...this.castling.w], b: [...this.castling.b] },
+      epSquare: this.epSquare,
+      kings: { ...this.kings },
+    });
+
+    if (move.castleRook !== undefined) {
+      const rookTo = castleRookTarget(move.to);
+      this.squares[move.from] = null;
+      this.squares[move.castleRook] = null;
+      this.squares[move.to] = `${color}k`;
+      this.squares[rookTo] = `${color}r`;
+    } else {
+      if (move.enPassant) {
+        this.squares[move.to + (color === "w" ? 16 : -16)] = null;
+      }
+      this.squares[move.to] = move.promotion ? color + move.promotion : move.piece;
+      this.squares[move.from] = null;
+    }
+
+    if (move.piece[1] === "k") {
+      this.kings[color] = move.to;
+      this.castling[color] = [];
+    }
+    // Moving or capturing a castling rook removes that right
+    this.castling.w = this.castling.w.filter(square => square !== move.from && square !== move.to);
+    this.castling.b = this.castling.b.filter(square => square !== move.from && square !== move.to);
+
+    const isDoublePush = move.piece[1] === "p" && Math.abs(move.to - move.from) === 32;
+    this.epSquare = isDoublePush ? (move.from + move.to) / 2 : -1;
+    this.turn = opponent(color);
+  }
+
+  undoMove(): void {
+    const state = this.history.pop();
+    if (!state) return;
+
+    const { move } = state;
+    const color = opponent(this.turn);
+
+    if (move.castleRook !== undefined) {
+      this.squares[move.to] = null;
+      this.squares[castleRookTarget(move.to)] = null;
+      this.squares[move.from] = `${color}k`;
+      this.squares[move.castleRook] = `${color}r`;
+    } else {
+      this.squares[move.from] = move.piece;
+      if (move.enPassant) {
+        this.squares[move.to] = null;
+        this.squares[move.to + (color === "w" ? 16 : -16)] = move.captured;
+      } else {
+        this.squares[move.to] = move.captured;
+      }
+    }
+
+    this.castling = state.castling;
+    this.epSquare = state.epSquare;
+    this.kings = state.kings;
+    this.turn = color;
+  }
+
+  // Visit every piece on the board
+  forEachPiece(callback: (piece: string, row: number, col: number) => void): void {
+    for (let square = 0; square < 128; square++) {
+      if (square & 0x88) {
+        square += 7;
+        continue;
+      }
+      const piece = this.squares[square];
+      if (piece) callback(piece, square >> 4, square & 7);
+    }
+  }
+
+  isAttacked(square: number, by: SearchColor): boolean {
+    // Pawns attack diagonally forward, so look diagonally backward from the target
+    const pawnSources = by === "w" ? [15, 17] : [-15, -17];
+    for (const offset of pawnSources) {
+      const source = square + offset;
+      if (!(source & 0x88) && this.squares[source] === `${by}p`) return true;
+    }
+
+    for (const offset of KNIGHT_OFFSETS) {
+      const source = square + offset;
+      if (!(source & 0x88) && this.squares[source] === `${by}n`) return true;
+    }
+
+    for (const offset of KING_OFFSETS) {
+      const source = square + offset;
+      if (!(source & 0x88) && this.squares[source] === `${by}k`) return true;
+    }
+
+    return (
+      this.isAttackedBySlider(square, by, BISHOP_OFFSETS, "b") ||
+      this.isAttackedBySlider(square, by, ROOK_OFFSETS, "r")
+    );
+  }
+
+  private isAttackedBySlider(square: number, by: SearchColor, offsets: number[], type: string): boolean {
+    for (const offset of offsets) {
+      let source = square + offset;
+      while (!(source & 0x88)) {
+        const piece = this.squares[source];
+        if (piece) {
+          if (piece[0] === by && (piece[1] === type || piece[1] === "q")) return true;
+          break;
+        }
+        source += offset;
+      }
+    }
+    return false;
+  }
+
+  private getPseudoLegalMoves(capturesOnly: boolean): SearchMove[] {
+    const moves: SearchMove[] = [];
+    const color = this.turn;
+
+    for (let from = 0; from < 128; from++) {
+      if (from & 0x88) {
+        from += 7;
+        continue;
+      }
+      const piece = this.squares[from];
+      if (!piece || piece[0] !== color) continue;
+
+      switch (piece[1]) {
+        case "p":
+          this.addPawnMoves(moves, from, piece, capturesOnly);
+          break;
+        case "n":
+          this.addStepMoves(moves, from, piece, KNIGHT_OFFSETS, capturesOnly);
+          break;
+        case "b":
+          this.addSlidingMoves(moves, from, piece, BISHOP_OFFSETS, capturesOnly);
+          break;
+        case "r":
+          this.addSlidingMoves(moves, from, piece, ROOK_OFFSETS, capturesOnly);
+          break;
+        case "q":
+          this.addSlidingMoves(moves, from, piece, KING_OFFSETS, capturesOnly);
+          break;
+        case "k":
+          this.addStepMoves(moves, from, piece, KING_OFFSETS, capturesOnly);
+          if (!capturesOnly) this.addCastlingMoves(moves, from, piece);
+          break;
+      }
+    }
+
+    return moves;
+  }
+
+  private addPawnMoves(moves: SearchMove[], from: number, piece: string, capturesOnly: boolean): void {
+    const color = piece[0] as SearchColor;
+    const forward = color === "w" ? -16 : 16;
+    const startRow = color === "w" ? 6 : 1;
+    const promotionRow = color === "w" ? 0 : 7;
+
+    const addPawnMove = (to: number, captured: string | null, enPassant?: boolean) => {
+      if (to >> 4 === promotionRow) {
+        PROMOTIONS.forEach(promotion => moves.push({ from, to, piece, captured, promotion }));
+      } else {
+        moves.push({ from, to, piece, captured, enPassant });
+      }
+    };
+
+    const oneStep = from + forward;
+    if (!(oneStep & 0x88) && !this.squares[oneStep]) {
+      // Quiet promotions are included in capture-only searches as well
+      if (!capturesOnly || oneStep >> 4 === promotionRow) {
+        addPawnMove(oneStep, null);
+      }
+      const twoStep = oneStep + forward;
+      if (!capturesOnly && from >> 4 === startRow && !this.squares[twoStep]) {
+        moves.push({ from, to: twoStep, piece, captured: null });
+      }
+    }
+
+    for (const side of [-1, 1]) {
+      const to = from + forward + side;
+      if (to & 0x88) continue;
+
+      const target = this.squares[to];
+      if (target && target[0] !== color) {
+        addPawnMove(to, target);
+      } else if (to === this.epSquare) {
+        addPawnMove(to, `${opponent(color)}p`, true);
+      }
+    }
+  }
+
+  private addStepMoves(
+    moves: SearchMove[],
+    from: number,
+    piece: string,
+    offsets: number[],
+    capturesOnly: boolean
+  ): void {
+    for (const offset of offsets) {
+      const to = from + offset;
+      if (to & 0x88) continue;
+
+      const target = this.squares[to];
+      if (target) {
+        if (target[0] !== piece[0]) moves.push({ from, to, piece, captured: target });
+      } else if (!capturesOnly) {
+        moves.push({ from, to, piece, captured: null });
+      }
+    }
+  }
+
+  private addSlidingMoves(
+    moves: SearchMove[],
+    from: number,
+    piece: string,
+    offsets: number[],
+    capturesOnly: boolean
+  ): void {
+    for (const offset of offsets) {
+      let to = from + offset;
+      while (!(to & 0x88)) {
+        const target = this.squares[to];
+        if (target) {
+          if (target[0] !== piece[0]) moves.push({ from, to, piece, captured: target });
+          break;
+        }
+        if (!capturesOnly) moves.push({ from, to, piece, captured: null });
+        to += offset;
+      }
+    }
+  }
+
+  // Castling for standard and Chess960 start positions: the king ends on the
+  // g/c file and the rook on the f/d file, with every square in between empty
+  private addCastlingMoves(moves: SearchMove[], from: number, piece: string): void {
+    const color = piece[0] as SearchColor;
+    const them = opponent(color);
+    const row = from >> 4;
+    if (this.castling[color].length === 0 || this.isAttacked(from, them)) return;
+
+    for (const rook of this.castling[color]) {
+      if (this.squares[rook] !== `${color}r` || rook >> 4 !== row) continue;
+
+      const kingSide = (rook & 7) > (from & 7);
+      const kingTo = row * 16 + (kingSide ? 6 : 2);
+      const rookTo = castleRookTarget(kingTo);
+
+      const spanned = [from, kingTo, rook, rookTo];
+      const blocked = range(Math.min(...spanned), Math.max(...spanned)).some(
+        square => square !== from && square !== rook && this.squares[square] !== null
+      );
+      if (blocked) continue;
+
+      const kingPath = range(Math.min(from, kingTo), Math.max(from, kingTo));
+      if (kingPath.some(square => this.isAttacked(square, them))) continue;
+
+      moves.push({ from, to: kingTo, piece, captured: null, castleRook: rook });
+    }
+  }
+
+  // Resolve a castling field character to the rook square it refers to
+  private findCastlingRook(color: SearchColor, token: string): number {
+    const king = this.kings[color];
+    const row = color === "w" ? 7 : 0;
+    if (king === -1 || king >> 4 !== row) return -1;
+
+    const isOwnRook = (col: number) => this.squares[row * 16 + col] === `${color}r`;
+
+    if (token === "k") {
+      for (let col = 7; col > (king & 7); col--) if (isOwnRook(col)) return row * 16 + col;
+    } else if (token === "q") {
+      for (let col = 0; col < (king & 7); col++) if (isOwnRook(col)) return row * 16 + col;
+    } else if (FILES.includes(token) && isOwnRook(FILES.indexOf(token))) {
+      return row * 16 + FILES.indexOf(token);
+    }
+    return -1;
+  }
+}
+
+export function squareName(square: number): string {
+  return `${FILES[square & 7]}${8 - (square >> 4)}`;
+}
+
+function parseSquare(name: string): number {
+  return (8 - Number(name[1])) * 16 + FILES.indexOf(name[0]);
+}
+
+function opponent(color: SearchColor): SearchColor {
+  return color === "w" ? "b" : "w";
+}
+
+// Rook destination for a castling king destination (g-file => f-file, c-file => d-file)
+function castleRookTarget(kingTo: number): number {
+  return (kingTo & 7) === 6 ? kingTo - 1 : kingTo + 1;
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
@@ -1,6 +1,9 @@
 import { ChessBet__factory } from "../../../typechain-types";
 import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
 import { parseUnits, formatUnits } from "viem";
+import { GameVariant } from "../chess/ChessEngine";
+import { BetSide } from "../betting/BettingEngine";
+import { OrderOptions, SelfTradePrevention, TimeInForce } from "../orderbook/OrderbookManager";
 
 // Contract ABI and configuration
 export const CHESS_BET_ABI = ChessBet__factory.abi;
@@ -16,6 +19,52 @@ export const MOCK_ERC20_ADDRESSES = {
   baseSepolia: process.env.NEXT_PUBLIC_MOCK_ERC20_CONTRACT_BASE_SEP || "",
 };
 
+// Contract variant ids (ChessBet.VARIANT_STANDARD / VARIANT_CHESS960)
+export const GAME_VARIANT_IDS: Record<GameVariant, number> = {
+  standard: 0,
+  chess960: 1,
+};
+
+// Contract result ids, also used as spectator bet sides
+export const BET_SIDE_IDS: Record<BetSide, number> = {
+  white: 0,
+  black: 1,
+  draw: 2,
+};
+
+// Contract time-in-force ids for orders
+export const TIME_IN_FORCE_IDS: Record<TimeInForce, number> = {
+  GTC: 0,
+  IOC: 1,
+  FOK: 2,
+  GTT: 3,
+};
+
+// ChessBet STP_* constants
+export const SELF_TRADE_PREVENTION_IDS: Record<SelfTradePrevention, number> = {
+  cancel_newest: 0,
+  cancel_oldest: 1,
+  cancel_both: 2,
+};
+
+// Whether options differ from the contract defaults (GTC, cancel newest) used by placeOrder
+function hasOrderOptions(options: OrderOptions): boolean {
+  return (options.timeInForce ?? "GTC") !== "GTC" || (options.selfTradePrevention ?? "cancel_newest") !== "cancel_newest";
+}
+
+// Arguments for placeOrderWithOptions after the amount: variant and the OrderOptions tuple (expiry in unix seconds)
+function orderOptionsArgs(variant: GameVariant, options: OrderOptions) {
+  const expiresAt = options.expiresAt ? BigInt(Math.floor(options.expiresAt.getTime() / 1000)) : 0n;
+  return [
+    GAME_VARIANT_IDS[variant],
+    {
+      timeInForce: TIME_IN_FORCE_IDS[options.timeInForce ?? "GTC"],
+      expiresAt,
+      selfTradePrevention: SELF_TRADE_PREVENTION_IDS[options.selfTradePrevention ?? "cancel_newest"],
+    },
+  ] as const;
+}
+
 // Hook for reading contract data
 export function useChessBetContract() {
   const { chain } = useAccount();
@@ -98,6 +147,57 @@ export function usePlayerBets(playerAddress: string) {
   return { bets, isLoading };
 }
 
+// Hook for reading a game's spectator pool
+export function useSpectatorPool(gameId: string) {
+  const { contractAddress } = useChessBetContract();
+  
+  const { data: pool, isLoading } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: CHESS_BET_ABI,
+    functionName: "getSpectatorPool",
+    args: [gameId as `0x${string}`],
+    query: {
+      enabled: !!contractAddress && !!gameId,
+    },
+  });
+
+  return { pool, isLoading };
+}
+
+// Hook for reading a game's spectator bets
+export function useSpectatorBets(gameId: string) {
+  const { contractAddress } = useChessBetContract();
+  
+  const { data: bets, isLoading } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: CHESS_BET_ABI,
+    functionName: "getSpectatorBets",
+    args: [gameId as `0x${string}`],
+    query: {
+      enabled: !!contractAddress && !!gameId,
+    },
+  });
+
+  return { bets, isLoading };
+}
+
+// Hook for reading the games a bettor has backed as a spectator
+export function useSpectatorGames(bettorAddress: string) {
+  const { contractAddress } = useChessBetContract();
+  
+  const { data: gameIds, isLoading } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: CHESS_BET_ABI,
+    functionName: "getSpectatorGames",
+    args: [bettorAddress as `0x${string}`],
+    query: {
+      enabled: !!contractAddress && !!bettorAddress,
+    },
+  });
+
+  return { gameIds, isLoading };
+}
+
 // Hook for reading betting tier amounts
 export function useBettingTierAmounts() {
   const { contractAddress } = useChessBetContract();
@@ -156,6 +256,38 @@ export function useCreateGame() {
   };
 }
 
+// Hook for creating a game in a non-standard variant (e.g. Chess960)
+export function useCreateVariantGame() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const createVariantGame = async (
+    blackPlayer: string,
+    timeControl: number,
+    bettingTier: number,
+    variant: GameVariant,
+    contractAddress: string
+  ) => {
+    return writeContract({
+      address: contractAddress as `0x${string}`,
+      abi: CHESS_BET_ABI,
+      functionName: "createVariantGame",
+      args: [blackPlayer as `0x${string}`, BigInt(timeControl), bettingTier, GAME_VARIANT_IDS[variant]],
+    });
+  };
+
+  return {
+    createVariantGame,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
 // Hook for placing a bet
 export function usePlaceBet() {
   const { writeContract, data: hash, isPending, error } = useWriteContract();
@@ -182,6 +314,32 @@ export function usePlaceBet() {
   };
 }
 
+// Hook for placing a spectator bet on someone else's live game
+export function usePlaceSpectatorBet() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const placeSpectatorBet = async (gameId: string, side: BetSide, amount: string, contractAddress: string) => {
+    return writeContract({
+      address: contractAddress as `0x${string}`,
+      abi: CHESS_BET_ABI,
+      functionName: "placeSpectatorBet",
+      args: [gameId as `0x${string}`, BET_SIDE_IDS[side], parseUnits(amount, 6)], // USDC has 6 decimals
+    });
+  };
+
+  return {
+    placeSpectatorBet,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
 // Hook for starting a game
 export function useStartGame() {
   const { writeContract, data: hash, isPending, error } = useWriteContract();
@@ -260,6 +418,136 @@ export function useSubmitGameResult() {
   };
 }
 
+// Hook for resigning a game
+export function useResign() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const resign = async (gameId: string, contractAddress: string) => {
+    return writeContract({
+      address: contractAddress as `0x${string}`,
+      abi: CHESS_BET_ABI,
+      functionName: "resign",
+      args: [gameId as `0x${string}`],
+    });
+  };
+
+  return {
+    resign,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
+// Hook for offering a draw
+export function useOfferDraw() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const offerDraw = async (gameId: string, contractAddress: string) => {
+    return writeContract({
+      address: contractAddress as `0x${string}`,
+      abi: CHESS_BET_ABI,
+      functionName: "offerDraw",
+      args: [gameId as `0x${string}`],
+    });
+  };
+
+  return {
+    offerDraw,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
+// Hook for accepting the opponent's draw offer
+export function useAcceptDraw() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const acceptDraw = async (gameId: string, contractAddress: string) => {
+    return writeContract({
+      address: contractAddress as `0x${string}`,
+      abi: CHESS_BET_ABI,
+      functionName: "acceptDraw",
+      args: [gameId as `0x${string}`],
+    });
+  };
+
+  return {
+    acceptDraw,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
+// Hook for declining the opponent's draw offer
+export function useDeclineDraw() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const declineDraw = async (gameId: string, contractAddress: string) => {
+    return writeContract({
+      address: contractAddress as `0x${string}`,
+      abi: CHESS_BET_ABI,
+      functionName: "declineDraw",
+      args: [gameId as `0x${string}`],
+    });
+  };
+
+  return {
+    declineDraw,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
+// Hook for aborting a game before both players have moved
+export function useAbortGame() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const abortGame = async (gameId: string, contractAddress: string) => {
+    return writeContract({
+      address: contractAddress as `0x${string}`,
+      abi: CHESS_BET_ABI,
+      functionName: "abortGame",
+      args: [gameId as `0x${string}`],
+    });
+  };
+
+  return {
+    abortGame,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
 // Hook for claiming payout
 export function useClaimPayout() {
   const { writeContract, data: hash, isPending, error } = useWriteContract();
@@ -292,7 +580,23 @@ export function usePlaceOrder() {
     hash,
   });
 
-  const placeOrder = async (side: number, timeControl: number, amount: string, contractAddress: string) => {
+  // Orders are good-til-cancelled and cancel themselves on a self-trade unless options say otherwise
+  const placeOrder = async (
+    side: number,
+    timeControl: number,
+    amount: string,
+    contractAddress: string,
+    options: OrderOptions = {}
+  ) => {
+    if (hasOrderOptions(options)) {
+      return writeContract({
+        address: contractAddress as `0x${string}`,
+        abi: CHESS_BET_ABI,
+        functionName: "placeOrderWithOptions",
+        args: [side, BigInt(timeControl), parseUnits(amount, 6), ...orderOptionsArgs("standard", options)],
+      });
+    }
+
     return writeContract({
       address: contractAddress as `0x${string}`,
       abi: CHESS_BET_ABI,
@@ -311,6 +615,48 @@ export function usePlaceOrder() {
   };
 }
 
+// Hook for placing an order in a variant orderbook (unlimited tier)
+export function usePlaceVariantOrder() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const placeVariantOrder = async (
+    side: number,
+    timeControl: number,
+    amount: string,
+    variant: GameVariant,
+    contractAddress: string,
+    options: OrderOptions = {}
+  ) => {
+    if (hasOrderOptions(options)) {
+      return writeContract({
+        address: contractAddress as `0x${string}`,
+        abi: CHESS_BET_ABI,
+        functionName: "placeOrderWithOptions",
+        args: [side, BigInt(timeControl), parseUnits(amount, 6), ...orderOptionsArgs(variant, options)],
+      });
+    }
+
+    return writeContract({
+      address: contractAddress as `0x${string}`,
+      abi: CHESS_BET_ABI,
+      functionName: "placeVariantOrder",
+      args: [side, BigInt(timeControl), parseUnits(amount, 6), GAME_VARIANT_IDS[variant]], // USDC has 6 decimals
+    });
+  };
+
+  return {
+    placeVariantOrder,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
 // Utility functions
 export function formatUSDC(amount: bigint): string {
   return formatUnits(amount, 6);
@@ -0,0 +1,122 @@
+import { TimeControl } from "../orderbook/OrderbookManager";
+
+export type ClockColor = "w" | "b";
+
+export interface ClockState {
+  whiteRemaining: number; // ms
+  blackRemaining: number; // ms
+  increment: number; // ms added after each completed move
+  activeColor: ClockColor | null; // side whose clock is running
+  lastSwitchAt: number | null; // epoch ms when the active clock started
+  flagged: ClockColor | null; // side that ran out of time
+}
+
+export class GameClock {
+  private whiteRemaining: number;
+  private blackRemaining: number;
+  private increment: number;
+  private activeColor: ClockColor | null = null;
+  private lastSwitchAt: number | null = null;
+  private flagged: ClockColor | null = null;
+
+  constructor(timeControl: TimeControl) {
+    this.whiteRemaining = timeControl.initial * 1000;
+    this.blackRemaining = timeControl.initial * 1000;
+    this.increment = timeControl.increment * 1000;
+  }
+
+  // Start the clock for the side to move
+  start(color: ClockColor = "w", now: number = Date.now()): void {
+    if (this.flagged) return;
+    this.activeColor = color;
+    this.lastSwitchAt = now;
+  }
+
+  // Stop the running clock, charging the elapsed time to the active side
+  stop(now: number = Date.now()): void {
+    this.chargeElapsed(now);
+    this.activeColor = null;
+    this.lastSwitchAt = null;
+  }
+
+  // Complete a move for the active side: deduct thinking time, add the
+  // increment and hand the clock to the opponent. Returns false if the
+  // side had already run out of time, in which case no increment is applied.
+  punch(now: number = Date.now()): boolean {
+    if (!this.activeColor) return false;
+
+    const mover = this.activeColor;
+    if (!this.chargeElapsed(now)) {
+      return false;
+    }
+
+    if (mover === "w") {
+      this.whiteRemaining += this.increment;
+    } else {
+      this.blackRemaining += this.increment;
+    }
+
+    this.activeColor = mover === "w" ? "b" : "w";
+    this.lastSwitchAt = now;
+    return true;
+  }
+
+  // Get remaining time for a side, including time elapsed on a running clock
+  getRemaining(color: ClockColor, now: number = Date.now()): number {
+    const stored = color === "w" ? this.whiteRemaining : this.blackRemaining;
+    if (color !== this.activeColor || this.lastSwitchAt === null) {
+      return stored;
+    }
+    return Math.max(0, stored - (now - this.lastSwitchAt));
+  }
+
+  // Check whether the active side has run out of time
+  checkFlag(now: number = Date.now()): ClockColor | null {
+    if (this.flagged) return this.flagged;
+    if (this.activeColor && this.getRemaining(this.activeColor, now) <= 0) {
+      this.chargeElapsed(now);
+    }
+    return this.flagged;
+  }
+
+  isRunning(): boolean {
+    return this.activeColor !== null;
+  }
+
+  // Get a snapshot of the clock for clients
+  getState(now: number = Date.now()): ClockState {
+    return {
+      whiteRemaining: this.getRemaining("w", now),
+      blackRemaining: this.getRemaining("b", now),
+      increment: this.increment,
+      activeColor: this.activeColor,
+      lastSwitchAt: this.lastSwitchAt,
+      flagged: this.flagged,
+    };
+  }
+
+  // Deduct elapsed time from the active side; returns false if it flagged
+  private chargeElapsed(now: number): boolean {
+    if (!this.activeColor || this.lastSwitchAt === null) {
+      return !this.flagged;
+    }
+
+    const elapsed = Math.max(0, now - this.lastSwitchAt);
+    this.lastSwitchAt = now;
+
+    if (this.activeColor === "w") {
+      this.whiteRemaining = Math.max(0, this.whiteRemaining - elapsed);
+      if (this.whiteRemaining === 0) this.flagged = "w";
+    } else {
+      this.blackRemaining = Math.max(0, this.blackRemaining - elapsed);
+      if (this.blackRemaining === 0) this.flagged = "b";
+    }
+
+    if (this.flagged) {
+      this.activeColor = null;
+      this.lastSwitchAt = null;
+      return false;
+    }
+    return true;
+  }
+}
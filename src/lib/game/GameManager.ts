@@ -1,6 +1,20 @@
-import { ChessEngine, ChessGame, GameResult } from "../chess/ChessEngine";
-import { BettingEngine, BettingPool } from "../betting/BettingEngine";
-import { OrderbookManager, Order, OrderSide } from "../orderbook/OrderbookManager";
+import { ChessEngine, ChessGame, GameResult, GameVariant, TerminationReason } from "../chess/ChessEngine";
+import { chess960IndexFromSeed, chess960StartFen } from "../chess/Chess960";
+import { ChessEvaluator } from "../chess/ChessEvaluator";
+import { BettingEngine, BettingPool, Bet, BetSide, Parlay, PropBet, PropPool } from "../betting/BettingEngine";
+import {
+  CashOutQuote,
+  OddsQuote,
+  PositionSnapshot,
+  estimateOutcomeProbabilities,
+  priceOdds,
+} from "../betting/InPlayOdds";
+import { PropSide, getGameFacts } from "../betting/PropMarkets";
+import { BetLimitError, BetLimits, BetPlacement, BetRejection, rejectBet } from "../betting/BetLimits";
+import { PlayerBalances } from "../betting/PlayerLedger";
+import { OrderbookManager, Order, OrderOptions, OrderSide } from "../orderbook/OrderbookManager";
+import { GameClock, ClockState } from "./GameClock";
+import { exportGamePgn, exportGamesPgn } from "./PgnExport";
 
 export type BettingTier = "low" | "medium" | "unlimited";
 
@@ -10,7 +24,11 @@ export interface GameMatch {
   blackPlayer: string;
   game: ChessGame;
   bettingPool: BettingPool;
+  spectatorPool: BettingPool; // third-party bets, settled separately from the players' stakes
+  propPools: PropPool[]; // one per prop market, settled from the final move history
   bettingTier: BettingTier;
+  stake: bigint; // each player's wager: the tier amount, or the matched order amount for unlimited
+  variant: GameVariant;
   timeControl: {
     initial: number; // seconds
     increment: number; // seconds per move
@@ -37,9 +55,16 @@ export class GameManager {
   private games: Map<string, GameMatch> = new Map();
   private players: Map<string, Player> = new Map();
   private waitingQueues: Map<BettingTier, string[]> = new Map(); // Separate queues for each betting tier
+  private queuedVariants: Map<string, GameVariant> = new Map(); // player => variant they are queued for
+  private clocks: Map<string, GameClock> = new Map(); // Server-side clocks for active games
+  private flagTimers: Map<string, ReturnType<typeof setTimeout>> = new Map(); // gameId => timer for the running clock's flag fall
+  private drawOffers: Map<string, string> = new Map(); // gameId => address of player offering a draw
+  private takebackRequests: Map<string, string> = new Map(); // gameId => address of player asking for a takeback
+  private engines: Map<string, ChessEngine> = new Map(); // Cached engines (with history) for live games
   private chessEngine: ChessEngine;
   private bettingEngine: BettingEngine;
   private orderbookManager: OrderbookManager;
+  private evaluator = new ChessEvaluator({ maxDepth: 3, timeLimitMs: 200 }); // quick evals for in-play pricing
 
   // Betting tier constants (in wei)
   private readonly BETTING_TIERS = {
@@ -51,7 +76,12 @@ export class GameManager {
   constructor() {
     this.chessEngine = new ChessEngine();
     this.bettingEngine = new BettingEngine();
-    this.orderbookManager = new OrderbookManager();
+    this.orderbookManager = new OrderbookManager(
+      this.bettingEngine.getBetLimiter(),
+      this.bettingEngine.getPlayerLedger(),
+      (whiteOrder, blackOrder, amount) => this.createOrderbookMatch(whiteOrder, blackOrder, amount)?.id ?? null,
+      address => this.players.get(address)?.rating
+    );
     
     // Initialize waiting queues for each tier
     this.waitingQueues.set("low", []);
@@ -84,7 +114,31 @@ export class GameManager {
 
   // Get player by address
   getPlayer(address: string): Player | undefined {
-    return this.players.get(address);
+    const player = this.players.get(address);
+    return player && this.syncWagerTotals(player);
+  }
+
+  // Refresh a player's wagered and won totals from the balance ledger
+  private syncWagerTotals(player: Player): Player {
+    const totals = this.bettingEngine.getPlayerLedger().getTotals(player.address);
+    player.totalWagered = totals.wagered;
+    player.totalWon = totals.won;
+    return player;
+  }
+
+  // Get a player's available, held and escrowed funds
+  getPlayerBalances(address: string): PlayerBalances {
+    return this.bettingEngine.getPlayerLedger().getBalances(address);
+  }
+
+  // Add funds from a player's wallet to their available balance
+  deposit(address: string, amount: bigint): boolean {
+    return this.bettingEngine.getPlayerLedger().deposit(address, amount) !== null;
+  }
+
+  // Withdraw a player's available balance to their wallet
+  claimPayout(address: string): bigint {
+    return this.bettingEngine.claimPayout(address);
   }
 
   // Find a match for a player
@@ -93,12 +147,14 @@ export class GameManager {
     bettingTier: BettingTier,
     timeControl: { initial: number; increment: number },
     side?: OrderSide,
-    amount?: bigint
-  ): GameMatch | null {
+    amount?: bigint,
+    variant: GameVariant = "standard",
+    orderOptions: OrderOptions = {} // unlimited tier only, e.g. an opponent rating band
+  ): BetPlacement<GameMatch | null> { // null while waiting for an opponent
     // Check if player is already in a game
     const existingGame = this.getPlayerActiveGame(playerAddress);
     if (existingGame) {
-      return existingGame;
+      return { ok: true, bet: existingGame };
     }
 
     // For unlimited tier, use orderbook system
@@ -106,11 +162,15 @@ export class GameManager {
       if (!side || !amount) {
         throw new Error("Side and amount required for unlimited tier");
       }
-      return this.findMatchUnlimited(playerAddress, side, amount, timeControl);
+      return this.findMatchUnlimited(playerAddress, side, amount, timeControl, variant, orderOptions);
     }
 
+    // Tier stakes count against the same limits as orders and bets
+    const rejection = this.checkBetAmount(bettingTier, this.BETTING_TIERS[bettingTier], playerAddress);
+    if (rejection) return rejection;
+
     // For low and medium tiers, use simple queue system
-    return this.findMatchTiered(playerAddress, bettingTier, timeControl);
+    return { ok: true, bet: this.findMatchTiered(playerAddress, bettingTier, timeControl, variant) };
   }
 
   // Find match for unlimited tier using orderbook
@@ -118,24 +178,30 @@ export class GameManager {
     playerAddress: string,
     side: OrderSide,
     amount: bigint,
-    timeControl: { initial: number; increment: number }
-  ): GameMatch | null {
+    timeControl: { initial: number; increment: number },
+    variant: GameVariant,
+    orderOptions: OrderOptions
+  ): BetPlacement<GameMatch | null> {
     try {
-      // Place order in orderbook
-      this.orderbookManager.placeOrder(
+      // Place order in orderbook; matches become games through createOrderbookMatch
+      const order = this.orderbookManager.placeOrder(
         playerAddress,
         side,
         amount,
-        timeControl
+        timeControl,
+        variant,
+        orderOptions
       );
 
-      // If order was immediately filled, we should have matches
-      // In a real implementation, we'd process the matches here
-      // For now, we'll return null and let the frontend handle the order status
-      return null;
+      // An order filling against several resting orders starts a game per fill;
+      // the first is returned and the rest are listed on the order
+      const gameId = order.gameIds[0];
+      return { ok: true, bet: gameId ? this.games.get(gameId) ?? null : null };
     } catch (error) {
-      console.error("Error placing order:", error);
-      return null;
+      if (error instanceof BetLimitError) {
+        return rejectBet(error.reason, error.message);
+      }
+      return rejectBet("not_allowed", error instanceof Error ? error.message : String(error));
     }
   }
 
@@ -143,7 +209,8 @@ export class GameManager {
   private findMatchTiered(
     playerAddress: string,
     bettingTier: BettingTier,
-    timeControl: { initial: number; increment: number }
+    timeControl: { initial: number; increment: number },
+    variant: GameVariant
   ): GameMatch | null {
     // Get the waiting queue for this betting tier
     const waitingQueue = this.waitingQueues.get(bettingTier);
@@ -158,10 +225,12 @@ export class GameManager {
 
     // Add player to queue
     waitingQueue.push(playerAddress);
+    this.queuedVariants.set(playerAddress, variant);
 
     // Try to find a suitable opponent in the same betting tier
     const suitableOpponent = waitingQueue.find(opponentAddress => {
       if (opponentAddress === playerAddress) return false;
+      if (this.queuedVariants.get(opponentAddress) !== variant) return false;
       
       const opponent = this.getPlayer(opponentAddress);
       if (!opponent) return false;
@@ -175,13 +244,16 @@ export class GameManager {
 
     if (suitableOpponent) {
       // Create match
-      const match = this.createMatch(playerAddress, suitableOpponent, bettingTier, timeControl);
+      const match = this.createMatch(playerAddress, suitableOpponent, bettingTier, timeControl, variant);
       
       // Remove both players from queue
       const updatedQueue = waitingQueue.filter(
         addr => addr !== playerAddress && addr !== suitableOpponent
       );
       this.waitingQueues.set(bettingTier, updatedQueue);
+      this.queuedVariants.delete(playerAddress);
+      this.queuedVariants.delete(suitableOpponent);
+      this.recordTierStakes(match);
 
       return match;
     }
@@ -194,24 +266,40 @@ export class GameManager {
     whitePlayer: string,
     blackPlayer: string,
     bettingTier: BettingTier,
-    timeControl: { initial: number; increment: number }
+    timeControl: { initial: number; increment: number },
+    variant: GameVariant = "standard",
+    stake: bigint = this.BETTING_TIERS[bettingTier]
   ): GameMatch {
     const gameId = `game-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    // Chess960 start positions are derived from the game id so both players can verify them
+    let startFen = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1"; // Starting position
+    let startPosition: number | undefined;
+    if (variant === "chess960") {
+      startPosition = chess960IndexFromSeed(gameId);
+      startFen = chess960StartFen(startPosition);
+    }
     
     const game: ChessGame = {
       id: gameId,
       whitePlayer,
       blackPlayer,
-      fen: "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1", // Starting position
+      fen: startFen,
       pgn: "",
       status: "waiting",
       result: null,
+      termination: null,
+      variant,
+      startFen,
+      startPosition,
       moves: [],
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
     const bettingPool = this.bettingEngine.createBettingPool(gameId);
+    const spectatorPool = this.bettingEngine.createSpectatorPool(gameId);
+    const propPools = this.bettingEngine.openPropMarkets(gameId);
 
     const match: GameMatch = {
       id: gameId,
@@ -219,7 +307,11 @@ export class GameManager {
       blackPlayer,
       game,
       bettingPool,
+      spectatorPool,
+      propPools,
       bettingTier,
+      stake,
+      variant,
       timeControl,
       createdAt: new Date(),
     };
@@ -228,6 +320,39 @@ export class GameManager {
     return match;
   }
 
+  // Create the game for two matched orderbook orders. Each player's matched
+  // amount moves from their order into the game's betting pool as their stake.
+  // If either stake can't be placed the match is undone: both matched amounts
+  // go back to their players, the game is dropped and null is returned.
+  private createOrderbookMatch(whiteOrder: Order, blackOrder: Order, amount: bigint): GameMatch | null {
+    const match = this.createMatch(
+      whiteOrder.playerAddress,
+      blackOrder.playerAddress,
+      "unlimited",
+      whiteOrder.timeControl,
+      whiteOrder.variant,
+      amount
+    );
+
+    const placed: Bet[] = [];
+    for (const order of [whiteOrder, blackOrder]) {
+      const placement = this.bettingEngine.placeMatchedBet(match.id, order.playerAddress, order.side, amount, order.id);
+      if (placement.ok) {
+        placed.push(placement.bet);
+        continue;
+      }
+
+      console.error("Failed to stake matched order:", order.id, placement.message);
+      placed.forEach(bet => this.bettingEngine.cancelBet(bet.id));
+      [whiteOrder, blackOrder].forEach(matched => this.bettingEngine.getPlayerLedger().returnEscrow(matched.id));
+      this.bettingEngine.removeGamePools(match.id);
+      this.games.delete(match.id);
+      return null;
+    }
+
+    return match;
+  }
+
   // Start a game
   startGame(gameId: string): boolean {
     const match = this.games.get(gameId);
@@ -239,13 +364,30 @@ export class GameManager {
     match.startedAt = new Date();
     match.game.updatedAt = new Date();
 
+    // Untimed games (initial = 0) have no clock
+    if (match.timeControl.initial > 0) {
+      const clock = new GameClock(match.timeControl);
+      clock.start("w", match.startedAt.getTime());
+      this.clocks.set(gameId, clock);
+      this.armFlagTimer(gameId);
+    }
+
     return true;
   }
 
   // Make a move in a game
   makeMove(gameId: string, move: string, playerAddress: string): boolean {
     const match = this.games.get(gameId);
-    if (!match) return false;
+    if (!match || match.game.status === "finished") return false;
+
+    const now = Date.now();
+    const clock = this.clocks.get(gameId);
+
+    // A move that arrives after the flag has fallen loses on time
+    if (clock && clock.checkFlag(now)) {
+      this.finishOnTime(gameId);
+      return false;
+    }
 
     // Verify it's the player's turn
     const isWhiteTurn = match.game.moves.length % 2 === 0;
@@ -256,40 +398,74 @@ export class GameManager {
       return false;
     }
 
-    // Create chess engine instance and load current position
-    const chessEngine = new ChessEngine(match.game.fen);
+    // Use the game's engine so repetition and PGN history are preserved
+    const chessEngine = this.getGameEngine(match);
     
     // Validate and make move
     if (!chessEngine.makeMove(move)) {
       return false;
     }
 
+    // Charge thinking time and apply the increment
+    if (clock && !clock.punch(now)) {
+      this.engines.delete(gameId); // Discard the unrecorded move
+      this.finishOnTime(gameId);
+      return false;
+    }
+    this.armFlagTimer(gameId, now);
+
     // Update game state
     match.game.fen = chessEngine.getFen();
     match.game.pgn = chessEngine.getPgn();
     match.game.moves.push(move);
     match.game.updatedAt = new Date();
 
+    // Moving instead of answering declines the opponent's draw offer
+    const drawOffer = this.drawOffers.get(gameId);
+    if (drawOffer && drawOffer !== playerAddress) {
+      this.drawOffers.delete(gameId);
+    }
+
+    // Any move changes the position a takeback was requested for
+    this.takebackRequests.delete(gameId);
+
     // Check if game is over
     if (chessEngine.isGameOver()) {
-      this.finishGame(gameId, chessEngine.getGameResult());
+      this.finishGame(gameId, chessEngine.getGameResult(), chessEngine.getTerminationReason());
     }
 
     return true;
   }
 
   // Finish a game
-  finishGame(gameId: string, result: GameResult): boolean {
+  finishGame(
+    gameId: string,
+    result: GameResult,
+    termination: TerminationReason | null = null
+  ): boolean {
     const match = this.games.get(gameId);
-    if (!match) return false;
+    if (!match || match.game.status === "finished") return false;
 
     match.game.status = "finished";
     match.game.result = result;
+    match.game.termination = termination;
+    match.game.pgn = this.buildFinalPgn(match);
     match.finishedAt = new Date();
     match.game.updatedAt = new Date();
 
+    // Prop markets settle on the final move history, read before the engine is dropped
+    const facts = getGameFacts(this.getGameEngine(match), termination);
+
+    this.clocks.get(gameId)?.stop(match.finishedAt.getTime());
+    this.clearFlagTimer(gameId);
+    this.drawOffers.delete(gameId);
+    this.takebackRequests.delete(gameId);
+    this.engines.delete(gameId);
+
     // Resolve betting pool
+    this.releaseTierStakes(match);
     this.bettingEngine.resolveBets(gameId, result);
+    this.bettingEngine.resolvePropMarkets(gameId, facts);
 
     // Update player statistics
     this.updatePlayerStats(match.whitePlayer, match.blackPlayer, result);
@@ -297,6 +473,290 @@ export class GameManager {
     return true;
   }
 
+  // Resign a game, awarding it to the opponent
+  resign(gameId: string, playerAddress: string): boolean {
+    const match = this.games.get(gameId);
+    if (!match || match.game.status !== "active") return false;
+    if (!this.isGamePlayer(match, playerAddress)) return false;
+
+    return this.finishGame(
+      gameId,
+      playerAddress === match.whitePlayer ? "black" : "white",
+      "resignation"
+    );
+  }
+
+  // Offer a draw to the opponent
+  offerDraw(gameId: string, playerAddress: string): boolean {
+    const match = this.games.get(gameId);
+    if (!match || match.game.status !== "active") return false;
+    if (!this.isGamePlayer(match, playerAddress)) return false;
+
+    this.drawOffers.set(gameId, playerAddress);
+    return true;
+  }
+
+  // Accept the opponent's draw offer
+  acceptDraw(gameId: string, playerAddress: string): boolean {
+    const match = this.games.get(gameId);
+    if (!match || match.game.status !== "active") return false;
+    if (!this.isGamePlayer(match, playerAddress)) return false;
+
+    const offeredBy = this.drawOffers.get(gameId);
+    if (!offeredBy || offeredBy === playerAddress) return false;
+
+    return this.finishGame(gameId, "draw", "agreement");
+  }
+
+  // Decline the opponent's draw offer
+  declineDraw(gameId: string, playerAddress: string): boolean {
+    const match = this.games.get(gameId);
+    if (!match || match.game.status !== "active") return false;
+    if (!this.isGamePlayer(match, playerAddress)) return false;
+
+    const offeredBy = this.drawOffers.get(gameId);
+    if (!offeredBy || offeredBy === playerAddress) return false;
+
+    this.drawOffers.delete(gameId);
+    return true;
+  }
+
+  // Get the address of the player with an open draw offer
+  getDrawOffer(gameId: string): string | undefined {
+    return this.drawOffers.get(gameId);
+  }
+
+  // Ask the opponent to take back the requester's last move. Only allowed in
+  // games without stakes, so it can't be used to undo blunders in wagered play.
+  requestTakeback(gameId: string, playerAddress: string): boolean {
+    const match = this.games.get(gameId);
+    if (!match || match.game.status !== "active") return false;
+    if (!this.isGamePlayer(match, playerAddress)) return false;
+
+    if (this.bettingEngine.hasStakes(gameId)) {
+      console.error("Takebacks are not allowed in games with bets:", gameId);
+      return false;
+    }
+
+    if (this.getTakebackPlies(match, playerAddress) === 0) return false;
+
+    this.takebackRequests.set(gameId, playerAddress);
+    return true;
+  }
+
+  // Accept the opponent's takeback request, rolling the game back to before their last move
+  acceptTakeback(gameId: string, playerAddress: string): boolean {
+    const match = this.games.get(gameId);
+    if (!match || match.game.status !== "active") return false;
+    if (!this.isGamePlayer(match, playerAddress)) return false;
+
+    const requestedBy = this.takebackRequests.get(gameId);
+    if (!requestedBy || requestedBy === playerAddress) return false;
+    this.takebackRequests.delete(gameId);
+
+    // Bets may have been placed since the request was made
+    if (this.bettingEngine.hasStakes(gameId)) {
+      console.error("Takebacks are not allowed in games with bets:", gameId);
+      return false;
+    }
+
+    const plies = this.getTakebackPlies(match, requestedBy);
+    if (plies === 0) return false;
+
+    const chessEngine = this.getGameEngine(match);
+    for (let i = 0; i < plies; i++) {
+      if (!chessEngine.undo()) {
+        // Engine history is out of sync with the move list; rebuild it on next use
+        console.error("Failed to undo move for game:", gameId);
+        this.engines.delete(gameId);
+        return false;
+      }
+    }
+
+    match.game.moves = match.game.moves.slice(0, -plies);
+    match.game.fen = chessEngine.getFen();
+    match.game.pgn = chessEngine.getPgn();
+    match.game.updatedAt = new Date();
+
+    // Hand the clock back to the side that is now to move
+    const clock = this.clocks.get(gameId);
+    if (clock) {
+      const now = Date.now();
+      clock.stop(now);
+      clock.start(chessEngine.getTurn(), now);
+      this.armFlagTimer(gameId, now);
+    }
+
+    return true;
+  }
+
+  // Decline the opponent's takeback request
+  declineTakeback(gameId: string, playerAddress: string): boolean {
+    const match = this.games.get(gameId);
+    if (!match || match.game.status !== "active") return false;
+    if (!this.isGamePlayer(match, playerAddress)) return false;
+
+    const requestedBy = this.takebackRequests.get(gameId);
+    if (!requestedBy || requestedBy === playerAddress) return false;
+
+    this.takebackRequests.delete(gameId);
+    return true;
+  }
+
+  // Get the address of the player with an open takeback request
+  getTakebackRequest(gameId: string): string | undefined {
+    return this.takebackRequests.get(gameId);
+  }
+
+  // Abort a game before both sides have moved; all bets are refunded
+  abort(gameId: string, playerAddress: string): boolean {
+    const match = this.games.get(gameId);
+    if (!match || match.game.status === "finished") return false;
+    if (!this.isGamePlayer(match, playerAddress)) return false;
+    if (match.game.moves.length >= 2) return false;
+
+    match.game.status = "finished";
+    match.game.result = null;
+    match.game.termination = "aborted";
+    match.game.pgn = this.buildFinalPgn(match);
+    match.finishedAt = new Date();
+    match.game.updatedAt = new Date();
+
+    this.clocks.get(gameId)?.stop(match.finishedAt.getTime());
+    this.clearFlagTimer(gameId);
+    this.drawOffers.delete(gameId);
+    this.takebackRequests.delete(gameId);
+    this.engines.delete(gameId);
+
+    // Aborted games are not rated and stakes go back to the bettors
+    this.releaseTierStakes(match, true);
+    this.bettingEngine.refundBets(gameId);
+
+    return true;
+  }
+
+  // Count both players' tier stakes against their limits while the game runs
+  private recordTierStakes(match: GameMatch): void {
+    [match.whitePlayer, match.blackPlayer].forEach(player => {
+      this.bettingEngine.getBetLimiter().record(`${match.id}-tier-${player}`, player, match.stake, match.id, `${match.id}-player`);
+    });
+  }
+
+  // Stop counting tier stakes as exposure once the game ends; aborted games don't count at all
+  private releaseTierStakes(match: GameMatch, cancelled: boolean = false): void {
+    [match.whitePlayer, match.blackPlayer].forEach(player => {
+      this.bettingEngine.getBetLimiter().release(`${match.id}-tier-${player}`, cancelled);
+    });
+  }
+
+  private isGamePlayer(match: GameMatch, playerAddress: string): boolean {
+    return playerAddress === match.whitePlayer || playerAddress === match.blackPlayer;
+  }
+
+  // Number of plies to undo so the requester's last move is taken back:
+  // one if the opponent hasn't replied yet, two if they have
+  private getTakebackPlies(match: GameMatch, playerAddress: string): number {
+    const moveCount = match.game.moves.length;
+    const requesterIsWhite = playerAddress === match.whitePlayer;
+    const requesterMovedLast = (moveCount % 2 === 1) === requesterIsWhite;
+
+    const plies = requesterMovedLast ? 1 : 2;
+    return moveCount >= plies ? plies : 0;
+  }
+
+  // Finish a game whose clock has flagged, awarding it to the opponent
+  // unless they don't have the material to ever checkmate, which is a draw
+  private finishOnTime(gameId: string): boolean {
+    const match = this.games.get(gameId);
+    const flagged = this.clocks.get(gameId)?.checkFlag();
+    if (!match || !flagged) return false;
+
+    const opponent = flagged === "w" ? "b" : "w";
+    const result = this.getGameEngine(match).hasInsufficientMaterial(opponent)
+      ? "draw"
+      : opponent === "w" ? "white" : "black";
+    return this.finishGame(gameId, result, "timeout");
+  }
+
+  // Schedule the game to finish when the running clock's time runs out;
+  // replaces any timer armed for the previous move
+  private armFlagTimer(gameId: string, now: number = Date.now()): void {
+    this.clearFlagTimer(gameId);
+
+    const state = this.clocks.get(gameId)?.getState(now);
+    if (!state?.activeColor) return;
+
+    const remaining = state.activeColor === "w" ? state.whiteRemaining : state.blackRemaining;
+    const timer = setTimeout(() => {
+      this.flagTimers.delete(gameId);
+      const match = this.games.get(gameId);
+      if (match?.game.status === "active" && !this.finishOnTime(gameId)) {
+        this.armFlagTimer(gameId); // fired early; wait for the rest
+      }
+    }, remaining);
+
+    // A pending flag shouldn't keep a Node process alive on its own
+    timer.unref?.();
+    this.flagTimers.set(gameId, timer);
+  }
+
+  private clearFlagTimer(gameId: string): void {
+    const timer = this.flagTimers.get(gameId);
+    if (timer) {
+      clearTimeout(timer);
+      this.flagTimers.delete(gameId);
+    }
+  }
+
+  // Rebuild the game PGN with its Result and Termination headers
+  private buildFinalPgn(match: GameMatch): string {
+    const chessEngine = this.getGameEngine(match);
+    chessEngine.setTermination(match.game.result, match.game.termination);
+    return chessEngine.getPgn();
+  }
+
+  // Get the cached engine for a game, rebuilding it from the move list if needed
+  private getGameEngine(match: GameMatch): ChessEngine {
+    const cached = this.engines.get(match.id);
+    if (cached) return cached;
+
+    const chessEngine = ChessEngine.fromMoves(match.game.moves, match.game.startFen, match.variant);
+    if (!chessEngine) {
+      // Move list could not be replayed; fall back to the last known position
+      console.error("Failed to replay moves for game:", match.id);
+      return new ChessEngine(match.game.fen, match.variant);
+    }
+
+    if (match.game.status !== "finished") {
+      this.engines.set(match.id, chessEngine);
+    }
+    return chessEngine;
+  }
+
+  // Sweep active games and finish any whose clock has run out. Flag timers
+  // finish games on their own; this is for callers that drive time
+  // themselves. Expired good-til-time orders are swept off the book too.
+  checkTimeouts(now: number = Date.now()): GameMatch[] {
+    const timedOut: GameMatch[] = [];
+    this.orderbookManager.expireOrders(now);
+
+    for (const [gameId, clock] of this.clocks) {
+      const match = this.games.get(gameId);
+      if (!match || match.game.status !== "active") continue;
+
+      if (clock.checkFlag(now) && this.finishOnTime(gameId)) {
+        timedOut.push(match);
+      }
+    }
+
+    return timedOut;
+  }
+
+  // Get clock state for a game
+  getClockState(gameId: string, now: number = Date.now()): ClockState | undefined {
+    return this.clocks.get(gameId)?.getState(now);
+  }
+
   // Update player statistics
   private updatePlayerStats(whitePlayer: string, blackPlayer: string, result: GameResult): void {
     const white = this.players.get(whitePlayer);
@@ -384,6 +844,18 @@ export class GameManager {
     );
   }
 
+  // Export a game as a complete PGN with wager headers
+  exportGamePgn(gameId: string): string | null {
+    const match = this.games.get(gameId);
+    if (!match) return null;
+    return exportGamePgn(match);
+  }
+
+  // Export all of a player's games as one PGN file
+  exportPlayerGamesPgn(playerAddress: string): string {
+    return exportGamesPgn(this.getPlayerGames(playerAddress));
+  }
+
   // Get recent games
   getRecentGames(limit: number = 10): GameMatch[] {
     return Array.from(this.games.values())
@@ -395,7 +867,8 @@ export class GameManager {
   getLeaderboard(limit: number = 10): Player[] {
     return Array.from(this.players.values())
       .sort((a, b) => b.rating - a.rating)
-      .slice(0, limit);
+      .slice(0, limit)
+      .map(player => this.syncWagerTotals(player));
   }
 
   // Cancel waiting in queue
@@ -407,6 +880,7 @@ export class GameManager {
     if (index === -1) return false;
 
     waitingQueue.splice(index, 1);
+    this.queuedVariants.delete(playerAddress);
     return true;
   }
 
@@ -433,10 +907,37 @@ export class GameManager {
     return this.BETTING_TIERS[bettingTier];
   }
 
-  // Check if a bet amount is valid for a tier
-  isValidBetAmount(bettingTier: BettingTier, amount: bigint): boolean {
-    if (bettingTier === "unlimited") return true;
-    return amount === this.BETTING_TIERS[bettingTier];
+  // Check if a bet amount is valid for a tier, and within the player's stake
+  // limits when a player (and optionally a game) is given
+  isValidBetAmount(
+    bettingTier: BettingTier,
+    amount: bigint,
+    playerAddress?: string,
+    gameId?: string
+  ): boolean {
+    return this.checkBetAmount(bettingTier, amount, playerAddress, gameId) === null;
+  }
+
+  // Configure stake limits for tier matches, spectator bets, props, parlays and orderbook orders
+  setBetLimits(limits: BetLimits): void {
+    this.bettingEngine.getBetLimiter().setLimits(limits);
+  }
+
+  // Same as isValidBetAmount, but says why an amount is rejected
+  checkBetAmount(
+    bettingTier: BettingTier,
+    amount: bigint,
+    playerAddress?: string,
+    gameId?: string
+  ): BetRejection | null {
+    if (bettingTier !== "unlimited" && amount !== this.BETTING_TIERS[bettingTier]) {
+      return rejectBet("tier_amount_mismatch", `Bet amount must be ${this.BETTING_TIERS[bettingTier]} for the ${bettingTier} tier`);
+    }
+
+    if (!playerAddress) return null;
+
+    const poolId = gameId ? `${gameId}-player` : undefined;
+    return this.bettingEngine.getBetLimiter().check(playerAddress, amount, gameId, poolId);
   }
 
   // Get betting engine instance
@@ -444,20 +945,227 @@ export class GameManager {
     return this.bettingEngine;
   }
 
+  // Back a result on someone else's game. Spectator stakes go into the game's
+  // spectator pool and never touch the players' head-to-head escrow.
+  // Pool betting closes once the first move is played, like props: a late
+  // stake on a side that is already winning would take a near riskless share
+  // of the pool. In-play markets need a quote for the current position instead.
+  placeSpectatorBet(
+    gameId: string,
+    bettorAddress: string,
+    side: BetSide,
+    amount: bigint,
+    quoteId?: string
+  ): BetPlacement<Bet> {
+    const match = this.games.get(gameId);
+    if (!match) {
+      return rejectBet("game_not_found", `Game not found: ${gameId}`);
+    }
+
+    if (match.game.status === "finished") {
+      return rejectBet("market_closed", "Cannot bet on a finished game");
+    }
+
+    if (this.isGamePlayer(match, bettorAddress)) {
+      return rejectBet("not_allowed", "Players cannot bet on their own game as spectators");
+    }
+
+    if (match.game.moves.length > 0 && this.bettingEngine.getSpectatorPool(gameId)?.mode !== "in_play") {
+      return rejectBet("market_closed", "Spectator pool betting is closed once play starts");
+    }
+
+    const quote = quoteId ? this.bettingEngine.getQuote(quoteId) : undefined;
+    if (quote && quote.ply !== match.game.moves.length) {
+      return rejectBet("invalid_quote", "Quote is stale: a move has been played since it was issued");
+    }
+
+    return this.bettingEngine.placeSpectatorBet(gameId, bettorAddress, side, amount, quoteId);
+  }
+
+  // Place a bet on a prop market. Props close once the first move is played,
+  // since the history they settle on is being written from then on.
+  placePropBet(
+    gameId: string,
+    propMarketId: string,
+    bettorAddress: string,
+    side: PropSide,
+    amount: bigint
+  ): BetPlacement<PropBet> {
+    const match = this.games.get(gameId);
+    if (!match) {
+      return rejectBet("game_not_found", `Game not found: ${gameId}`);
+    }
+
+    if (match.game.status === "finished" || match.game.moves.length > 0) {
+      return rejectBet("market_closed", "Prop markets are closed once play starts");
+    }
+
+    if (this.isGamePlayer(match, bettorAddress)) {
+      return rejectBet("not_allowed", "Players cannot bet on props in their own game");
+    }
+
+    return this.bettingEngine.placePropBet(gameId, propMarketId, bettorAddress, side, amount);
+  }
+
+  // Get a game's prop market pools
+  getPropPools(gameId: string): PropPool[] {
+    return this.bettingEngine.getPropPools(gameId);
+  }
+
+  // Price a game's spectator pool from the live position instead of pool totals
+  openInPlayMarket(gameId: string): BetPlacement<BettingPool> {
+    const match = this.games.get(gameId);
+    if (!match) {
+      return rejectBet("game_not_found", `Game not found: ${gameId}`);
+    }
+
+    if (match.game.status === "finished") {
+      return rejectBet("market_closed", "Cannot open an in-play market on a finished game");
+    }
+
+    return this.bettingEngine.openInPlayMarket(gameId);
+  }
+
+  // Quote in-play odds from the engine evaluation, move number and clocks
+  getInPlayQuote(gameId: string, now: number = Date.now()): BetPlacement<OddsQuote> {
+    const match = this.games.get(gameId);
+    if (!match) {
+      return rejectBet("game_not_found", `Game not found: ${gameId}`);
+    }
+
+    if (match.game.status !== "active") {
+      return rejectBet("market_closed", "In-play quotes are only given on active games");
+    }
+
+    return this.bettingEngine.quoteInPlayOdds(
+      gameId,
+      this.getPositionSnapshot(match, now),
+      match.game.moves.length
+    );
+  }
+
+  // Quote a cash-out for a pending bet on an active game
+  getCashOutQuote(betId: string, now: number = Date.now()): BetPlacement<CashOutQuote> {
+    const bet = this.bettingEngine.getBet(betId);
+    const match = bet ? this.games.get(bet.gameId) : undefined;
+    if (!bet || !match) {
+      return rejectBet("game_not_found", `Bet or its game not found: ${betId}`);
+    }
+
+    if (match.game.status !== "active") {
+      return rejectBet("market_closed", "Bets can only be cashed out on active games");
+    }
+
+    return this.bettingEngine.quoteCashOut(
+      betId,
+      this.getPositionSnapshot(match, now),
+      match.game.moves.length
+    );
+  }
+
+  // Cash out a bet at a quote. Players can't cash out on their own game, since
+  // they could sell a winning position and then throw the game.
+  cashOut(betId: string, quoteId: string, bettorAddress: string, now: number = Date.now()): BetPlacement<Bet> {
+    const bet = this.bettingEngine.getBet(betId);
+    const match = bet ? this.games.get(bet.gameId) : undefined;
+    if (!bet || !match || bet.playerAddress !== bettorAddress) {
+      return rejectBet("game_not_found", `Bet not found for this bettor: ${betId}`);
+    }
+
+    if (match.game.status !== "active") {
+      return rejectBet("market_closed", "Bets can only be cashed out on active games");
+    }
+
+    if (this.isGamePlayer(match, bettorAddress)) {
+      return rejectBet("not_allowed", "Players cannot cash out bets on their own game");
+    }
+
+    const quote = this.bettingEngine.getCashOutQuote(quoteId);
+    if (quote && quote.ply !== match.game.moves.length) {
+      return rejectBet("invalid_quote", "Cash-out quote is stale: a move has been played since it was issued");
+    }
+
+    return this.bettingEngine.cashOut(betId, quoteId, now);
+  }
+
+  // Evaluate a game's current position and clocks for odds pricing
+  private getPositionSnapshot(match: GameMatch, now: number): PositionSnapshot {
+    const fen = this.getGameEngine(match).getFen();
+    const { score, mateIn } = this.evaluator.search(fen, match.variant);
+    const clock = this.clocks.get(match.id)?.getState(now);
+
+    return {
+      evaluation: score,
+      mateIn,
+      moveNumber: parseInt(fen.split(" ")[5]) || 1,
+      whiteRemainingMs: clock?.whiteRemaining,
+      blackRemainingMs: clock?.blackRemaining,
+      initialMs: match.timeControl.initial * 1000,
+    };
+  }
+
+  // Place a parlay on results across several unfinished games. Each leg is
+  // priced from its game's current position, like an in-play quote.
+  placeParlay(
+    bettorAddress: string,
+    picks: { gameId: string; side: BetSide }[],
+    amount: bigint,
+    now: number = Date.now()
+  ): BetPlacement<Parlay> {
+    const legs: { gameId: string; side: BetSide; odds: number }[] = [];
+
+    for (const pick of picks) {
+      const match = this.games.get(pick.gameId);
+      if (!match) {
+        return rejectBet("game_not_found", `Game not found: ${pick.gameId}`);
+      }
+
+      if (match.game.status === "finished") {
+        return rejectBet("market_closed", `Game already finished: ${pick.gameId}`);
+      }
+
+      if (this.isGamePlayer(match, bettorAddress)) {
+        return rejectBet("not_allowed", "Players cannot include their own game in a parlay");
+      }
+
+      const odds = priceOdds(estimateOutcomeProbabilities(this.getPositionSnapshot(match, now)));
+      legs.push({ gameId: pick.gameId, side: pick.side, odds: odds[pick.side] });
+    }
+
+    return this.bettingEngine.placeParlay(bettorAddress, legs, amount);
+  }
+
+  // Get a parlay by ID
+  getParlay(parlayId: string): Parlay | undefined {
+    return this.bettingEngine.getParlay(parlayId);
+  }
+
+  // Get the spectator pool for a game
+  getSpectatorPool(gameId: string): BettingPool | undefined {
+    return this.bettingEngine.getSpectatorPool(gameId);
+  }
+
   // Orderbook methods for unlimited tier
   placeOrder(
     playerAddress: string,
     side: OrderSide,
     amount: bigint,
-    timeControl: { initial: number; increment: number }
+    timeControl: { initial: number; increment: number },
+    variant: GameVariant = "standard",
+    options: OrderOptions = {}
   ): Order {
-    return this.orderbookManager.placeOrder(playerAddress, side, amount, timeControl);
+    return this.orderbookManager.placeOrder(playerAddress, side, amount, timeControl, variant, options);
   }
 
   cancelOrder(orderId: string): boolean {
     return this.orderbookManager.cancelOrder(orderId);
   }
 
+  // Expire good-til-time orders past their expiry
+  expireOrders(now: number = Date.now()): Order[] {
+    return this.orderbookManager.expireOrders(now);
+  }
+
   getOrder(orderId: string): Order | undefined {
     return this.orderbookManager.getOrder(orderId);
   }
@@ -466,12 +1174,12 @@ export class GameManager {
     return this.orderbookManager.getPlayerOrders(playerAddress);
   }
 
-  getOrderbookDepth(timeControl: { initial: number; increment: number }) {
-    return this.orderbookManager.getOrderbookDepth(timeControl);
+  getOrderbookDepth(timeControl: { initial: number; increment: number }, variant: GameVariant = "standard") {
+    return this.orderbookManager.getOrderbookDepth(timeControl, variant);
   }
 
-  getBestBidAsk(timeControl: { initial: number; increment: number }) {
-    return this.orderbookManager.getBestBidAsk(timeControl);
+  getBestBidAsk(timeControl: { initial: number; increment: number }, variant: GameVariant = "standard") {
+    return this.orderbookManager.getBestBidAsk(timeControl, variant);
   }
 
   getTickSize(): bigint {
@@ -0,0 +1,78 @@
+import { ChessEngine } from "../chess/ChessEngine";
+import { BettingPool } from "../betting/BettingEngine";
+import { GameMatch } from "./GameManager";
+
+// Build the PGN tags for a match: the Seven Tag Roster, time control and
+// termination, plus ChessBet wager tags (amounts are in wei)
+export function buildPgnHeaders(match: GameMatch): Record<string, string> {
+  const headers: Record<string, string> = {
+    Event: `ChessBet ${match.bettingTier} tier game`,
+    Site: "ChessBet",
+    Date: formatPgnDate(match.startedAt ?? match.createdAt),
+    Round: "-",
+    White: match.whitePlayer,
+    Black: match.blackPlayer,
+    TimeControl: formatTimeControl(match.timeControl),
+    GameId: match.id,
+    BettingTier: match.bettingTier,
+    WhiteStake: getPlayerStake(match.bettingPool, match.whitePlayer).toString(),
+    BlackStake: getPlayerStake(match.bettingPool, match.blackPlayer).toString(),
+    PoolTotal: match.bettingPool.totalAmount.toString(),
+    HouseFee: match.bettingPool.houseFee.toString(),
+  };
+
+  if (match.game.startPosition !== undefined) {
+    headers.Chess960Position = match.game.startPosition.toString();
+  }
+
+  return headers;
+}
+
+// Export a single match as a complete PGN, or null if its moves cannot be replayed
+export function exportGamePgn(match: GameMatch): string | null {
+  const chessEngine = ChessEngine.fromMoves(match.game.moves, match.game.startFen, match.variant);
+  if (!chessEngine) {
+    console.error("Failed to replay moves for PGN export:", match.id);
+    return null;
+  }
+
+  Object.entries(buildPgnHeaders(match)).forEach(([key, value]) => {
+    chessEngine.setHeader(key, value);
+  });
+
+  // Result and Termination headers
+  chessEngine.setTermination(match.game.result, match.game.termination);
+
+  return chessEngine.getPgn();
+}
+
+// Export several matches as one PGN database, oldest first
+export function exportGamesPgn(matches: GameMatch[]): string {
+  return [...matches]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map(match => exportGamePgn(match))
+    .filter((pgn): pgn is string => pgn !== null)
+    .join("\n\n");
+}
+
+// Total a player has staked in a pool
+function getPlayerStake(pool: BettingPool, playerAddress: string): bigint {
+  return [...pool.whiteBets, ...pool.blackBets, ...pool.drawBets]
+    .filter(bet => bet.playerAddress === playerAddress)
+    .reduce((sum, bet) => sum + bet.amount, 0n);
+}
+
+// PGN date format: YYYY.MM.DD (UTC)
+function formatPgnDate(date: Date): string {
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${date.getUTCFullYear()}.${month}.${day}`;
+}
+
+// PGN TimeControl format: "initial+increment" in seconds, "-" for untimed games
+function formatTimeControl(timeControl: GameMatch["timeControl"]): string {
+  if (timeControl.initial <= 0) return "-";
+  return timeControl.increment > 0
+    ? `${timeControl.initial}+${timeControl.increment}`
+    : `${timeControl.initial}`;
+}
@@ -1,5 +1,8 @@
-import { ChessEngine, GameResult } from "../chess/ChessEngine";
+import { ChessEngine, GameVariant } from "../chess/ChessEngine";
 import { BettingEngine } from "../betting/BettingEngine";
+import { BetLimitError, BetLimiter } from "../betting/BetLimits";
+import { PlayerLedger } from "../betting/PlayerLedger";
+import { PriceLevels } from "./PriceLevels";
 
 export type TimeControl = {
   initial: number; // seconds
@@ -8,6 +11,30 @@ export type TimeControl = {
 
 export type OrderSide = "white" | "black";
 
+export type TimeInForce =
+  | "GTC" // good-til-cancelled: rests until filled or cancelled
+  | "IOC" // immediate-or-cancel: fills what it can now, the rest is killed
+  | "FOK" // fill-or-kill: fills completely now or not at all
+  | "GTT"; // good-til-time: rests until filled, cancelled or expiresAt
+
+// expired: a GTT order reached its expiry; killed: the unfilled part of an IOC or FOK order
+export type OrderStatus = "open" | "partially_filled" | "filled" | "cancelled" | "expired" | "killed";
+
+// What happens when an incoming order would match one of the same player's resting orders.
+// The incoming order's setting applies.
+export type SelfTradePrevention =
+  | "cancel_newest" // cancel the incoming order
+  | "cancel_oldest" // cancel the resting order and keep matching
+  | "cancel_both";
+
+export interface OrderOptions {
+  timeInForce?: TimeInForce; // defaults to GTC
+  selfTradePrevention?: SelfTradePrevention; // defaults to cancel_newest
+  expiresAt?: Date; // required for GTT, not allowed otherwise
+  minOpponentRating?: number;
+  maxOpponentRating?: number;
+}
+
 export interface Order {
   id: string;
   playerAddress: string;
@@ -15,11 +42,25 @@ export interface Order {
   amount: bigint; // in wei
   tickAmount: bigint; // quantized amount
   timeControl: TimeControl;
+  variant: GameVariant;
   createdAt: Date;
   filledAmount: bigint;
-  status: "open" | "partially_filled" | "filled" | "cancelled";
+  status: OrderStatus;
+  timeInForce: TimeInForce;
+  expiresAt?: Date; // GTT only
+  selfTradePrevention: SelfTradePrevention;
+  gameIds: string[]; // games this order has been matched into, one per fill
+  minOpponentRating?: number; // with either bound set, opponents without a known rating are skipped
+  maxOpponentRating?: number;
 }
 
+// Turns a matched pair of orders into a game and returns its id. Returns null
+// if no game could be staked, after handing the escrowed amounts back.
+export type MatchHandler = (whiteOrder: Order, blackOrder: Order, amount: bigint) => string | null;
+
+// Current rating of a player, or undefined if unknown
+export type RatingLookup = (playerAddress: string) => number | undefined;
+
 export interface OrderbookLevel {
   tickAmount: bigint;
   orders: Order[]; // FIFO queue
@@ -28,8 +69,9 @@ export interface OrderbookLevel {
 
 export interface Orderbook {
   timeControl: TimeControl;
-  whiteLevels: Map<string, OrderbookLevel>; // key = tickAmount.toString()
-  blackLevels: Map<string, OrderbookLevel>; // key = tickAmount.toString()
+  variant: GameVariant;
+  whiteLevels: PriceLevels;
+  blackLevels: PriceLevels;
   allOrders: Map<string, Order>;
 }
 
@@ -44,15 +86,29 @@ export interface MatchResult {
 }
 
 export class OrderbookManager {
-  private orderbooks: Map<string, Orderbook> = new Map(); // key = timeControlKey
+  private orderbooks: Map<string, Orderbook> = new Map(); // key = orderbookKey
+  private orderIndex: Map<string, Orderbook> = new Map(); // order id => the orderbook holding it
   private readonly TICK_SIZE = 10n * 10n ** 18n; // $10 in wei
   private readonly TOLERANCE_PERCENTAGE = 5; // 5% tolerance for nearest-level matching
   private chessEngine: ChessEngine;
   private bettingEngine: BettingEngine;
-
-  constructor() {
+  private betLimiter: BetLimiter; // shared with the game manager's betting engine when given
+  private playerLedger: PlayerLedger; // likewise
+  private onMatch?: MatchHandler;
+  private getRating?: RatingLookup; // for orders with an opponent rating band
+
+  constructor(
+    betLimiter?: BetLimiter,
+    playerLedger?: PlayerLedger,
+    onMatch?: MatchHandler,
+    getRating?: RatingLookup
+  ) {
     this.chessEngine = new ChessEngine();
     this.bettingEngine = new BettingEngine();
+    this.betLimiter = betLimiter ?? this.bettingEngine.getBetLimiter();
+    this.playerLedger = playerLedger ?? this.bettingEngine.getPlayerLedger();
+    this.onMatch = onMatch;
+    this.getRating = getRating;
   }
 
   // Quantize amount to nearest tick
@@ -60,20 +116,22 @@ export class OrderbookManager {
     return (amount / this.TICK_SIZE) * this.TICK_SIZE;
   }
 
-  // Get orderbook key for time control
-  private getTimeControlKey(timeControl: TimeControl): string {
-    return `${timeControl.initial}-${timeControl.increment}`;
+  // Get orderbook key for time control and variant (each variant has its own book)
+  private getOrderbookKey(timeControl: TimeControl, variant: GameVariant): string {
+    const key = `${timeControl.initial}-${timeControl.increment}`;
+    return variant === "standard" ? key : `${key}-${variant}`;
   }
 
-  // Get or create orderbook for time control
-  private getOrCreateOrderbook(timeControl: TimeControl): Orderbook {
-    const key = this.getTimeControlKey(timeControl);
+  // Get or create orderbook for time control and variant
+  private getOrCreateOrderbook(timeControl: TimeControl, variant: GameVariant): Orderbook {
+    const key = this.getOrderbookKey(timeControl, variant);
     
     if (!this.orderbooks.has(key)) {
       this.orderbooks.set(key, {
         timeControl,
-        whiteLevels: new Map(),
-        blackLevels: new Map(),
+        variant,
+        whiteLevels: new PriceLevels(),
+        blackLevels: new PriceLevels(),
         allOrders: new Map(),
       });
     }
@@ -86,15 +144,44 @@ export class OrderbookManager {
     playerAddress: string,
     side: OrderSide,
     amount: bigint,
-    timeControl: TimeControl
+    timeControl: TimeControl,
+    variant: GameVariant = "standard",
+    options: OrderOptions = {}
   ): Order {
     const quantizedAmount = this.quantizeAmount(amount);
+    const {
+      timeInForce = "GTC",
+      expiresAt,
+      selfTradePrevention = "cancel_newest",
+      minOpponentRating,
+      maxOpponentRating,
+    } = options;
     
     if (quantizedAmount === 0n) {
       throw new Error("Amount too small after quantization");
     }
 
+    if (timeInForce === "GTT" && (!expiresAt || expiresAt.getTime() <= Date.now())) {
+      throw new Error("Good-til-time orders need an expiry in the future");
+    }
+
+    if (timeInForce !== "GTT" && expiresAt) {
+      throw new Error("Only good-til-time orders can have an expiry");
+    }
+
+    if (minOpponentRating !== undefined && maxOpponentRating !== undefined && minOpponentRating > maxOpponentRating) {
+      throw new Error("Minimum opponent rating is above the maximum");
+    }
+
+    // The whole order counts against the player's limits while it rests on the book
+    const rejection = this.betLimiter.check(playerAddress, amount);
+    if (rejection) {
+      throw new BetLimitError(rejection.reason, rejection.message);
+    }
+
     const orderId = `order-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    this.betLimiter.record(orderId, playerAddress, amount);
+    this.playerLedger.hold(orderId, playerAddress, amount, true); // funds are reserved while the order rests
     
     const order: Order = {
       id: orderId,
@@ -103,39 +190,128 @@ export class OrderbookManager {
       amount,
       tickAmount: quantizedAmount,
       timeControl,
+      variant,
       createdAt: new Date(),
       filledAmount: 0n,
       status: "open",
+      timeInForce,
+      expiresAt,
+      selfTradePrevention,
+      gameIds: [],
+      minOpponentRating,
+      maxOpponentRating,
     };
 
-    const orderbook = this.getOrCreateOrderbook(timeControl);
+    const orderbook = this.getOrCreateOrderbook(timeControl, variant);
     orderbook.allOrders.set(orderId, order);
+    this.orderIndex.set(orderId, orderbook);
+
+    // Fill-or-kill orders never touch the book unless the whole amount can match now
+    if (timeInForce === "FOK" && this.getFillableAmount(order) < amount) {
+      order.status = "killed";
+      this.betLimiter.release(orderId, true);
+      this.playerLedger.releaseHold(orderId);
+      return order;
+    }
 
     // Add to appropriate level
     const levels = side === "white" ? orderbook.whiteLevels : orderbook.blackLevels;
-    const levelKey = quantizedAmount.toString();
-    
-    if (!levels.has(levelKey)) {
-      levels.set(levelKey, {
-        tickAmount: quantizedAmount,
-        orders: [],
-        totalAmount: 0n,
-      });
-    }
-
-    const level = levels.get(levelKey)!;
+    const level = levels.getOrCreate(quantizedAmount);
     level.orders.push(order);
     level.totalAmount += quantizedAmount;
 
     // Try to match immediately
     this.attemptMatch(order);
 
+    // Immediate-or-cancel orders don't rest; whatever didn't fill is killed
+    if (timeInForce === "IOC" && this.isLive(order) && order.filledAmount < order.amount) {
+      this.removeFromBook(order, "killed");
+    }
+
     return order;
   }
 
+  // How much of an order matching would fill right now, without touching the
+  // book. Walks levels and resting orders exactly as attemptMatch does, so a
+  // fill-or-kill order is only let through when it will fill completely.
+  private getFillableAmount(order: Order): bigint {
+    const orderbook = this.getOrCreateOrderbook(order.timeControl, order.variant);
+    const oppositeLevels = order.side === "white" ? orderbook.blackLevels : orderbook.whiteLevels;
+    const exactLevel = oppositeLevels.get(order.tickAmount);
+    const levels = [
+      ...(exactLevel ? [exactLevel] : []),
+      ...this.getCandidateLevels(order, oppositeLevels).filter(level => level !== exactLevel),
+    ];
+    const wanted = order.amount - order.filledAmount;
+    let fillable = 0n;
+
+    for (const level of levels) {
+      for (const resting of level.orders) {
+        if (fillable === wanted) return fillable;
+        if (this.isExpired(resting)) continue;
+
+        // Meeting one of the player's own orders cancels this one, unless only the resting order goes
+        if (resting.playerAddress === order.playerAddress) {
+          if (order.selfTradePrevention !== "cancel_oldest") return fillable;
+          continue;
+        }
+
+        if (!this.canMatch(order, resting)) continue;
+
+        const restingAmount = resting.amount - resting.filledAmount;
+        fillable += wanted - fillable < restingAmount ? wanted - fillable : restingAmount;
+      }
+    }
+
+    return fillable;
+  }
+
+  // Whether two orders' rating bands both accept the other player
+  private canMatch(order: Order, resting: Order): boolean {
+    return this.acceptsOpponent(order, resting.playerAddress) && this.acceptsOpponent(resting, order.playerAddress);
+  }
+
+  // Whether an opponent's rating falls within an order's band
+  private acceptsOpponent(order: Order, opponentAddress: string): boolean {
+    const { minOpponentRating, maxOpponentRating } = order;
+    if (minOpponentRating === undefined && maxOpponentRating === undefined) return true;
+
+    const rating = this.getRating?.(opponentAddress);
+    if (rating === undefined) return false;
+
+    return (minOpponentRating === undefined || rating >= minOpponentRating)
+      && (maxOpponentRating === undefined || rating <= maxOpponentRating);
+  }
+
+  // Whether an order is still on the book
+  private isLive(order: Order): boolean {
+    return order.status === "open" || order.status === "partially_filled";
+  }
+
+  // Whether a good-til-time order has passed its expiry
+  private isExpired(order: Order, now: number = Date.now()): boolean {
+    return order.timeInForce === "GTT" && order.expiresAt !== undefined && order.expiresAt.getTime() <= now;
+  }
+
+  // Expire every open good-til-time order past its expiry; returns the orders expired
+  expireOrders(now: number = Date.now()): Order[] {
+    const expired: Order[] = [];
+
+    for (const orderbook of this.orderbooks.values()) {
+      for (const order of orderbook.allOrders.values()) {
+        if (this.isLive(order) && this.isExpired(order, now)) {
+          this.removeFromBook(order, "expired");
+          expired.push(order);
+        }
+      }
+    }
+
+    return expired;
+  }
+
   // Attempt to match an order
   private attemptMatch(order: Order): MatchResult {
-    const orderbook = this.getOrCreateOrderbook(order.timeControl);
+    const orderbook = this.getOrCreateOrderbook(order.timeControl, order.variant);
     const oppositeLevels = order.side === "white" 
       ? orderbook.blackLevels 
       : orderbook.whiteLevels;
@@ -144,9 +320,9 @@ export class OrderbookManager {
     let remainingAmount = order.amount - order.filledAmount;
 
     // First try exact level matching
-    const exactLevelKey = order.tickAmount.toString();
-    if (oppositeLevels.has(exactLevelKey)) {
-      const exactMatches = this.matchAtLevel(order, oppositeLevels.get(exactLevelKey)!, remainingAmount);
+    const exactLevel = oppositeLevels.get(order.tickAmount);
+    if (exactLevel) {
+      const exactMatches = this.matchAtLevel(order, oppositeLevels, exactLevel, remainingAmount);
       matches.push(...exactMatches.matches);
       remainingAmount = exactMatches.remainingAmount;
     }
@@ -158,10 +334,22 @@ export class OrderbookManager {
       remainingAmount = nearestMatches.remainingAmount;
     }
 
-    // Update order status
+    // The order's own level only holds what is still resting
+    const ownLevels = order.side === "white" ? orderbook.whiteLevels : orderbook.blackLevels;
+    const ownLevel = ownLevels.get(order.tickAmount);
+    if (ownLevel) {
+      ownLevel.totalAmount -= matches.reduce((sum, match) => sum + match.matchAmount, 0n);
+    }
+
+    // Update order status, unless self-trade prevention cancelled it
     if (remainingAmount === 0n) {
       order.status = "filled";
-    } else if (order.filledAmount > 0n) {
+      const index = ownLevel ? ownLevel.orders.indexOf(order) : -1;
+      if (index !== -1) {
+        ownLevel!.orders.splice(index, 1);
+        ownLevels.prune(ownLevel!);
+      }
+    } else if (order.filledAmount > 0n && this.isLive(order)) {
       order.status = "partially_filled";
     }
 
@@ -174,63 +362,121 @@ export class OrderbookManager {
   // Match at a specific level
   private matchAtLevel(
     order: Order, 
+    levels: PriceLevels,
     level: OrderbookLevel, 
     maxAmount: bigint
   ): { matches: MatchResult["matches"]; remainingAmount: bigint } {
     const matches: MatchResult["matches"] = [];
     let remainingAmount = maxAmount;
+    let index = 0; // first resting order not yet skipped
+
+    while (remainingAmount > 0n && index < level.orders.length && this.isLive(order)) {
+      const oppositeOrder = level.orders[index];
+
+      // Expired orders still resting (no sweep since their expiry) are dropped, not matched
+      if (this.isExpired(oppositeOrder)) {
+        this.removeFromBook(oppositeOrder, "expired");
+        continue;
+      }
+
+      // Never pair a player with themselves; the incoming order's setting decides which side goes
+      if (oppositeOrder.playerAddress === order.playerAddress) {
+        if (order.selfTradePrevention !== "cancel_newest") {
+          this.removeFromBook(oppositeOrder, "cancelled");
+        }
+        if (order.selfTradePrevention !== "cancel_oldest") {
+          this.removeFromBook(order, "cancelled");
+        }
+        continue;
+      }
+
+      // Orders outside each other's rating band are passed over; they keep their place in the queue
+      if (!this.canMatch(order, oppositeOrder)) {
+        index++;
+        continue;
+      }
 
-    while (remainingAmount > 0n && level.orders.length > 0) {
-      const oppositeOrder = level.orders[0];
       const matchAmount = remainingAmount < oppositeOrder.amount - oppositeOrder.filledAmount
         ? remainingAmount
         : oppositeOrder.amount - oppositeOrder.filledAmount;
 
-      // Create match
-      const gameId = this.createMatch(order, oppositeOrder);
-      
-      matches.push({
-        whiteOrder: order.side === "white" ? order : oppositeOrder,
-        blackOrder: order.side === "black" ? order : oppositeOrder,
-        matchAmount,
-        gameId,
-      });
+      // The matched part is escrowed before the game takes it as the players' stakes
+      this.playerLedger.escrowHold(order.id, matchAmount);
+      this.playerLedger.escrowHold(oppositeOrder.id, matchAmount);
+
+      // Create match. A match that couldn't be staked has already handed the
+      // escrow back; no fill is recorded and both orders leave the book.
+      const whiteOrder = order.side === "white" ? order : oppositeOrder;
+      const blackOrder = order.side === "black" ? order : oppositeOrder;
+      const gameId = this.createMatch(whiteOrder, blackOrder, matchAmount);
+      if (gameId === null) {
+        this.removeFromBook(oppositeOrder, "cancelled");
+        this.removeFromBook(order, "cancelled");
+        break;
+      }
 
       // Update order fills
       order.filledAmount += matchAmount;
       oppositeOrder.filledAmount += matchAmount;
+
+      // Only the unfilled part of an order counts as resting exposure
+      this.betLimiter.reduce(order.id, matchAmount);
+      this.betLimiter.reduce(oppositeOrder.id, matchAmount);
       remainingAmount -= matchAmount;
 
+      order.gameIds.push(gameId);
+      oppositeOrder.gameIds.push(gameId);
+      
+      matches.push({
+        whiteOrder,
+        blackOrder,
+        matchAmount,
+        gameId,
+      });
+
       // Update level total
       level.totalAmount -= matchAmount;
 
       // Remove fully filled orders
       if (oppositeOrder.filledAmount >= oppositeOrder.amount) {
         oppositeOrder.status = "filled";
-        level.orders.shift();
+        level.orders.splice(index, 1);
       }
     }
 
+    levels.prune(level);
     return { matches, remainingAmount };
   }
 
   // Match with nearest levels within tolerance
   private matchNearestLevels(
     order: Order,
-    oppositeLevels: Map<string, OrderbookLevel>,
+    oppositeLevels: PriceLevels,
     maxAmount: bigint
   ): { matches: MatchResult["matches"]; remainingAmount: bigint } {
     const matches: MatchResult["matches"] = [];
     let remainingAmount = maxAmount;
 
+    for (const level of this.getCandidateLevels(order, oppositeLevels)) {
+      if (remainingAmount <= 0n) break;
+
+      const levelMatches = this.matchAtLevel(order, oppositeLevels, level, remainingAmount);
+      matches.push(...levelMatches.matches);
+      remainingAmount = levelMatches.remainingAmount;
+    }
+
+    return { matches, remainingAmount };
+  }
+
+  // Opposite levels within matching tolerance of an order, nearest first
+  private getCandidateLevels(order: Order, oppositeLevels: PriceLevels): OrderbookLevel[] {
     // Calculate tolerance
     const toleranceAmount = (order.tickAmount * BigInt(this.TOLERANCE_PERCENTAGE)) / 100n;
     const minTick = order.tickAmount - toleranceAmount;
     const maxTick = order.tickAmount + toleranceAmount;
 
-    // Find all levels within tolerance, sorted by distance
-    const candidateLevels = Array.from(oppositeLevels.values())
-      .filter(level => level.tickAmount >= minTick && level.tickAmount <= maxTick)
+    // Levels within tolerance, sorted by distance
+    return oppositeLevels.range(minTick, maxTick)
       .sort((a, b) => {
         const distanceA = a.tickAmount > order.tickAmount 
           ? a.tickAmount - order.tickAmount 
@@ -240,83 +486,59 @@ export class OrderbookManager {
           : order.tickAmount - b.tickAmount;
         return Number(distanceA - distanceB);
       });
+  }
 
-    for (const level of candidateLevels) {
-      if (remainingAmount <= 0n) break;
-
-      const levelMatches = this.matchAtLevel(order, level, remainingAmount);
-      matches.push(...levelMatches.matches);
-      remainingAmount = levelMatches.remainingAmount;
+  // Create a match between two orders. With a match handler (the game manager)
+  // the handler creates the game; a standalone book only opens its betting pools.
+  private createMatch(whiteOrder: Order, blackOrder: Order, amount: bigint): string | null {
+    if (this.onMatch) {
+      return this.onMatch(whiteOrder, blackOrder, amount);
     }
 
-    return { matches, remainingAmount };
-  }
-
-  // Create a match between two orders
-  private createMatch(whiteOrder: Order, blackOrder: Order): string {
     const gameId = `game-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Create chess game
-    const chessGame = {
-      id: gameId,
-      whitePlayer: whiteOrder.playerAddress,
-      blackPlayer: blackOrder.playerAddress,
-      fen: "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
-      pgn: "",
-      status: "waiting" as const,
-      result: null as GameResult,
-      moves: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    // Create betting pool
     this.bettingEngine.createBettingPool(gameId);
-
-    // Store the match (in a real implementation, this would be stored in a database)
-    // For now, we'll just return the game ID
-    console.log("Created match:", chessGame.id);
+    this.bettingEngine.createSpectatorPool(gameId);
+    this.bettingEngine.openPropMarkets(gameId);
 
     return gameId;
   }
 
+
   // Cancel an order
   cancelOrder(orderId: string): boolean {
-    for (const orderbook of this.orderbooks.values()) {
-      const order = orderbook.allOrders.get(orderId);
-      if (order) {
-        if (order.status !== "open" && order.status !== "partially_filled") {
-          return false; // Cannot cancel filled or already cancelled orders
-        }
+    const order = this.getOrder(orderId);
+    if (!order || !this.isLive(order)) {
+      return false; // Cannot cancel filled or already cancelled orders
+    }
 
-        order.status = "cancelled";
-
-        // Remove from level
-        const levels = order.side === "white" ? orderbook.whiteLevels : orderbook.blackLevels;
-        const levelKey = order.tickAmount.toString();
-        const level = levels.get(levelKey);
-        
-        if (level) {
-          const index = level.orders.findIndex(o => o.id === orderId);
-          if (index !== -1) {
-            level.orders.splice(index, 1);
-            level.totalAmount -= order.amount - order.filledAmount;
-          }
-        }
+    this.removeFromBook(order, "cancelled");
+    return true;
+  }
+
+  // Take an order's unfilled part off the book and release its funds
+  private removeFromBook(order: Order, status: "cancelled" | "expired" | "killed"): void {
+    const orderbook = this.getOrCreateOrderbook(order.timeControl, order.variant);
+    order.status = status;
+    this.betLimiter.release(order.id, true);
+    this.playerLedger.releaseHold(order.id);
 
-        return true;
+    // Remove from level
+    const levels = order.side === "white" ? orderbook.whiteLevels : orderbook.blackLevels;
+    const level = levels.get(order.tickAmount);
+    
+    if (level) {
+      const index = level.orders.findIndex(o => o.id === order.id);
+      if (index !== -1) {
+        level.orders.splice(index, 1);
+        level.totalAmount -= order.amount - order.filledAmount;
+        levels.prune(level);
       }
     }
-    return false;
   }
 
   // Get order by ID
   getOrder(orderId: string): Order | undefined {
-    for (const orderbook of this.orderbooks.values()) {
-      const order = orderbook.allOrders.get(orderId);
-      if (order) return order;
-    }
-    return undefined;
+    return this.orderIndex.get(orderId)?.allOrders.get(orderId);
   }
 
   // Get orders for a player
@@ -333,52 +555,36 @@ export class OrderbookManager {
   }
 
   // Get orderbook depth for a time control
-  getOrderbookDepth(timeControl: TimeControl): {
+  getOrderbookDepth(timeControl: TimeControl, variant: GameVariant = "standard"): {
     white: Array<{ tickAmount: bigint; totalAmount: bigint; orderCount: number }>;
     black: Array<{ tickAmount: bigint; totalAmount: bigint; orderCount: number }>;
   } {
-    const orderbook = this.orderbooks.get(this.getTimeControlKey(timeControl));
+    const orderbook = this.orderbooks.get(this.getOrderbookKey(timeControl, variant));
     if (!orderbook) {
       return { white: [], black: [] };
     }
 
-    const white = Array.from(orderbook.whiteLevels.values())
-      .map(level => ({
-        tickAmount: level.tickAmount,
-        totalAmount: level.totalAmount,
-        orderCount: level.orders.length,
-      }))
-      .sort((a, b) => Number(a.tickAmount - b.tickAmount));
-
-    const black = Array.from(orderbook.blackLevels.values())
-      .map(level => ({
-        tickAmount: level.tickAmount,
-        totalAmount: level.totalAmount,
-        orderCount: level.orders.length,
-      }))
-      .sort((a, b) => Number(a.tickAmount - b.tickAmount));
-
-    return { white, black };
+    // Levels are kept sorted, so no sorting is needed here
+    const toDepth = (levels: PriceLevels) => levels.values().map(level => ({
+      tickAmount: level.tickAmount,
+      totalAmount: level.totalAmount,
+      orderCount: level.orders.length,
+    }));
+
+    return { white: toDepth(orderbook.whiteLevels), black: toDepth(orderbook.blackLevels) };
   }
 
   // Get best bid/ask for a time control
-  getBestBidAsk(timeControl: TimeControl): { bestBid: bigint; bestAsk: bigint } {
-    const orderbook = this.orderbooks.get(this.getTimeControlKey(timeControl));
+  getBestBidAsk(timeControl: TimeControl, variant: GameVariant = "standard"): { bestBid: bigint; bestAsk: bigint } {
+    const orderbook = this.orderbooks.get(this.getOrderbookKey(timeControl, variant));
     if (!orderbook) {
       return { bestBid: 0n, bestAsk: 0n };
     }
 
-    const whiteLevels = Array.from(orderbook.whiteLevels.values())
-      .filter(level => level.orders.length > 0)
-      .sort((a, b) => Number(a.tickAmount - b.tickAmount));
-    
-    const blackLevels = Array.from(orderbook.blackLevels.values())
-      .filter(level => level.orders.length > 0)
-      .sort((a, b) => Number(a.tickAmount - b.tickAmount));
-
+    // Empty levels are pruned, so the lowest level on each side is the best
     return {
-      bestBid: blackLevels.length > 0 ? blackLevels[0].tickAmount : 0n,
-      bestAsk: whiteLevels.length > 0 ? whiteLevels[0].tickAmount : 0n,
+      bestBid: orderbook.blackLevels.best()?.tickAmount ?? 0n,
+      bestAsk: orderbook.whiteLevels.best()?.tickAmount ?? 0n,
     };
   }
 
@@ -0,0 +1,118 @@
+import type { OrderbookLevel } from "./OrderbookManager";
+
+// A level in the skip list, linked to the next node at each height it reaches
+interface LevelNode {
+  level: OrderbookLevel | null; // null for the head sentinel
+  next: Array<LevelNode | null>;
+}
+
+const MAX_HEIGHT = 32;
+const PROMOTION_PROBABILITY = 0.25;
+
+// One side of an orderbook: its price levels kept sorted by tick amount in a
+// skip list, with a map for direct lookup. Adding or dropping a level is
+// O(log n) expected, so a book with many distinct amounts stays fast. Levels
+// are dropped as soon as their last order leaves, so the first level is
+// always the best one.
+export class PriceLevels {
+  private levels: Map<string, OrderbookLevel> = new Map(); // key = tickAmount.toString()
+  private head: LevelNode = { level: null, next: new Array(MAX_HEIGHT).fill(null) };
+  private height = 1; // heights in use, counting from the bottom
+
+  // Number of non-empty levels
+  get size(): number {
+    return this.levels.size;
+  }
+
+  // Get the level at a tick amount
+  get(tickAmount: bigint): OrderbookLevel | undefined {
+    return this.levels.get(tickAmount.toString());
+  }
+
+  // Get the level at a tick amount, creating it in sorted position if needed
+  getOrCreate(tickAmount: bigint): OrderbookLevel {
+    const existing = this.get(tickAmount);
+    if (existing) return existing;
+
+    const level: OrderbookLevel = { tickAmount, orders: [], totalAmount: 0n };
+    this.levels.set(tickAmount.toString(), level);
+
+    const predecessors = this.findPredecessors(tickAmount);
+    const nodeHeight = this.randomHeight();
+    for (let i = this.height; i < nodeHeight; i++) predecessors[i] = this.head;
+    this.height = Math.max(this.height, nodeHeight);
+
+    const node: LevelNode = { level, next: new Array(nodeHeight).fill(null) };
+    for (let i = 0; i < nodeHeight; i++) {
+      node.next[i] = predecessors[i].next[i];
+      predecessors[i].next[i] = node;
+    }
+
+    return level;
+  }
+
+  // Drop a level once it has no orders left
+  prune(level: OrderbookLevel): void {
+    if (level.orders.length > 0 || this.levels.get(level.tickAmount.toString()) !== level) return;
+
+    this.levels.delete(level.tickAmount.toString());
+
+    const predecessors = this.findPredecessors(level.tickAmount);
+    const node = predecessors[0].next[0];
+    if (!node || node.level !== level) return;
+
+    for (let i = 0; i < node.next.length; i++) {
+      predecessors[i].next[i] = node.next[i];
+    }
+    while (this.height > 1 && !this.head.next[this.height - 1]) this.height--;
+  }
+
+  // Lowest level, in O(1)
+  best(): OrderbookLevel | undefined {
+    return this.head.next[0]?.level ?? undefined;
+  }
+
+  // Levels with minTick <= tickAmount <= maxTick, ascending; the first is found in O(log n)
+  range(minTick: bigint, maxTick: bigint): OrderbookLevel[] {
+    const levels: OrderbookLevel[] = [];
+    let node = this.findPredecessors(minTick)[0].next[0];
+
+    while (node && node.level!.tickAmount <= maxTick) {
+      levels.push(node.level!);
+      node = node.next[0];
+    }
+
+    return levels;
+  }
+
+  // Every level, ascending
+  values(): OrderbookLevel[] {
+    const levels: OrderbookLevel[] = [];
+    for (let node = this.head.next[0]; node; node = node.next[0]) {
+      levels.push(node.level!);
+    }
+    return levels;
+  }
+
+  // The last node below a tick amount at each height
+  private findPredecessors(tickAmount: bigint): LevelNode[] {
+    const predecessors: LevelNode[] = new Array(MAX_HEIGHT).fill(this.head);
+    let node = this.head;
+
+    for (let i = this.height - 1; i >= 0; i--) {
+      while (node.next[i] && node.next[i]!.level!.tickAmount < tickAmount) {
+        node = node.next[i]!;
+      }
+      predecessors[i] = node;
+    }
+
+    return predecessors;
+  }
+
+  // Height for a new node: each extra height with probability PROMOTION_PROBABILITY
+  private randomHeight(): number {
+    let height = 1;
+    while (height < MAX_HEIGHT && Math.random() < PROMOTION_PROBABILITY) height++;
+    return height;
+  }
+}
@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { BetLimiter } from "../src/lib/betting/BetLimits";
+import { GameManager } from "../src/lib/game/GameManager";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("BetLimiter", () => {
+  const NOW = 1_000_000;
+
+  it("rejects non-positive stakes", () => {
+    expect(new BetLimiter().check("alice", 0n)?.reason).to.equal("invalid_amount");
+  });
+
+  it("allows anything when no limits are set", () => {
+    expect(new BetLimiter().check("alice", 10n ** 30n)).to.equal(null);
+  });
+
+  it("caps a single stake", () => {
+    const limiter = new BetLimiter({ maxStakePerBet: 100n });
+
+    expect(limiter.check("alice", 100n)).to.equal(null);
+    expect(limiter.check("alice", 101n)?.reason).to.equal("max_stake_per_bet");
+  });
+
+  it("caps a player's stakes on one game, including settled ones", () => {
+    const limiter = new BetLimiter({ maxStakePerGame: 100n });
+    limiter.record("bet-1", "alice", 80n, "game-1", undefined, NOW);
+    limiter.release("bet-1");
+
+    expect(limiter.check("alice", 30n, "game-1", undefined, NOW)?.reason).to.equal("max_stake_per_game");
+    expect(limiter.check("alice", 30n, "game-2", undefined, NOW)).to.equal(null);
+    expect(limiter.check("bob", 30n, "game-1", undefined, NOW)).to.equal(null);
+  });
+
+  it("caps a player's stakes over a rolling day", () => {
+    const limiter = new BetLimiter({ maxStakePerDay: 100n });
+    limiter.record("bet-1", "alice", 60n, undefined, undefined, NOW);
+    limiter.record("bet-2", "alice", 30n, undefined, undefined, NOW + DAY_MS / 2);
+
+    expect(limiter.check("alice", 20n, undefined, undefined, NOW + DAY_MS / 2)?.reason).to.equal("max_stake_per_day");
+    // The first stake has aged out; only the second still counts
+    expect(limiter.check("alice", 70n, undefined, undefined, NOW + DAY_MS)).to.equal(null);
+    expect(limiter.check("alice", 71n, undefined, undefined, NOW + DAY_MS)?.reason).to.equal("max_stake_per_day");
+  });
+
+  it("caps a player's unsettled stakes and frees them on settlement", () => {
+    const limiter = new BetLimiter({ maxPlayerExposure: 100n });
+    limiter.record("bet-1", "alice", 80n, "game-1", "game-1-player", NOW);
+
+    expect(limiter.getPlayerExposure("alice")).to.equal(80n);
+    expect(limiter.check("alice", 30n, "game-2", undefined, NOW)?.reason).to.equal("max_player_exposure");
+
+    limiter.release("bet-1");
+    expect(limiter.getPlayerExposure("alice")).to.equal(0n);
+    expect(limiter.check("alice", 30n, "game-2", undefined, NOW)).to.equal(null);
+  });
+
+  it("caps a pool's unsettled stakes across players", () => {
+    const limiter = new BetLimiter({ maxPoolExposure: 100n });
+    limiter.record("bet-1", "alice", 60n, "game-1", "game-1-spectator", NOW);
+    limiter.record("bet-2", "bob", 30n, "game-1", "game-1-spectator", NOW);
+
+    expect(limiter.check("carol", 20n, "game-1", "game-1-spectator", NOW)?.reason).to.equal("max_pool_exposure");
+    expect(limiter.check("carol", 20n, "game-1", "game-1-player", NOW)).to.equal(null);
+  });
+
+  it("forgets cancelled stakes entirely", () => {
+    const limiter = new BetLimiter({ maxStakePerGame: 100n, maxStakePerDay: 100n, maxPoolExposure: 100n });
+    limiter.record("bet-1", "alice", 100n, "game-1", "game-1-player", NOW);
+    limiter.release("bet-1", true);
+
+    expect(limiter.check("alice", 100n, "game-1", "game-1-player", NOW)).to.equal(null);
+  });
+
+  it("reduces an open stake by the part that matched", () => {
+    const limiter = new BetLimiter({ maxPlayerExposure: 100n });
+    limiter.record("order-1", "alice", 100n, undefined, undefined, NOW);
+    limiter.reduce("order-1", 60n);
+
+    expect(limiter.getPlayerExposure("alice")).to.equal(40n);
+    expect(limiter.check("alice", 60n, undefined, undefined, NOW)).to.equal(null);
+
+    // Reducing past zero stops at zero
+    limiter.reduce("order-1", 100n);
+    expect(limiter.getPlayerExposure("alice")).to.equal(0n);
+  });
+});
+
+describe("GameManager bet limits", () => {
+  const UNIT = 10n ** 18n;
+  const TIME_CONTROL = { initial: 300, increment: 0 };
+  let manager: GameManager;
+
+  beforeEach(() => {
+    manager = new GameManager();
+    manager.registerPlayer("alice");
+    manager.registerPlayer("bob");
+  });
+
+  it("rejects a tier match over the player's exposure limit", () => {
+    manager.setBetLimits({ maxPlayerExposure: 10n * UNIT });
+
+    expect(manager.findMatch("alice", "medium", TIME_CONTROL)).to.include({ ok: false, reason: "max_player_exposure" });
+    expect(manager.findMatch("alice", "low", TIME_CONTROL)).to.deep.equal({ ok: true, bet: null });
+  });
+
+  it("counts tier stakes while the game runs and frees them when it ends", () => {
+    manager.findMatch("alice", "low", TIME_CONTROL);
+    const placement = manager.findMatch("bob", "low", TIME_CONTROL);
+    if (!placement.ok || !placement.bet) throw new Error("no match");
+
+    const limiter = manager.getBettingEngine().getBetLimiter();
+    expect(limiter.getPlayerExposure("alice")).to.equal(5n * UNIT);
+
+    manager.startGame(placement.bet.id);
+    manager.resign(placement.bet.id, "alice");
+    expect(limiter.getPlayerExposure("alice")).to.equal(0n);
+  });
+
+  it("passes the orderbook's limit reason through findMatch", () => {
+    manager.setBetLimits({ maxStakePerBet: 10n * UNIT });
+
+    expect(manager.findMatch("alice", "unlimited", TIME_CONTROL, "white", 50n * UNIT)).to.include({
+      ok: false,
+      reason: "max_stake_per_bet",
+    });
+  });
+
+  it("rejects spectator stakes over the per-game limit", () => {
+    manager.findMatch("alice", "low", TIME_CONTROL);
+    const placement = manager.findMatch("bob", "low", TIME_CONTROL);
+    if (!placement.ok || !placement.bet) throw new Error("no match");
+    manager.setBetLimits({ maxStakePerGame: 10n * UNIT });
+
+    expect(manager.placeSpectatorBet(placement.bet.id, "carol", "white", 6n * UNIT).ok).to.equal(true);
+    expect(manager.placeSpectatorBet(placement.bet.id, "carol", "black", 6n * UNIT)).to.include({
+      ok: false,
+      reason: "max_stake_per_game",
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { expect } from "chai";
+import { BettingEngine, HOUSE_ACCOUNT } from "../src/lib/betting/BettingEngine";
+import {
+  CASH_OUT_MARGIN,
+  PositionSnapshot,
+  estimateOutcomeProbabilities,
+  priceCashOut,
+} from "../src/lib/betting/InPlayOdds";
+import { GameManager } from "../src/lib/game/GameManager";
+
+const EVEN: PositionSnapshot = { evaluation: 0, mateIn: null, moveNumber: 10 };
+const WHITE_MATES: PositionSnapshot = { evaluation: 0, mateIn: 3, moveNumber: 30 };
+
+describe("Cash-out", () => {
+  describe("pricing", () => {
+    it("offers the win value weighted by the win probability, less the margin", () => {
+      expect(priceCashOut(10000n, 0.5)).to.equal(4750n);
+      expect(priceCashOut(10000n, 1, 0)).to.equal(10000n);
+      expect(priceCashOut(10000n, 0)).to.equal(0n);
+    });
+
+    it("never offers more than the margin allows", () => {
+      for (const probability of [0.01, 0.2, 0.5, 0.8, 0.99]) {
+        const offer = priceCashOut(10n ** 18n, probability);
+        expect(Number(offer) / 1e18 <= probability * (1 - CASH_OUT_MARGIN)).to.equal(true);
+      }
+    });
+
+    it("sees an even position as even and a forced mate as nearly decided", () => {
+      const even = estimateOutcomeProbabilities(EVEN);
+      expect(even.white).to.be.closeTo(even.black, 1e-9);
+
+      const mate = estimateOutcomeProbabilities(WHITE_MATES);
+      expect(mate.white).to.be.greaterThan(0.95);
+      expect(mate.white + mate.black + mate.draw).to.be.closeTo(1, 1e-9);
+    });
+  });
+
+  describe("BettingEngine", () => {
+    const GAME = "game-1";
+    let engine: BettingEngine;
+
+    beforeEach(() => {
+      engine = new BettingEngine(500);
+      engine.createBettingPool(GAME);
+      engine.createSpectatorPool(GAME);
+    });
+
+    // Place a spectator bet and return its id
+    const bet = (bettor: string, side: "white" | "black", amount: bigint) => {
+      const placement = engine.placeSpectatorBet(GAME, bettor, side, amount);
+      if (!placement.ok) throw new Error(placement.message);
+      return placement.bet.id;
+    };
+
+    it("values a pool bet at its current share of the pool net of fee", () => {
+      const betId = bet("s1", "white", 100n);
+      bet("s2", "black", 100n);
+
+      const quote = engine.quoteCashOut(betId, WHITE_MATES, 0);
+      if (!quote.ok) throw new Error(quote.message);
+
+      expect(quote.bet.winValue).to.equal(190n);
+      expect(quote.bet.amount).to.equal(priceCashOut(190n, quote.bet.winProbability));
+    });
+
+    it("pays the quote from the house and hands the bet's stake to the house", () => {
+      const betId = bet("s1", "white", 100n);
+      bet("s2", "black", 100n);
+      const quote = engine.quoteCashOut(betId, WHITE_MATES, 0);
+      if (!quote.ok) throw new Error(quote.message);
+
+      const cashedOut = engine.cashOut(betId, quote.bet.id);
+      expect(cashedOut).to.deep.include({ ok: true });
+      expect(engine.getBet(betId)).to.include({ status: "cashed_out", payout: quote.bet.amount });
+      expect(engine.getPlayerLedger().getBalance("s1")).to.equal(quote.bet.amount);
+
+      engine.resolveBets(GAME, "white");
+      const ledger = engine.getPlayerLedger();
+      expect(ledger.getBalance("s1")).to.equal(quote.bet.amount);
+      expect(ledger.getBalance(HOUSE_ACCOUNT)).to.equal(200n - quote.bet.amount);
+      expect(ledger.reconcile()).to.equal(true);
+    });
+
+    it("rejects expired, unknown and reused quotes", () => {
+      const betId = bet("s1", "white", 100n);
+      const quote = engine.quoteCashOut(betId, EVEN, 0);
+      if (!quote.ok) throw new Error(quote.message);
+
+      expect(engine.cashOut(betId, quote.bet.id, quote.bet.expiresAt.getTime() + 1))
+        .to.include({ ok: false, reason: "quote_expired" });
+      expect(engine.cashOut(betId, "no-such-quote")).to.include({ ok: false, reason: "invalid_quote" });
+
+      expect(engine.cashOut(betId, quote.bet.id).ok).to.equal(true);
+      expect(engine.cashOut(betId, quote.bet.id)).to.include({ ok: false, reason: "invalid_quote" });
+    });
+
+    it("won't quote a bet on a settled pool", () => {
+      const betId = bet("s1", "white", 100n);
+      engine.resolveBets(GAME, "white");
+
+      expect(engine.quoteCashOut(betId, EVEN, 0)).to.include({ ok: false, reason: "not_allowed" });
+    });
+  });
+
+  describe("GameManager", () => {
+    const TIME_CONTROL = { initial: 300, increment: 0 };
+    let manager: GameManager;
+    let gameId: string;
+
+    beforeEach(() => {
+      manager = new GameManager();
+      manager.registerPlayer("alice");
+      manager.registerPlayer("bob");
+      manager.findMatch("alice", "low", TIME_CONTROL);
+      const placement = manager.findMatch("bob", "low", TIME_CONTROL);
+      if (!placement.ok || !placement.bet) throw new Error("no match");
+      gameId = placement.bet.id;
+    });
+
+    it("rejects a quote made stale by a move", () => {
+      const placement = manager.placeSpectatorBet(gameId, "carol", "white", 10n ** 18n);
+      if (!placement.ok) throw new Error(placement.message);
+      manager.startGame(gameId);
+
+      const quote = manager.getCashOutQuote(placement.bet.id);
+      if (!quote.ok) throw new Error(quote.message);
+      manager.makeMove(gameId, "e4", manager.getGame(gameId)!.whitePlayer);
+
+      expect(manager.cashOut(placement.bet.id, quote.bet.id, "carol")).to.include({
+        ok: false,
+        reason: "invalid_quote",
+      });
+    });
+
+    it("won't let players cash out on their own game", () => {
+      manager.placeOrder("alice", "black", 10n * 10n ** 18n, TIME_CONTROL);
+      const order = manager.placeOrder("bob", "white", 10n * 10n ** 18n, TIME_CONTROL);
+      const match = manager.getGame(order.gameIds[0])!;
+      const stake = match.bettingPool.whiteBets[0];
+      manager.startGame(match.id);
+
+      const quote = manager.getCashOutQuote(stake.id);
+      if (!quote.ok) throw new Error(quote.message);
+
+      expect(manager.cashOut(stake.id, quote.bet.id, "bob")).to.include({ ok: false, reason: "not_allowed" });
+    });
+
+    it("only quotes bets on active games", () => {
+      const placement = manager.placeSpectatorBet(gameId, "carol", "white", 10n ** 18n);
+      if (!placement.ok) throw new Error(placement.message);
+
+      expect(manager.getCashOutQuote(placement.bet.id)).to.include({ ok: false, reason: "market_closed" });
+    });
+  });
+});
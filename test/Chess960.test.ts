@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import {
+  CHESS960_POSITION_COUNT,
+  STANDARD_CHESS960_INDEX,
+  chess960BackRank,
+  chess960IndexFromSeed,
+  chess960StartFen,
+} from "../src/lib/chess/Chess960";
+import { ChessEngine } from "../src/lib/chess/ChessEngine";
+
+// King on g1 with rooks on b1 and h1, so kingside castling leaves the king where it is
+const CASTLING_FEN = "1r4kr/pppppppp/8/8/8/8/PPPPPPPP/1R4KR w KQkq - 0 1";
+
+// Castling moves among an engine's legal moves
+const castlingMoves = (engine: ChessEngine) => engine.getLegalMoves().filter(move => move.san.startsWith("O-O"));
+
+describe("Chess960", () => {
+  describe("start positions", () => {
+    it("numbers the standard position 518", () => {
+      expect(chess960BackRank(STANDARD_CHESS960_INDEX)).to.equal("RNBQKBNR");
+    });
+
+    it("gives 960 distinct legal back ranks", () => {
+      const ranks = new Set<string>();
+
+      for (let index = 0; index < CHESS960_POSITION_COUNT; index++) {
+        const rank = chess960BackRank(index);
+        ranks.add(rank);
+
+        const bishops = [...rank].flatMap((piece, file) => (piece === "B" ? [file] : []));
+        expect(bishops[0] % 2).to.not.equal(bishops[1] % 2);
+        expect(rank.indexOf("R")).to.be.lessThan(rank.indexOf("K"));
+        expect(rank.lastIndexOf("R")).to.be.greaterThan(rank.indexOf("K"));
+      }
+
+      expect(ranks.size).to.equal(CHESS960_POSITION_COUNT);
+    });
+
+    it("rejects indexes out of range", () => {
+      expect(() => chess960BackRank(960)).to.throw("Invalid Chess960 position index");
+      expect(() => chess960BackRank(-1)).to.throw("Invalid Chess960 position index");
+    });
+
+    it("derives the same index from the same seed", () => {
+      const seed = "0x" + "ab".repeat(32);
+      const index = chess960IndexFromSeed(seed);
+
+      expect(chess960IndexFromSeed(seed)).to.equal(index);
+      expect(index).to.be.within(0, CHESS960_POSITION_COUNT - 1);
+    });
+  });
+
+  describe("castling", () => {
+    it("castles kingside with a king that doesn't move", () => {
+      const engine = new ChessEngine(CASTLING_FEN, "chess960");
+
+      expect(castlingMoves(engine).map(move => move.san)).to.have.members(["O-O", "O-O-O"]);
+      expect(engine.makeMove("O-O")).to.equal(true);
+      expect(engine.getFen()).to.equal("1r4kr/pppppppp/8/8/8/8/PPPPPPPP/1R3RK1 b kq - 1 1");
+      expect(engine.getMovesLan()).to.deep.equal(["g1h1"]);
+    });
+
+    it("castles queenside from king-takes-rook notation", () => {
+      const engine = new ChessEngine(CASTLING_FEN, "chess960");
+
+      expect(engine.makeMove("g1b1")).to.equal(true);
+      expect(engine.getFen()).to.equal("1r4kr/pppppppp/8/8/8/8/PPPPPPPP/2KR3R b kq - 1 1");
+      expect(engine.getMoves()).to.deep.equal(["O-O-O"]);
+    });
+
+    it("won't castle through an attacked square", () => {
+      const engine = new ChessEngine("1r4kr/pppppppp/8/8/8/3r4/PPP1PPPP/1R4KR w KQk - 0 1", "chess960");
+
+      expect(castlingMoves(engine).map(move => move.san)).to.deep.equal(["O-O"]);
+      expect(engine.makeMove("O-O-O")).to.equal(false);
+    });
+
+    it("drops the right to castle with a rook once it has moved", () => {
+      const engine = new ChessEngine(CASTLING_FEN, "chess960");
+      engine.makeMove("Ra1");
+
+      expect(engine.getFen().split(" ")[2]).to.equal("Kkq");
+    });
+
+    it("restores castling rights on undo", () => {
+      const engine = new ChessEngine(CASTLING_FEN, "chess960");
+      engine.makeMove("O-O");
+
+      expect(engine.undo()).to.equal("O-O");
+      expect(engine.getFen()).to.equal(CASTLING_FEN);
+    });
+
+    it("records the start position in the PGN", () => {
+      const engine = new ChessEngine(chess960StartFen(0), "chess960");
+
+      expect(engine.getPgn()).to.include('[Variant "Chess960"]').and.include(`[FEN "${chess960StartFen(0)}"]`);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { expect } from "chai";
+import { GameClock } from "../src/lib/game/GameClock";
+import { GameManager } from "../src/lib/game/GameManager";
+
+describe("GameClock", () => {
+  const START = 1_000_000;
+
+  it("charges thinking time to the side to move and adds the increment", () => {
+    const clock = new GameClock({ initial: 60, increment: 2 });
+    clock.start("w", START);
+
+    expect(clock.punch(START + 5000)).to.equal(true);
+    expect(clock.getState(START + 5000)).to.include({
+      whiteRemaining: 57000,
+      blackRemaining: 60000,
+      activeColor: "b",
+    });
+    expect(clock.getRemaining("b", START + 8000)).to.equal(57000);
+  });
+
+  it("flags the side to move once its time runs out", () => {
+    const clock = new GameClock({ initial: 10, increment: 0 });
+    clock.start("w", START);
+
+    expect(clock.checkFlag(START + 9999)).to.equal(null);
+    expect(clock.checkFlag(START + 10000)).to.equal("w");
+    expect(clock.isRunning()).to.equal(false);
+  });
+
+  it("refuses a move made after the flag fell, without adding the increment", () => {
+    const clock = new GameClock({ initial: 10, increment: 5 });
+    clock.start("w", START);
+
+    expect(clock.punch(START + 11000)).to.equal(false);
+    expect(clock.getState(START + 11000)).to.include({ whiteRemaining: 0, flagged: "w" });
+  });
+
+  it("stops without charging time once stopped", () => {
+    const clock = new GameClock({ initial: 10, increment: 0 });
+    clock.start("w", START);
+    clock.stop(START + 4000);
+
+    expect(clock.getRemaining("w", START + 60000)).to.equal(6000);
+    expect(clock.checkFlag(START + 60000)).to.equal(null);
+  });
+});
+
+describe("GameManager clocks", () => {
+  const TIME_CONTROL = { initial: 60, increment: 0 };
+  let manager: GameManager;
+  let gameId: string;
+
+  beforeEach(() => {
+    manager = new GameManager();
+    manager.registerPlayer("alice");
+    manager.registerPlayer("bob");
+    manager.findMatch("alice", "low", TIME_CONTROL);
+    const placement = manager.findMatch("bob", "low", TIME_CONTROL);
+    if (!placement.ok || !placement.bet) throw new Error("no match");
+    gameId = placement.bet.id;
+  });
+
+  it("runs white's clock from the start of the game", () => {
+    manager.startGame(gameId);
+    const startedAt = manager.getGame(gameId)!.startedAt!.getTime();
+
+    expect(manager.getClockState(gameId, startedAt + 1000)).to.include({ activeColor: "w", whiteRemaining: 59000 });
+  });
+
+  it("finishes a game on time when the sweep finds a fallen flag", () => {
+    manager.startGame(gameId);
+    const match = manager.getGame(gameId)!;
+    const startedAt = match.startedAt!.getTime();
+
+    expect(manager.checkTimeouts(startedAt + 59000)).to.have.length(0);
+    expect(manager.checkTimeouts(startedAt + 60000)).to.deep.equal([match]);
+    expect(match.game).to.include({ status: "finished", result: "black", termination: "timeout" });
+  });
+
+  it("has no clock for an untimed game", () => {
+    manager.findMatch("alice", "low", { initial: 0, increment: 0 });
+    const placement = manager.findMatch("bob", "low", { initial: 0, increment: 0 });
+    if (!placement.ok || !placement.bet) throw new Error("no match");
+    manager.startGame(placement.bet.id);
+
+    expect(manager.getClockState(placement.bet.id)).to.equal(undefined);
+  });
+});
@@ -0,0 +1,288 @@
+import { expect } from "chai";
+import { Bet } from "../src/lib/betting/BettingEngine";
+import { BetPlacement, rejectBet } from "../src/lib/betting/BetLimits";
+import { PlayerLedger } from "../src/lib/betting/PlayerLedger";
+import { GameManager } from "../src/lib/game/GameManager";
+import { OrderbookManager, TimeControl } from "../src/lib/orderbook/OrderbookManager";
+
+const TICK = 10n * 10n ** 18n; // the book's $10 tick
+const TIME_CONTROL: TimeControl = { initial: 300, increment: 0 };
+
+// Amount of n ticks
+const ticks = (n: number | bigint) => BigInt(n) * TICK;
+
+describe("OrderbookManager", () => {
+  let games: string[];
+  let ledger: PlayerLedger;
+  let orderbook: OrderbookManager;
+
+  beforeEach(() => {
+    games = [];
+    ledger = new PlayerLedger();
+    orderbook = new OrderbookManager(undefined, ledger, () => {
+      games.push(`game-${games.length + 1}`);
+      return games[games.length - 1];
+    });
+  });
+
+  describe("time in force", () => {
+    it("rests a good-til-cancelled order until it is cancelled", () => {
+      const order = orderbook.placeOrder("alice", "white", ticks(10), TIME_CONTROL);
+
+      expect(order.status).to.equal("open");
+      expect(orderbook.getBestBidAsk(TIME_CONTROL).bestAsk).to.equal(ticks(10));
+
+      expect(orderbook.cancelOrder(order.id)).to.equal(true);
+      expect(order.status).to.equal("cancelled");
+      expect(orderbook.getOrderbookDepth(TIME_CONTROL).white).to.have.length(0);
+      expect(orderbook.cancelOrder(order.id)).to.equal(false);
+    });
+
+    it("kills the unfilled part of an immediate-or-cancel order", () => {
+      orderbook.placeOrder("alice", "black", ticks(10), TIME_CONTROL);
+      const order = orderbook.placeOrder("bob", "white", ticks(10), TIME_CONTROL, "standard", { timeInForce: "IOC" });
+
+      expect(order.status).to.equal("filled");
+
+      const unmatched = orderbook.placeOrder("bob", "white", ticks(10), TIME_CONTROL, "standard", { timeInForce: "IOC" });
+      expect(unmatched.status).to.equal("killed");
+      expect(orderbook.getOrderbookDepth(TIME_CONTROL).white).to.have.length(0);
+    });
+
+    it("fills a fill-or-kill order completely across levels", () => {
+      orderbook.placeOrder("alice", "black", ticks(19), TIME_CONTROL);
+      orderbook.placeOrder("carol", "black", ticks(21), TIME_CONTROL);
+      const order = orderbook.placeOrder("bob", "white", ticks(20), TIME_CONTROL, "standard", { timeInForce: "FOK" });
+
+      expect(order.status).to.equal("filled");
+      expect(order.gameIds).to.have.length(2);
+    });
+
+    it("kills a fill-or-kill order that can't fill completely before any match", () => {
+      orderbook.placeOrder("alice", "black", ticks(19), TIME_CONTROL);
+      const order = orderbook.placeOrder("bob", "white", ticks(20), TIME_CONTROL, "standard", { timeInForce: "FOK" });
+
+      expect(order.status).to.equal("killed");
+      expect(order.filledAmount).to.equal(0n);
+      expect(games).to.have.length(0);
+      expect(orderbook.getOrderbookDepth(TIME_CONTROL).black[0].totalAmount).to.equal(ticks(19));
+    });
+
+    it("fills a fill-or-kill order from the exact level before reaching the player's own order", () => {
+      orderbook.placeOrder("bob", "black", ticks(19), TIME_CONTROL);
+      orderbook.placeOrder("alice", "black", ticks(20), TIME_CONTROL);
+      const order = orderbook.placeOrder("bob", "white", ticks(20), TIME_CONTROL, "standard", { timeInForce: "FOK" });
+
+      expect(order.status).to.equal("filled");
+      expect(games).to.have.length(1);
+    });
+
+    it("kills a fill-or-kill order that would meet the player's own order before filling", () => {
+      orderbook.placeOrder("alice", "black", ticks(19), TIME_CONTROL);
+      orderbook.placeOrder("bob", "black", ticks(21), TIME_CONTROL);
+      const order = orderbook.placeOrder("bob", "white", ticks(20), TIME_CONTROL, "standard", { timeInForce: "FOK" });
+
+      expect(order.status).to.equal("killed");
+      expect(games).to.have.length(0);
+    });
+
+    it("expires good-til-time orders on the sweep", () => {
+      const expiresAt = new Date(Date.now() + 60_000);
+      const order = orderbook.placeOrder("alice", "white", ticks(10), TIME_CONTROL, "standard", {
+        timeInForce: "GTT",
+        expiresAt,
+      });
+
+      expect(orderbook.expireOrders(expiresAt.getTime() - 1)).to.have.length(0);
+      expect(orderbook.expireOrders(expiresAt.getTime())).to.deep.equal([order]);
+      expect(order.status).to.equal("expired");
+      expect(orderbook.getOrderbookDepth(TIME_CONTROL).white).to.have.length(0);
+    });
+
+    it("drops an expired order still resting instead of matching it", async () => {
+      const order = orderbook.placeOrder("alice", "black", ticks(10), TIME_CONTROL, "standard", {
+        timeInForce: "GTT",
+        expiresAt: new Date(Date.now() + 20),
+      });
+      await new Promise(resolve => setTimeout(resolve, 30));
+
+      const taker = orderbook.placeOrder("bob", "white", ticks(10), TIME_CONTROL);
+      expect(order.status).to.equal("expired");
+      expect(taker.status).to.equal("open");
+      expect(games).to.have.length(0);
+    });
+
+    it("validates expiries", () => {
+      expect(() => orderbook.placeOrder("alice", "white", ticks(10), TIME_CONTROL, "standard", { timeInForce: "GTT" }))
+        .to.throw("expiry in the future");
+      expect(() => orderbook.placeOrder("alice", "white", ticks(10), TIME_CONTROL, "standard", {
+        expiresAt: new Date(Date.now() + 60_000),
+      })).to.throw("Only good-til-time orders");
+    });
+
+    it("releases the held funds of a killed order", () => {
+      const order = orderbook.placeOrder("bob", "white", ticks(20), TIME_CONTROL, "standard", { timeInForce: "FOK" });
+
+      expect(order.status).to.equal("killed");
+      expect(ledger.getBalances("bob")).to.deep.equal({ available: ticks(20), held: 0n, escrow: 0n });
+    });
+  });
+
+  describe("opponent rating bands", () => {
+    const ratings: Record<string, number> = { alice: 1500, bob: 1200, carol: 1800 };
+
+    beforeEach(() => {
+      orderbook = new OrderbookManager(undefined, ledger, () => {
+        games.push(`game-${games.length + 1}`);
+        return games[games.length - 1];
+      }, address => ratings[address]);
+    });
+
+    it("passes over resting orders outside the incoming order's band and keeps their place", () => {
+      const bob = orderbook.placeOrder("bob", "black", ticks(10), TIME_CONTROL);
+      const carol = orderbook.placeOrder("carol", "black", ticks(10), TIME_CONTROL);
+      const order = orderbook.placeOrder("alice", "white", ticks(10), TIME_CONTROL, "standard", { minOpponentRating: 1600 });
+
+      expect(order.status).to.equal("filled");
+      expect(carol.status).to.equal("filled");
+      expect(bob.status).to.equal("open");
+      expect(orderbook.getOrderbookDepth(TIME_CONTROL).black[0].orderCount).to.equal(1);
+    });
+
+    it("respects the resting order's band too", () => {
+      const resting = orderbook.placeOrder("carol", "black", ticks(10), TIME_CONTROL, "standard", { maxOpponentRating: 1300 });
+      const order = orderbook.placeOrder("alice", "white", ticks(10), TIME_CONTROL);
+
+      expect(order.status).to.equal("open");
+      expect(resting.status).to.equal("open");
+
+      orderbook.placeOrder("bob", "white", ticks(10), TIME_CONTROL);
+      expect(resting.status).to.equal("filled");
+    });
+
+    it("skips opponents without a known rating once a bound is set", () => {
+      orderbook.placeOrder("dave", "black", ticks(10), TIME_CONTROL);
+      const order = orderbook.placeOrder("alice", "white", ticks(10), TIME_CONTROL, "standard", { maxOpponentRating: 3000 });
+
+      expect(order.status).to.equal("open");
+      expect(games).to.have.length(0);
+    });
+
+    it("kills a fill-or-kill order when only out-of-band orders could fill it", () => {
+      orderbook.placeOrder("bob", "black", ticks(10), TIME_CONTROL);
+      const order = orderbook.placeOrder("alice", "white", ticks(10), TIME_CONTROL, "standard", {
+        timeInForce: "FOK",
+        minOpponentRating: 1600,
+      });
+
+      expect(order.status).to.equal("killed");
+      expect(games).to.have.length(0);
+    });
+
+    it("rejects an inverted band", () => {
+      expect(() => orderbook.placeOrder("alice", "white", ticks(10), TIME_CONTROL, "standard", {
+        minOpponentRating: 1600,
+        maxOpponentRating: 1400,
+      })).to.throw("above the maximum");
+    });
+  });
+
+  describe("self-trade prevention", () => {
+    it("cancels the incoming order by default and leaves the resting one", () => {
+      const resting = orderbook.placeOrder("alice", "black", ticks(10), TIME_CONTROL);
+      const order = orderbook.placeOrder("alice", "white", ticks(10), TIME_CONTROL);
+
+      expect(order.status).to.equal("cancelled");
+      expect(resting.status).to.equal("open");
+      expect(orderbook.getOrderbookDepth(TIME_CONTROL).white).to.have.length(0);
+      expect(ledger.getBalances("alice")).to.deep.equal({ available: ticks(10), held: ticks(10), escrow: 0n });
+    });
+
+    it("keeps fills made before meeting the player's own order", () => {
+      orderbook.placeOrder("bob", "black", ticks(19), TIME_CONTROL);
+      const own = orderbook.placeOrder("alice", "black", ticks(21), TIME_CONTROL);
+      const order = orderbook.placeOrder("alice", "white", ticks(20), TIME_CONTROL);
+
+      expect(order.status).to.equal("cancelled");
+      expect(order.filledAmount).to.equal(ticks(19));
+      expect(own.status).to.equal("open");
+      expect(games).to.have.length(1);
+      expect(ledger.getBalances("alice")).to.deep.equal({ available: ticks(1), held: ticks(21), escrow: ticks(19) });
+    });
+
+    it("cancels the resting order and keeps matching with cancel_oldest", () => {
+      const own = orderbook.placeOrder("alice", "black", ticks(10), TIME_CONTROL);
+      const other = orderbook.placeOrder("bob", "black", ticks(10), TIME_CONTROL);
+      const order = orderbook.placeOrder("alice", "white", ticks(10), TIME_CONTROL, "standard", {
+        selfTradePrevention: "cancel_oldest",
+      });
+
+      expect(own.status).to.equal("cancelled");
+      expect(other.status).to.equal("filled");
+      expect(order.status).to.equal("filled");
+      expect(games).to.have.length(1);
+    });
+
+    it("cancels both orders with cancel_both", () => {
+      const resting = orderbook.placeOrder("alice", "black", ticks(10), TIME_CONTROL);
+      orderbook.placeOrder("bob", "black", ticks(10), TIME_CONTROL);
+      const order = orderbook.placeOrder("alice", "white", ticks(10), TIME_CONTROL, "standard", {
+        selfTradePrevention: "cancel_both",
+      });
+
+      expect(resting.status).to.equal("cancelled");
+      expect(order.status).to.equal("cancelled");
+      expect(games).to.have.length(0);
+      expect(orderbook.getOrderbookDepth(TIME_CONTROL).black[0].orderCount).to.equal(1);
+      expect(ledger.getBalances("alice")).to.deep.equal({ available: ticks(20), held: 0n, escrow: 0n });
+    });
+  });
+});
+
+describe("GameManager orderbook matches", () => {
+  let manager: GameManager;
+
+  beforeEach(() => {
+    manager = new GameManager();
+    manager.registerPlayer("alice");
+    manager.registerPlayer("bob");
+  });
+
+  it("turns a fill into a game staked at the matched amount", () => {
+    manager.placeOrder("alice", "black", ticks(10), TIME_CONTROL);
+    const order = manager.placeOrder("bob", "white", ticks(10), TIME_CONTROL);
+
+    const game = manager.getGame(order.gameIds[0]);
+    expect(game).to.include({ whitePlayer: "bob", blackPlayer: "alice", bettingTier: "unlimited", stake: ticks(10) });
+    expect(game!.bettingPool.totalAmount).to.equal(ticks(20));
+    expect(manager.getPlayerBalances("bob")).to.deep.equal({ available: 0n, held: 0n, escrow: ticks(10) });
+    expect(manager.getBettingEngine().getPlayerLedger().reconcile()).to.equal(true);
+  });
+
+  it("undoes a match whose stakes can't be placed", () => {
+    const engine = manager.getBettingEngine();
+    const placeMatchedBet = engine.placeMatchedBet.bind(engine);
+    // Stake white as usual, then fail black's stake
+    engine.placeMatchedBet = (gameId, playerAddress, side, amount, orderId): BetPlacement<Bet> =>
+      side === "black" ? rejectBet("pool_resolved", "Pool closed") : placeMatchedBet(gameId, playerAddress, side, amount, orderId);
+
+    const consoleError = console.error;
+    console.error = () => {};
+    try {
+      const resting = manager.placeOrder("alice", "black", ticks(10), TIME_CONTROL);
+      const order = manager.placeOrder("bob", "white", ticks(10), TIME_CONTROL);
+
+      expect(order).to.include({ status: "cancelled", filledAmount: 0n });
+      expect(resting).to.include({ status: "cancelled", filledAmount: 0n });
+      expect(order.gameIds).to.have.length(0);
+    } finally {
+      console.error = consoleError;
+    }
+
+    expect(manager.getPlayerGames("alice")).to.have.length(0);
+    expect(manager.getPlayerGames("bob")).to.have.length(0);
+    expect(manager.getPlayerBalances("alice")).to.deep.equal({ available: ticks(10), held: 0n, escrow: 0n });
+    expect(manager.getPlayerBalances("bob")).to.deep.equal({ available: ticks(10), held: 0n, escrow: 0n });
+    expect(engine.getPlayerLedger().reconcile()).to.equal(true);
+  });
+});
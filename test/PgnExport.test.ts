@@ -0,0 +1,83 @@
+import { expect } from "chai";
+import { GameManager, GameMatch } from "../src/lib/game/GameManager";
+import { buildPgnHeaders } from "../src/lib/game/PgnExport";
+
+const STAKE = 100n * 10n ** 18n;
+
+// Value of a PGN tag
+const tag = (pgn: string, name: string) => pgn.match(new RegExp(`\\[${name} "([^"]*)"\\]`))?.[1];
+
+describe("PGN export", () => {
+  let manager: GameManager;
+  let match: GameMatch;
+
+  beforeEach(() => {
+    manager = new GameManager();
+    manager.registerPlayer("alice");
+    manager.registerPlayer("bob");
+    manager.placeOrder("alice", "black", STAKE, { initial: 180, increment: 2 });
+    const order = manager.placeOrder("bob", "white", STAKE, { initial: 180, increment: 2 });
+    match = manager.getGame(order.gameIds[0])!;
+    manager.startGame(match.id);
+  });
+
+  it("tags the players, time control and wager", () => {
+    const headers = buildPgnHeaders(match);
+
+    expect(headers).to.include({
+      Event: "ChessBet unlimited tier game",
+      White: "bob",
+      Black: "alice",
+      TimeControl: "180+2",
+      GameId: match.id,
+      BettingTier: "unlimited",
+      WhiteStake: STAKE.toString(),
+      BlackStake: STAKE.toString(),
+      PoolTotal: (2n * STAKE).toString(),
+    });
+    expect(headers.Date).to.match(/^\d{4}\.\d{2}\.\d{2}$/);
+    expect(headers).to.not.have.property("Chess960Position");
+  });
+
+  it("exports a finished game with its result, termination and moves", () => {
+    for (const [move, player] of [["f3", "bob"], ["e5", "alice"], ["g4", "bob"], ["Qh4#", "alice"]]) {
+      manager.makeMove(match.id, move, player);
+    }
+
+    const pgn = manager.exportGamePgn(match.id)!;
+    expect(tag(pgn, "Result")).to.equal("0-1");
+    expect(tag(pgn, "Termination")).to.equal("normal");
+    expect(tag(pgn, "TerminationDetails")).to.equal("Black won by checkmate");
+    expect(tag(pgn, "HouseFee")).to.equal(((2n * STAKE * 5n) / 100n).toString());
+    expect(pgn).to.include("1. f3 e5 2. g4 Qh4# 0-1");
+  });
+
+  it("marks a game still in progress", () => {
+    manager.makeMove(match.id, "e4", "bob");
+
+    const pgn = manager.exportGamePgn(match.id)!;
+    expect(tag(pgn, "Result")).to.equal("*");
+    expect(tag(pgn, "Termination")).to.equal(undefined);
+  });
+
+  it("exports a player's games as one database, oldest first", () => {
+    manager.resign(match.id, "alice");
+    manager.placeOrder("bob", "black", STAKE, { initial: 60, increment: 0 });
+    const order = manager.placeOrder("alice", "white", STAKE, { initial: 60, increment: 0 });
+
+    const pgn = manager.exportPlayerGamesPgn("alice");
+    const gameIds = [...pgn.matchAll(/\[GameId "([^"]*)"\]/g)].map(found => found[1]);
+    expect(gameIds).to.deep.equal([match.id, order.gameIds[0]]);
+    expect(tag(pgn, "TerminationDetails")).to.equal("White won by resignation");
+  });
+
+  it("tags the start position of a Chess960 game", () => {
+    manager.placeOrder("alice", "black", STAKE, { initial: 60, increment: 0 }, "chess960");
+    const order = manager.placeOrder("bob", "white", STAKE, { initial: 60, increment: 0 }, "chess960");
+    const chess960 = manager.getGame(order.gameIds[0])!;
+
+    const pgn = manager.exportGamePgn(chess960.id)!;
+    expect(tag(pgn, "Chess960Position")).to.equal(String(chess960.game.startPosition));
+    expect(tag(pgn, "FEN")).to.equal(chess960.game.startFen);
+  });
+});
@@ -0,0 +1,175 @@
+import { expect } from "chai";
+import { PlayerLedger, ledgerAccount } from "../src/lib/betting/PlayerLedger";
+
+describe("PlayerLedger", () => {
+  let ledger: PlayerLedger;
+
+  beforeEach(() => {
+    ledger = new PlayerLedger();
+  });
+
+  describe("deposits and withdrawals", () => {
+    it("credits deposits to the available balance and counts them as held by the system", () => {
+      ledger.deposit("alice", 100n);
+
+      expect(ledger.getBalances("alice")).to.deep.equal({ available: 100n, held: 0n, escrow: 0n });
+      expect(ledger.getTotalDeposits()).to.equal(100n);
+      expect(ledger.reconcile()).to.equal(true);
+    });
+
+    it("rejects non-positive deposits", () => {
+      expect(ledger.deposit("alice", 0n)).to.equal(null);
+      expect(ledger.getEntries()).to.have.length(0);
+    });
+
+    it("withdraws the whole available balance by default", () => {
+      ledger.deposit("alice", 100n);
+      ledger.withdraw("alice");
+
+      expect(ledger.getBalance("alice")).to.equal(0n);
+      expect(ledger.getTotalDeposits()).to.equal(0n);
+    });
+
+    it("refuses to withdraw more than is available", () => {
+      ledger.deposit("alice", 100n);
+
+      expect(ledger.withdraw("alice", 101n)).to.equal(null);
+      expect(ledger.getBalance("alice")).to.equal(100n);
+    });
+  });
+
+  describe("holds and escrow", () => {
+    it("refuses a hold beyond the available balance unless it may pull from the wallet", () => {
+      ledger.deposit("alice", 50n);
+
+      expect(ledger.hold("order-1", "alice", 80n)).to.equal(false);
+      expect(ledger.hold("order-1", "alice", 80n, true)).to.equal(true);
+      expect(ledger.getBalances("alice")).to.deep.equal({ available: 0n, held: 80n, escrow: 0n });
+      expect(ledger.getTotalDeposits()).to.equal(80n);
+    });
+
+    it("refuses a second hold under the same ref", () => {
+      ledger.hold("order-1", "alice", 10n, true);
+
+      expect(ledger.hold("order-1", "alice", 10n, true)).to.equal(false);
+    });
+
+    it("escrows part of a hold and releases the rest", () => {
+      ledger.hold("order-1", "alice", 100n, true);
+
+      expect(ledger.escrowHold("order-1", 30n)).to.equal(true);
+      expect(ledger.releaseHold("order-1")).to.equal(70n);
+      expect(ledger.getBalances("alice")).to.deep.equal({ available: 70n, held: 0n, escrow: 30n });
+      expect(ledger.reconcile()).to.equal(true);
+    });
+
+    it("refuses to escrow more than is held", () => {
+      ledger.hold("order-1", "alice", 100n, true);
+
+      expect(ledger.escrowHold("order-1", 101n)).to.equal(false);
+      expect(ledger.getBalance("alice", "held")).to.equal(100n);
+    });
+
+    it("moves escrow between refs without touching balances", () => {
+      ledger.hold("order-1", "alice", 100n, true);
+      ledger.escrowHold("order-1");
+
+      expect(ledger.moveEscrow("order-1", "bet-1", 60n)).to.equal(true);
+      expect(ledger.returnEscrow("bet-1")).to.equal(60n);
+      expect(ledger.returnEscrow("order-1")).to.equal(40n);
+      expect(ledger.getBalances("alice")).to.deep.equal({ available: 100n, held: 0n, escrow: 0n });
+    });
+
+    it("hands an escrowed stake to a new owner", () => {
+      ledger.hold("bet-1", "alice", 100n, true);
+      ledger.escrowHold("bet-1");
+
+      expect(ledger.transferEscrow("bet-1", "house")).to.equal(true);
+      expect(ledger.getBalance("alice", "escrow")).to.equal(0n);
+      expect(ledger.getBalance("house", "escrow")).to.equal(100n);
+    });
+  });
+
+  describe("pool settlement", () => {
+    it("empties a pool account once its stakes are paid out", () => {
+      ledger.hold("bet-1", "alice", 60n, true);
+      ledger.escrowHold("bet-1");
+      ledger.hold("bet-2", "bob", 40n, true);
+      ledger.escrowHold("bet-2");
+
+      ledger.collectStake("bet-1", "game-1-player");
+      ledger.collectStake("bet-2", "game-1-player");
+      expect(ledger.getPoolBalance("game-1-player")).to.equal(100n);
+
+      ledger.creditFromPool("game-1-player", "payout", "alice", 95n, "bet-1");
+      ledger.creditFromPool("game-1-player", "house_fee", "house", 5n);
+
+      expect(ledger.getPoolBalance("game-1-player")).to.equal(0n);
+      expect(ledger.getBalance("alice")).to.equal(95n);
+      expect(ledger.getBalance("house")).to.equal(5n);
+      expect(ledger.reconcile()).to.equal(true);
+    });
+
+    it("skips zero-amount transfers", () => {
+      expect(ledger.creditFromPool("game-1-player", "dust", "house", 0n)).to.equal(null);
+      expect(ledger.getEntries()).to.have.length(0);
+    });
+  });
+
+  describe("totals", () => {
+    it("counts escrowed stakes as wagered, less stakes returned, and payouts and cash-outs as won", () => {
+      ledger.hold("bet-1", "alice", 100n, true);
+      ledger.escrowHold("bet-1");
+      ledger.hold("bet-2", "alice", 50n, true);
+      ledger.escrowHold("bet-2");
+      ledger.returnEscrow("bet-2");
+
+      ledger.collectStake("bet-1", "pool");
+      ledger.creditFromPool("pool", "payout", "alice", 90n, "bet-1");
+      ledger.creditFromPool("pool", "house_fee", "house", 10n);
+
+      ledger.deposit("house", 25n);
+      ledger.payFromHouse("house", "alice", 25n);
+
+      expect(ledger.getTotals("alice")).to.deep.equal({ wagered: 100n, won: 115n });
+    });
+
+    it("ignores holds that are released without being escrowed", () => {
+      ledger.hold("order-1", "alice", 100n, true);
+      ledger.releaseHold("order-1");
+
+      expect(ledger.getTotals("alice")).to.deep.equal({ wagered: 0n, won: 0n });
+    });
+
+    it("returns a copy of the running totals", () => {
+      ledger.hold("bet-1", "alice", 100n, true);
+      ledger.escrowHold("bet-1");
+
+      ledger.getTotals("alice").wagered = 0n;
+      expect(ledger.getTotals("alice").wagered).to.equal(100n);
+    });
+  });
+
+  describe("reconcile", () => {
+    it("holds across a mix of entries", () => {
+      ledger.deposit("alice", 500n);
+      ledger.hold("order-1", "alice", 200n);
+      ledger.escrowHold("order-1", 150n);
+      ledger.releaseHold("order-1");
+      ledger.collectStake("order-1", "pool");
+      ledger.creditFromPool("pool", "refund", "alice", 150n);
+      ledger.withdraw("alice", 300n);
+
+      expect(ledger.reconcile()).to.equal(true);
+      expect(ledger.getTotalDeposits()).to.equal(200n);
+    });
+
+    it("fails when a balance no longer matches the journal", () => {
+      ledger.deposit("alice", 100n);
+      // Simulate a balance written outside the journal
+      (ledger as unknown as { balances: Map<string, bigint> }).balances.set(ledgerAccount("available", "alice"), 150n);
+
+      expect(ledger.reconcile()).to.equal(false);
+    });
+  });
+});
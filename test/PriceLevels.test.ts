@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import { PriceLevels } from "../src/lib/orderbook/PriceLevels";
+
+// Tick amounts of the levels, in order
+const ticksOf = (levels: { tickAmount: bigint }[]) => levels.map(level => level.tickAmount);
+
+describe("PriceLevels", () => {
+  let levels: PriceLevels;
+
+  beforeEach(() => {
+    levels = new PriceLevels();
+  });
+
+  it("keeps levels sorted whatever order they arrive in", () => {
+    for (const tick of [50n, 10n, 40n, 20n, 30n]) levels.getOrCreate(tick);
+
+    expect(ticksOf(levels.values())).to.deep.equal([10n, 20n, 30n, 40n, 50n]);
+    expect(levels.best()?.tickAmount).to.equal(10n);
+    expect(levels.size).to.equal(5);
+  });
+
+  it("returns the existing level for a tick amount", () => {
+    const level = levels.getOrCreate(10n);
+
+    expect(levels.getOrCreate(10n)).to.equal(level);
+    expect(levels.get(10n)).to.equal(level);
+    expect(levels.size).to.equal(1);
+  });
+
+  it("lists the levels within a range, bounds included", () => {
+    for (const tick of [10n, 20n, 30n, 40n, 50n]) levels.getOrCreate(tick);
+
+    expect(ticksOf(levels.range(20n, 40n))).to.deep.equal([20n, 30n, 40n]);
+    expect(ticksOf(levels.range(15n, 25n))).to.deep.equal([20n]);
+    expect(levels.range(51n, 60n)).to.have.length(0);
+  });
+
+  it("prunes a level only once it is empty", () => {
+    const level = levels.getOrCreate(10n);
+    levels.getOrCreate(20n);
+    level.orders.push({} as never);
+
+    levels.prune(level);
+    expect(levels.get(10n)).to.equal(level);
+
+    level.orders.pop();
+    levels.prune(level);
+    expect(levels.get(10n)).to.equal(undefined);
+    expect(levels.best()?.tickAmount).to.equal(20n);
+  });
+
+  it("ignores a level that was already pruned and recreated", () => {
+    const stale = levels.getOrCreate(10n);
+    levels.prune(stale);
+    const fresh = levels.getOrCreate(10n);
+
+    levels.prune(stale);
+    expect(levels.get(10n)).to.equal(fresh);
+    expect(ticksOf(levels.values())).to.deep.equal([10n]);
+  });
+
+  it("stays sorted through many random inserts and removals", () => {
+    let seed = 7;
+    const random = (max: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % max;
+    };
+    const expected = new Set<bigint>();
+
+    for (let step = 0; step < 5000; step++) {
+      const tick = BigInt(random(1000));
+      if (expected.has(tick) && random(2) === 0) {
+        levels.prune(levels.get(tick)!);
+        expected.delete(tick);
+      } else {
+        levels.getOrCreate(tick);
+        expected.add(tick);
+      }
+    }
+
+    const sorted = [...expected].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    expect(ticksOf(levels.values())).to.deep.equal(sorted);
+    expect(levels.size).to.equal(sorted.length);
+    expect(ticksOf(levels.range(250n, 750n))).to.deep.equal(sorted.filter(tick => tick >= 250n && tick <= 750n));
+  });
+});
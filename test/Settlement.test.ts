@@ -0,0 +1,193 @@
+import { expect } from "chai";
+import { BettingEngine, BetSide, HOUSE_ACCOUNT } from "../src/lib/betting/BettingEngine";
+import {
+  PLAYER_SETTLEMENT_POLICY,
+  SPECTATOR_SETTLEMENT_POLICY,
+  SettlementPolicy,
+  calculateSettlement,
+} from "../src/lib/betting/SettlementPolicy";
+
+describe("Settlement", () => {
+  describe("calculateSettlement", () => {
+    it("pays winners pro rata net of the fee and keeps the rounding remainder as dust", () => {
+      const outcome = calculateSettlement(
+        SPECTATOR_SETTLEMENT_POLICY,
+        "white",
+        [
+          { side: "white", amount: 1n },
+          { side: "white", amount: 2n },
+          { side: "black", amount: 8n },
+        ],
+        1n
+      );
+
+      // 10 net of fee split 1:2 => 3 and 6, with 1 left over
+      expect(outcome).to.deep.equal({ action: "pay_winners", payouts: [3n, 6n, 0n], fee: 1n, dust: 1n });
+    });
+
+    it("refunds a drawn head-to-head game without a fee", () => {
+      const outcome = calculateSettlement(
+        PLAYER_SETTLEMENT_POLICY,
+        "draw",
+        [
+          { side: "white", amount: 50n },
+          { side: "black", amount: 50n },
+        ],
+        5n
+      );
+
+      expect(outcome).to.deep.equal({ action: "refund", payouts: [50n, 50n], fee: 0n, dust: 0n });
+    });
+
+    it("pays draw backers in a spectator pool and charges the fee", () => {
+      const outcome = calculateSettlement(
+        SPECTATOR_SETTLEMENT_POLICY,
+        "draw",
+        [
+          { side: "draw", amount: 10n },
+          { side: "white", amount: 90n },
+        ],
+        5n
+      );
+
+      expect(outcome).to.deep.equal({ action: "pay_winners", payouts: [95n, 0n], fee: 5n, dust: 0n });
+    });
+
+    it("refunds fee-free when nobody backed the result", () => {
+      const outcome = calculateSettlement(SPECTATOR_SETTLEMENT_POLICY, "draw", [{ side: "white", amount: 40n }], 2n);
+
+      expect(outcome).to.deep.equal({ action: "refund", payouts: [40n], fee: 0n, dust: 0n });
+    });
+
+    it("lets the house keep the pool when nobody backed the result and the policy says so", () => {
+      const policy: SettlementPolicy = { ...SPECTATOR_SETTLEMENT_POLICY, refundWhenNoWinners: false };
+      const outcome = calculateSettlement(policy, "black", [{ side: "white", amount: 40n }], 2n);
+
+      expect(outcome).to.deep.equal({ action: "house_keeps", payouts: [0n], fee: 40n, dust: 0n });
+    });
+
+    it("refunds everything without a result", () => {
+      const outcome = calculateSettlement(SPECTATOR_SETTLEMENT_POLICY, null, [{ side: "white", amount: 40n }], 2n);
+
+      expect(outcome).to.deep.equal({ action: "refund", payouts: [40n], fee: 0n, dust: 0n });
+    });
+
+    it("accounts for every unit of the pool across many stake sets", () => {
+      const sides: BetSide[] = ["white", "black", "draw"];
+      let seed = 1;
+      const random = (max: number) => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed % max;
+      };
+
+      for (let run = 0; run < 200; run++) {
+        const stakes = Array.from({ length: 1 + random(8) }, () => ({
+          side: sides[random(3)],
+          amount: BigInt(1 + random(1_000_000)),
+        }));
+        const total = stakes.reduce((sum, stake) => sum + stake.amount, 0n);
+        const houseFee = (total * 500n) / 10000n;
+
+        for (const result of sides) {
+          const outcome = calculateSettlement(SPECTATOR_SETTLEMENT_POLICY, result, stakes, houseFee);
+          const paid = outcome.payouts.reduce((sum, payout) => sum + payout, 0n);
+
+          expect(paid + outcome.fee + outcome.dust).to.equal(total);
+          expect(outcome.dust >= 0n).to.equal(true);
+          // Dust is below one unit per paid stake
+          expect(outcome.dust < BigInt(stakes.length)).to.equal(true);
+        }
+      }
+    });
+  });
+
+  describe("BettingEngine", () => {
+    const GAME = "game-1";
+    let engine: BettingEngine;
+
+    beforeEach(() => {
+      engine = new BettingEngine(500);
+      engine.createBettingPool(GAME);
+      engine.createSpectatorPool(GAME);
+    });
+
+    it("pays the winning player the pool net of the 5% fee", () => {
+      engine.placeBet(GAME, "white", "white", 1000n);
+      engine.placeBet(GAME, "black", "black", 1000n);
+      engine.resolveBets(GAME, "white");
+
+      expect(engine.getSettlementSummary(GAME, "player")).to.include({
+        totalPool: 2000n,
+        payouts: 1900n,
+        houseFee: 100n,
+        dust: 0n,
+      });
+      expect(engine.getPlayerLedger().getBalance("white")).to.equal(1900n);
+      expect(engine.getPlayerLedger().getBalance(HOUSE_ACCOUNT)).to.equal(100n);
+    });
+
+    it("refunds both players on a draw", () => {
+      engine.placeBet(GAME, "white", "white", 1000n);
+      engine.placeBet(GAME, "black", "black", 1000n);
+      engine.resolveBets(GAME, "draw");
+
+      expect(engine.getPlayerLedger().getBalance("white")).to.equal(1000n);
+      expect(engine.getPlayerLedger().getBalance("black")).to.equal(1000n);
+      expect(engine.getSettlementSummary(GAME, "player").houseFee).to.equal(0n);
+    });
+
+    it("sends spectator pool dust to the house and empties the pool account", () => {
+      engine.placeSpectatorBet(GAME, "s1", "white", 333n);
+      engine.placeSpectatorBet(GAME, "s2", "white", 333n);
+      engine.placeSpectatorBet(GAME, "s3", "white", 334n);
+      engine.placeSpectatorBet(GAME, "s4", "black", 1001n);
+      engine.placeBet(GAME, "white", "white", 10n);
+      engine.placeBet(GAME, "black", "black", 10n);
+      engine.resolveBets(GAME, "white");
+
+      const summary = engine.getSettlementSummary(GAME, "spectator");
+      expect(summary.payouts + summary.houseFee + summary.dust).to.equal(2001n);
+      expect(summary.houseFee).to.equal(100n); // 5% of 2001, rounded down
+      expect(summary.dust > 0n).to.equal(true);
+
+      const ledger = engine.getPlayerLedger();
+      expect(ledger.getPoolBalance(`${GAME}-spectator`)).to.equal(0n);
+      expect(ledger.getBalance(HOUSE_ACCOUNT)).to.equal(100n + summary.dust + 1n); // plus the player pool's fee
+      expect(ledger.reconcile()).to.equal(true);
+    });
+
+    it("marks losing bets lost and winners won with their payout", () => {
+      const winner = engine.placeSpectatorBet(GAME, "s1", "black", 100n);
+      const loser = engine.placeSpectatorBet(GAME, "s2", "white", 100n);
+      engine.placeBet(GAME, "white", "white", 10n);
+      engine.resolveBets(GAME, "black");
+
+      if (!winner.ok || !loser.ok) throw new Error("bets were rejected");
+      expect(winner.bet).to.include({ status: "won", payout: 190n });
+      expect(loser.bet.status).to.equal("lost");
+    });
+
+    it("refunds every stake of an aborted game", () => {
+      engine.placeBet(GAME, "white", "white", 1000n);
+      engine.placeSpectatorBet(GAME, "s1", "draw", 77n);
+      engine.refundBets(GAME);
+
+      expect(engine.getPlayerLedger().getBalance("white")).to.equal(1000n);
+      expect(engine.getPlayerLedger().getBalance("s1")).to.equal(77n);
+      expect(engine.getLedgerEntries(GAME).every(entry => entry.type === "refund")).to.equal(true);
+    });
+
+    it("refuses to settle a pool twice", () => {
+      engine.placeBet(GAME, "white", "white", 1000n);
+      engine.resolveBets(GAME, "white");
+
+      expect(engine.resolveBets(GAME, "black")).to.equal(null);
+    });
+
+    it("rejects bets once the pool has settled", () => {
+      engine.resolveBets(GAME, "white");
+
+      expect(engine.placeBet(GAME, "white", "white", 1n)).to.include({ ok: false, reason: "pool_resolved" });
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { expect } from "chai";
+import { GameManager, GameMatch } from "../src/lib/game/GameManager";
+
+const TIME_CONTROL = { initial: 300, increment: 0 };
+const UNIT = 10n ** 18n;
+
+describe("Spectator betting", () => {
+  let manager: GameManager;
+  let match: GameMatch;
+
+  beforeEach(() => {
+    manager = new GameManager();
+    manager.registerPlayer("alice");
+    manager.registerPlayer("bob");
+    manager.findMatch("alice", "low", TIME_CONTROL);
+    const placement = manager.findMatch("bob", "low", TIME_CONTROL);
+    if (!placement.ok || !placement.bet) throw new Error("no match");
+    match = placement.bet;
+  });
+
+  it("takes pool bets until the first move is played", () => {
+    expect(manager.placeSpectatorBet(match.id, "carol", "white", UNIT).ok).to.equal(true);
+    manager.startGame(match.id);
+    expect(manager.placeSpectatorBet(match.id, "dave", "black", UNIT).ok).to.equal(true);
+
+    manager.makeMove(match.id, "e4", match.whitePlayer);
+    expect(manager.placeSpectatorBet(match.id, "erin", "black", UNIT)).to.include({
+      ok: false,
+      reason: "market_closed",
+    });
+    expect(manager.getSpectatorPool(match.id)!.totalAmount).to.equal(2n * UNIT);
+  });
+
+  it("keeps taking quoted bets on an in-play market after the first move", () => {
+    expect(manager.openInPlayMarket(match.id).ok).to.equal(true);
+    manager.startGame(match.id);
+    manager.makeMove(match.id, "e4", match.whitePlayer);
+
+    const quote = manager.getInPlayQuote(match.id);
+    if (!quote.ok) throw new Error(quote.message);
+
+    expect(manager.placeSpectatorBet(match.id, "carol", "white", UNIT, quote.bet.id).ok).to.equal(true);
+  });
+
+  it("rejects an in-play quote made stale by a move", () => {
+    manager.openInPlayMarket(match.id);
+    manager.startGame(match.id);
+
+    const quote = manager.getInPlayQuote(match.id);
+    if (!quote.ok) throw new Error(quote.message);
+    manager.makeMove(match.id, "e4", match.whitePlayer);
+
+    expect(manager.placeSpectatorBet(match.id, "carol", "white", UNIT, quote.bet.id)).to.include({
+      ok: false,
+      reason: "invalid_quote",
+    });
+  });
+
+  it("keeps players out of their own game's pool", () => {
+    expect(manager.placeSpectatorBet(match.id, "alice", "white", UNIT)).to.include({
+      ok: false,
+      reason: "not_allowed",
+    });
+  });
+
+  it("closes once the game is over", () => {
+    manager.startGame(match.id);
+    manager.resign(match.id, "alice");
+
+    expect(manager.placeSpectatorBet(match.id, "carol", "white", UNIT)).to.include({
+      ok: false,
+      reason: "market_closed",
+    });
+  });
+});
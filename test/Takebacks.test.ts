@@ -0,0 +1,89 @@
+import { expect } from "chai";
+import { GameManager, GameMatch } from "../src/lib/game/GameManager";
+
+const TIME_CONTROL = { initial: 300, increment: 0 };
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+describe("Takebacks", () => {
+  let manager: GameManager;
+  let match: GameMatch;
+  let white: string;
+  let black: string;
+
+  beforeEach(() => {
+    manager = new GameManager();
+    manager.registerPlayer("alice");
+    manager.registerPlayer("bob");
+    manager.findMatch("alice", "low", TIME_CONTROL);
+    const placement = manager.findMatch("bob", "low", TIME_CONTROL);
+    if (!placement.ok || !placement.bet) throw new Error("no match");
+    match = placement.bet;
+    white = match.whitePlayer;
+    black = match.blackPlayer;
+    manager.startGame(match.id);
+  });
+
+  it("takes back the requester's move before the opponent replies", () => {
+    manager.makeMove(match.id, "e4", white);
+
+    expect(manager.requestTakeback(match.id, white)).to.equal(true);
+    expect(manager.getTakebackRequest(match.id)).to.equal(white);
+    expect(manager.acceptTakeback(match.id, black)).to.equal(true);
+
+    expect(match.game.moves).to.have.length(0);
+    expect(match.game.fen).to.equal(START_FEN);
+    expect(manager.getClockState(match.id)?.activeColor).to.equal("w");
+    expect(manager.getTakebackRequest(match.id)).to.equal(undefined);
+  });
+
+  it("takes back the opponent's reply too once they have moved", () => {
+    manager.makeMove(match.id, "e4", white);
+    manager.makeMove(match.id, "e5", black);
+
+    manager.requestTakeback(match.id, white);
+    expect(manager.acceptTakeback(match.id, black)).to.equal(true);
+    expect(match.game.moves).to.have.length(0);
+
+    // The game carries on from the restored position
+    expect(manager.makeMove(match.id, "d4", white)).to.equal(true);
+  });
+
+  it("won't let the requester accept their own request", () => {
+    manager.makeMove(match.id, "e4", white);
+    manager.requestTakeback(match.id, white);
+
+    expect(manager.acceptTakeback(match.id, white)).to.equal(false);
+    expect(match.game.moves).to.have.length(1);
+  });
+
+  it("drops a declined request and leaves the game as it was", () => {
+    manager.makeMove(match.id, "e4", white);
+    manager.requestTakeback(match.id, white);
+
+    expect(manager.declineTakeback(match.id, black)).to.equal(true);
+    expect(manager.getTakebackRequest(match.id)).to.equal(undefined);
+    expect(manager.acceptTakeback(match.id, black)).to.equal(false);
+    expect(match.game.moves).to.have.length(1);
+  });
+
+  it("refuses a takeback with nothing to take back", () => {
+    expect(manager.requestTakeback(match.id, white)).to.equal(false);
+    expect(manager.requestTakeback(match.id, black)).to.equal(false);
+  });
+
+  it("refuses takebacks in games with bets", () => {
+    const consoleError = console.error;
+    console.error = () => {};
+    try {
+      manager.placeOrder("alice", "black", 10n * 10n ** 18n, TIME_CONTROL);
+      const order = manager.placeOrder("bob", "white", 10n * 10n ** 18n, TIME_CONTROL);
+      const staked = manager.getGame(order.gameIds[0])!;
+      manager.startGame(staked.id);
+      manager.makeMove(staked.id, "e4", "bob");
+
+      expect(manager.requestTakeback(staked.id, "bob")).to.equal(false);
+    } finally {
+      console.error = consoleError;
+    }
+  });
+});